@@ -4,6 +4,9 @@ import { LogBox } from 'react-native';
 import AppNavigator from './src/navigation/AppNavigator';
 import { useAppStore } from './src/store';
 import socketService from './src/services/socket';
+import { offlineStorage } from './src/services/offlineStorage';
+import { quotaManager } from './src/services/quotaManager';
+import { syncService } from './src/services/syncService';
 import { ErrorBoundary } from './src/components/common/ErrorBoundary';
 import "./global.css";
 
@@ -35,6 +38,24 @@ export default function App() {
   const theme = useAppStore((state) => state.theme);
 
   useEffect(() => {
+    let isMounted = true;
+
+    const start = async () => {
+      // Sign back in with the session saved in the keychain, if any. This picks
+      // the account's storage namespace, so it has to finish before anything
+      // reads or writes stored data.
+      await useAppStore.getState().restoreSession();
+
+      // Upgrade persisted data to the current schema versions
+      await offlineStorage.runMigrations();
+      if (!isMounted) return;
+
+      // Keep caches within budget and send queued learner changes in the background
+      quotaManager.start();
+      syncService.startAutoSync();
+    };
+    start();
+
     // Connect to socket when app starts
     socketService.connect();
 
@@ -53,6 +74,9 @@ export default function App() {
 
     // Cleanup on unmount
     return () => {
+      isMounted = false;
+      quotaManager.stop();
+      syncService.stopAutoSync();
       socketService.disconnect();
       notificationCleanup();
       removeNotificationListener(subscription);
@@ -1,3 +1,6 @@
+// React Native global read by utils/logger at import time
+global.__DEV__ = false;
+
 // Mock react-native
 jest.mock('react-native', () => ({
   Platform: { OS: 'ios', select: jest.fn((obj) => obj.ios) },
@@ -12,6 +15,11 @@ jest.mock('react-native', () => ({
   SafeAreaView: 'SafeAreaView',
   ScrollView: 'ScrollView',
   Switch: 'Switch',
+  Share: { share: jest.fn(() => Promise.resolve({ action: 'sharedAction' })) },
+  AppState: {
+    currentState: 'active',
+    addEventListener: jest.fn(() => ({ remove: jest.fn() })),
+  },
 }));
 
 // Mock expo-notifications
@@ -80,6 +88,33 @@ jest.mock('@react-native-async-storage/async-storage', () => ({
   getAllKeys: jest.fn(() => Promise.resolve([])),
   multiGet: jest.fn(() => Promise.resolve([])),
   multiSet: jest.fn(() => Promise.resolve()),
+  multiRemove: jest.fn(() => Promise.resolve()),
+}));
+
+// Mock expo-secure-store with an in-memory keychain
+jest.mock('expo-secure-store', () => {
+  const items = new Map();
+  return {
+    getItemAsync: jest.fn((key) => Promise.resolve(items.has(key) ? items.get(key) : null)),
+    setItemAsync: jest.fn((key, value) => {
+      items.set(key, value);
+      return Promise.resolve();
+    }),
+    deleteItemAsync: jest.fn((key) => {
+      items.delete(key);
+      return Promise.resolve();
+    }),
+  };
+});
+
+// Mock expo-crypto
+jest.mock('expo-crypto', () => ({
+  getRandomBytes: jest.fn((length) => new Uint8Array(require('crypto').randomBytes(length))),
+  randomUUID: jest.fn(() => require('crypto').randomUUID()),
+  digestStringAsync: jest.fn((algorithm, data) =>
+    Promise.resolve(require('crypto').createHash('sha256').update(data).digest('hex'))
+  ),
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
 }));
 
 // Silence console warnings during tests
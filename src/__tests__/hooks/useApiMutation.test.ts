@@ -0,0 +1,112 @@
+import { act, renderHook } from '@testing-library/react-native';
+import { useApiMutation } from '../../hooks/useApiMutation';
+
+// Mutation whose calls wait until the test settles them
+const deferredMutation = () => {
+  const calls: {
+    variables: any;
+    signal: AbortSignal;
+    resolve: (data: any) => void;
+    reject: (error: any) => void;
+  }[] = [];
+  const mutation = jest.fn(
+    (variables: any, signal: AbortSignal) =>
+      new Promise<{ data: any }>((resolve, reject) => {
+        calls.push({ variables, signal, resolve: (data) => resolve({ data }), reject });
+      })
+  );
+  return { mutation, calls };
+};
+
+describe('useApiMutation', () => {
+  it('should keep the state of the latest call when replies arrive out of order', async () => {
+    const { mutation, calls } = deferredMutation();
+    const { result } = renderHook(() => useApiMutation(mutation));
+
+    let first!: Promise<unknown>;
+    let second!: Promise<unknown>;
+    act(() => {
+      first = result.current.mutate({ name: 'Ada' });
+      second = result.current.mutate({ name: 'Grace' });
+    });
+
+    await act(async () => {
+      calls[1].resolve('Grace');
+      await second;
+    });
+    expect(result.current.data).toBe('Grace');
+    expect(result.current.isLoading).toBe(false);
+
+    // The earlier caller still gets its own reply
+    await act(async () => {
+      calls[0].resolve('Ada');
+      await expect(first).resolves.toBe('Ada');
+    });
+    expect(result.current.data).toBe('Grace');
+  });
+
+  it('should ignore a failure of a call that was superseded', async () => {
+    const { mutation, calls } = deferredMutation();
+    const { result } = renderHook(() => useApiMutation(mutation));
+
+    let first!: Promise<unknown>;
+    act(() => {
+      first = result.current.mutate(1);
+      result.current.mutate(2);
+    });
+
+    await act(async () => {
+      calls[0].reject(new Error('Conflict'));
+      await expect(first).rejects.toThrow('Conflict');
+    });
+    expect(result.current.error).toBeNull();
+    expect(result.current.isLoading).toBe(true);
+  });
+
+  it('should abort pending calls when the component unmounts', () => {
+    const { mutation, calls } = deferredMutation();
+    const { result, unmount } = renderHook(() => useApiMutation(mutation));
+
+    act(() => {
+      result.current.mutate('profile').catch(() => undefined);
+    });
+    unmount();
+
+    expect(calls[0].signal.aborted).toBe(true);
+  });
+
+  it('should send the last variables again on retry', async () => {
+    const { mutation, calls } = deferredMutation();
+    const { result } = renderHook(() => useApiMutation(mutation));
+
+    let failed!: Promise<unknown>;
+    act(() => {
+      failed = result.current.mutate({ bio: 'Hi' });
+    });
+    await act(async () => {
+      calls[0].reject(new Error('Network Error'));
+      await expect(failed).rejects.toThrow('Network Error');
+    });
+    expect(result.current.error?.message).toBe('Network Error');
+
+    let retried!: Promise<unknown>;
+    act(() => {
+      retried = result.current.retry();
+    });
+    expect(calls[1].variables).toEqual({ bio: 'Hi' });
+    await act(async () => {
+      calls[1].resolve('saved');
+      await retried;
+    });
+    expect(result.current.data).toBe('saved');
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should refuse to retry before anything was sent', async () => {
+    const { mutation } = deferredMutation();
+    const { result } = renderHook(() => useApiMutation(mutation));
+
+    await expect(result.current.retry()).rejects.toThrow('Nothing to retry');
+    expect(mutation).not.toHaveBeenCalled();
+  });
+});
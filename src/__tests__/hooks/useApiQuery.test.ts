@@ -0,0 +1,109 @@
+import { act, renderHook } from '@testing-library/react-native';
+import { useApiQuery } from '../../hooks/useApiQuery';
+
+// Query whose calls wait until the test settles them
+const deferredQuery = () => {
+  const calls: {
+    signal: AbortSignal;
+    resolve: (data: any) => void;
+    reject: (error: any) => void;
+  }[] = [];
+  const query = jest.fn(
+    (signal: AbortSignal) =>
+      new Promise<{ data: any }>((resolve, reject) => {
+        calls.push({ signal, resolve: (data) => resolve({ data }), reject });
+      })
+  );
+  return { query, calls };
+};
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status, headers },
+  });
+
+describe('useApiQuery', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should abort the request when the component unmounts', async () => {
+    const { query, calls } = deferredQuery();
+    const { result, unmount } = renderHook(() => useApiQuery(query, []));
+    expect(result.current.isLoading).toBe(true);
+
+    unmount();
+    expect(calls[0].signal.aborted).toBe(true);
+  });
+
+  it('should drop the reply to a request made for previous deps', async () => {
+    const { query, calls } = deferredQuery();
+    const { result, rerender } = renderHook(({ id }: { id: string }) => useApiQuery(query, [id]), {
+      initialProps: { id: 'c1' },
+    });
+
+    rerender({ id: 'c2' });
+    expect(calls[0].signal.aborted).toBe(true);
+
+    await act(async () => {
+      calls[1].resolve('second');
+      calls[0].resolve('first');
+    });
+    expect(result.current.data).toBe('second');
+    expect(result.current.isLoading).toBe(false);
+  });
+
+  it('should retry failures that may go away, waiting as long as the server asks', async () => {
+    jest.useFakeTimers();
+    const { query, calls } = deferredQuery();
+    const { result } = renderHook(() => useApiQuery(query, []));
+
+    await act(async () => {
+      calls[0].reject(httpError(503, { 'retry-after': '2' }));
+    });
+    expect(result.current.retryCount).toBe(1);
+    expect(result.current.isLoading).toBe(true);
+
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(1999);
+    });
+    expect(query).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(1);
+    });
+    await act(async () => {
+      calls[1].resolve('course');
+    });
+    expect(result.current.data).toBe('course');
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should report a rejected request without retrying and run it again on retry()', async () => {
+    const { query, calls } = deferredQuery();
+    const { result } = renderHook(() => useApiQuery(query, []));
+
+    await act(async () => {
+      calls[0].reject(httpError(404));
+    });
+    expect(query).toHaveBeenCalledTimes(1);
+    expect(result.current.error?.message).toBe('Request failed with status code 404');
+    expect(result.current.isLoading).toBe(false);
+
+    act(() => result.current.retry());
+    expect(result.current.isLoading).toBe(true);
+    await act(async () => {
+      calls[1].resolve('course');
+    });
+    expect(result.current.data).toBe('course');
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should not run while disabled', () => {
+    const { query } = deferredQuery();
+    const { result } = renderHook(() => useApiQuery(query, [], { enabled: false }));
+
+    expect(query).not.toHaveBeenCalled();
+    expect(result.current.isLoading).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { useCourseProgress } from '../../hooks/useCourseProgress';
+import { offlineStorage, STORAGE_KEYS } from '../../services/offlineStorage';
+import { applyRemoteChanges } from '../../services/remoteChanges';
+import { MemoryStorageAdapter } from '../../services/storage/memoryStorageAdapter';
+import { CourseProgress } from '../../types/course';
+
+// Offline, so queued progress stays in the queue
+jest.mock('expo-network', () => ({
+  getNetworkStateAsync: jest.fn(() =>
+    Promise.resolve({ isConnected: false, isInternetReachable: false, type: 'NONE' })
+  ),
+}));
+
+jest.mock('../../services/api', () => {
+  const service = {
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    delete: jest.fn(),
+  };
+  return { __esModule: true, apiService: service, default: service };
+});
+
+jest.mock('../../services/pushNotifications', () => ({
+  scheduleLocalNotification: jest.fn(() => Promise.resolve('notification-id')),
+}));
+
+const storedProgress = () =>
+  offlineStorage.retrieve<CourseProgress>(`${STORAGE_KEYS.COURSE_PROGRESS}_c1`);
+
+describe('useCourseProgress', () => {
+  beforeEach(() => {
+    offlineStorage.setAdapter(new MemoryStorageAdapter());
+  });
+
+  it('should keep notes and bookmarks pulled after the screen loaded its progress', async () => {
+    const { result } = renderHook(() => useCourseProgress({ courseId: 'c1', autoSync: false }));
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(async () => {
+      await applyRemoteChanges([
+        {
+          entity: 'note',
+          id: 'n1',
+          courseId: 'c1',
+          lessonId: 'l1',
+          changedAt: '2026-01-02T00:00:00.000Z',
+          data: {
+            id: 'n1',
+            lessonId: 'l1',
+            content: 'from the web',
+            timestamp: 0,
+            createdAt: '2026-01-02T00:00:00.000Z',
+            updatedAt: '2026-01-02T00:00:00.000Z',
+          },
+        },
+        { entity: 'bookmark', id: 'l2', courseId: 'c1', changedAt: '2026-01-02T00:00:00.000Z' },
+      ]);
+    });
+
+    await act(async () => {
+      await result.current.updateLastPosition('l1', 42);
+    });
+
+    const progress = await storedProgress();
+    expect(progress!.lessons.l1.lastPosition).toBe(42);
+    expect(progress!.notes.l1.map((note) => note.content)).toEqual(['from the web']);
+    expect(progress!.bookmarks).toEqual(['l2']);
+    expect(result.current.progress).toEqual(progress);
+  });
+
+  it('should apply edits made before the previous one was saved', async () => {
+    const { result } = renderHook(() => useCourseProgress({ courseId: 'c1', autoSync: false }));
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(async () => {
+      await Promise.all([result.current.addBookmark('l1'), result.current.addBookmark('l2')]);
+    });
+
+    expect((await storedProgress())!.bookmarks).toEqual(['l1', 'l2']);
+  });
+});
@@ -0,0 +1,72 @@
+import { apiService } from '../../services/api';
+import { api } from '../../services/api/client';
+import { courseSchema } from '../../services/api/contracts';
+import { ApiValidationError, safeParse } from '../../services/api/schema';
+import { sampleCourse } from '../../data/sampleCourse';
+
+jest.mock('../../services/api', () => {
+  const service = { get: jest.fn(), post: jest.fn(), put: jest.fn(), delete: jest.fn() };
+  return { __esModule: true, apiService: service, default: service };
+});
+
+const mockedApi = apiService as jest.Mocked<typeof apiService>;
+
+describe('api client', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should accept the sample course', () => {
+    expect(safeParse(courseSchema, sampleCourse).success).toBe(true);
+  });
+
+  it('should build the request from the endpoint definition', async () => {
+    mockedApi.get.mockResolvedValue({ data: { changes: [], cursor: 'c2' }, status: 200, headers: {} } as any);
+    mockedApi.put.mockResolvedValue({ data: '', status: 204, headers: { etag: '"r3"' } } as any);
+
+    const page = await api.getSyncChanges({ params: { since: 'c1' } });
+    const write = await api.putProgress({
+      params: { courseId: 'c1' },
+      body: { courseId: 'c1' } as any,
+      ifMatch: '"r2"',
+    });
+
+    expect(mockedApi.get).toHaveBeenCalledWith('/sync/changes', { since: 'c1' });
+    expect(page.data.cursor).toBe('c2');
+    expect(mockedApi.put).toHaveBeenCalledWith('/courses/c1/progress', { courseId: 'c1' }, { ifMatch: '"r2"' });
+    expect(write.headers.etag).toBe('"r3"');
+  });
+
+  it('should reject a malformed payload with every issue and its path', async () => {
+    const course = {
+      ...sampleCourse,
+      sections: [{ ...sampleCourse.sections[0], lessons: [{ id: 'l1', title: 7 }] }],
+      level: 'expert',
+    };
+    mockedApi.get.mockResolvedValue({ data: course, status: 200, headers: {} } as any);
+
+    const error: ApiValidationError = await api.getCourse({ params: { courseId: 'c1' } }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiValidationError);
+    expect(error.endpoint).toBe('getCourse (GET /courses/c1)');
+    expect(error.issues.map((issue) => issue.path)).toEqual([
+      'sections[0].lessons[0].title',
+      'sections[0].lessons[0].content',
+      'sections[0].lessons[0].duration',
+      'sections[0].lessons[0].order',
+      'level',
+    ]);
+  });
+
+  it('should keep unknown fields and drop nulls for optional ones', async () => {
+    mockedApi.get.mockResolvedValue({
+      data: { id: 'u1', name: 'Ada', email: 'ada@example.com', avatar: null, locale: 'en' },
+      status: 200,
+      headers: {},
+    } as any);
+
+    const { data } = await api.getUser({ params: { userId: 'u1' } });
+
+    expect(data).toEqual({ id: 'u1', name: 'Ada', email: 'ada@example.com', locale: 'en' });
+  });
+});
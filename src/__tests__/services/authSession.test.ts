@@ -0,0 +1,103 @@
+import { InternalAxiosRequestConfig } from 'axios';
+import apiClient, { REFRESH_ENDPOINT } from '../../services/api/axios.config';
+import { authSession, AuthEvent } from '../../services/authSession';
+
+type Reply = { status: number; data?: any };
+
+// Answer requests in-process: `handler` decides the reply to each request
+const useServer = (handler: (config: InternalAxiosRequestConfig) => Reply | Promise<Reply>) => {
+  const seen: InternalAxiosRequestConfig[] = [];
+  apiClient.defaults.adapter = async (config) => {
+    seen.push(config);
+    const { status, data } = await handler(config);
+    const response = { data, status, statusText: '', headers: {}, config };
+    if (status >= 400) {
+      const error: any = new Error(`Request failed with status code ${status}`);
+      error.config = config;
+      error.response = response;
+      error.isAxiosError = true;
+      throw error;
+    }
+    return response;
+  };
+  return seen;
+};
+
+const authorization = (config: InternalAxiosRequestConfig) => config.headers.Authorization;
+
+describe('authSession', () => {
+  const events: AuthEvent['type'][] = [];
+  const recordEvent = (event: AuthEvent) => events.push(event.type);
+
+  beforeEach(async () => {
+    await authSession.clear();
+    events.length = 0;
+    authSession.addEventListener(recordEvent);
+  });
+
+  afterEach(() => {
+    authSession.removeEventListener(recordEvent);
+  });
+
+  it('should send the access token with every request', async () => {
+    const seen = useServer(() => ({ status: 200, data: {} }));
+    await authSession.start({ accessToken: 'a1', refreshToken: 'r1' });
+
+    await apiClient.get('/courses');
+
+    expect(authorization(seen[0])).toBe('Bearer a1');
+  });
+
+  it('should refresh once for concurrent 401s and replay every request', async () => {
+    let releaseRefresh: () => void = () => undefined;
+    const seen = useServer(async (config) => {
+      if (config.url === REFRESH_ENDPOINT) {
+        await new Promise<void>((resolve) => {
+          releaseRefresh = resolve;
+        });
+        return { status: 200, data: { accessToken: 'a2' } };
+      }
+      return authorization(config) === 'Bearer a2'
+        ? { status: 200, data: config.url }
+        : { status: 401 };
+    });
+    await authSession.start({ accessToken: 'a1', refreshToken: 'r1' });
+
+    const requests = Promise.all([apiClient.get('/courses'), apiClient.get('/notifications')]);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    releaseRefresh();
+    const responses = await requests;
+
+    expect(responses.map((response) => response.data)).toEqual(['/courses', '/notifications']);
+    const refreshes = seen.filter((config) => config.url === REFRESH_ENDPOINT);
+    expect(refreshes).toHaveLength(1);
+    expect(JSON.parse(refreshes[0].data)).toEqual({ refreshToken: 'r1' });
+    expect(authorization(refreshes[0])).toBeUndefined();
+    // The refresh token was not rotated, so it is kept
+    await authSession.refreshAccessToken(async (refreshToken) => {
+      expect(refreshToken).toBe('r1');
+      return { accessToken: 'a3' };
+    });
+    expect(events).toEqual(['signedIn', 'refreshed', 'refreshed']);
+  });
+
+  it('should end the session when the refresh token is rejected', async () => {
+    useServer((config) => ({ status: config.url === REFRESH_ENDPOINT ? 400 : 401 }));
+    await authSession.start({ accessToken: 'a1', refreshToken: 'r1' });
+
+    await expect(apiClient.get('/courses')).rejects.toMatchObject({ response: { status: 401 } });
+
+    expect(await authSession.getAccessToken()).toBeNull();
+    expect(events).toEqual(['signedIn', 'expired']);
+  });
+
+  it('should keep the session when the refresh fails for lack of network', async () => {
+    await authSession.start({ accessToken: 'a1', refreshToken: 'r1' });
+
+    await expect(
+      authSession.refreshAccessToken(() => Promise.reject(new Error('Network Error')))
+    ).rejects.toThrow('Network Error');
+
+    expect(await authSession.getAccessToken()).toBe('a1');
+  });
+});
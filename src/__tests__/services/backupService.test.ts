@@ -0,0 +1,222 @@
+import * as Crypto from 'expo-crypto';
+import * as DocumentPicker from 'expo-document-picker';
+import { backupService } from '../../services/backupService';
+import { offlineStorage, STORAGE_KEYS } from '../../services/offlineStorage';
+import { progressStore } from '../../services/progressStore';
+import { MemoryStorageAdapter } from '../../services/storage/memoryStorageAdapter';
+import { useNotificationStore } from '../../store/notificationStore';
+import { CourseProgress, Note } from '../../types/course';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '../../types/notifications';
+
+// Offline, so restored changes stay in the sync queue where the tests can see them
+jest.mock('expo-network', () => ({
+  getNetworkStateAsync: jest.fn(() =>
+    Promise.resolve({ isConnected: false, isInternetReachable: false, type: 'NONE' })
+  ),
+}));
+
+jest.mock('../../services/api', () => {
+  const service = { get: jest.fn(), post: jest.fn(), put: jest.fn(), delete: jest.fn() };
+  return { __esModule: true, apiService: service, default: service };
+});
+
+jest.mock('../../services/pushNotifications', () => ({
+  scheduleLocalNotification: jest.fn(() => Promise.resolve('notification-id')),
+}));
+
+jest.mock('expo-document-picker', () => ({
+  getDocumentAsync: jest.fn(),
+}));
+
+// Files picked by the tests, by URI
+const mockFiles: Record<string, string> = {};
+jest.mock('expo-file-system', () => ({
+  File: jest.fn().mockImplementation((uri: string) => ({
+    text: () => Promise.resolve(mockFiles[uri]),
+  })),
+}));
+
+const progress = (overrides: Partial<CourseProgress> = {}): CourseProgress => ({
+  courseId: 'c1',
+  currentLessonId: 'l1',
+  currentSectionId: 's1',
+  lessons: {},
+  quizzes: {},
+  overallProgress: 0,
+  lastAccessed: '2026-01-01T00:00:00.000Z',
+  bookmarks: [],
+  notes: {},
+  ...overrides,
+});
+
+const note = (id: string, content: string): Note => ({
+  id,
+  lessonId: 'l1',
+  content,
+  timestamp: 0,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+// Back up the current data, then start over on an empty device
+const backUpAndReset = async (): Promise<string> => {
+  const json = JSON.stringify(await backupService.createBackup());
+  offlineStorage.setAdapter(new MemoryStorageAdapter());
+  useNotificationStore.setState({ preferences: DEFAULT_NOTIFICATION_PREFERENCES });
+  return json;
+};
+
+describe('backupService', () => {
+  beforeEach(() => {
+    offlineStorage.setAdapter(new MemoryStorageAdapter());
+    useNotificationStore.setState({ preferences: DEFAULT_NOTIFICATION_PREFERENCES });
+  });
+
+  it('should restore progress, quiz results, preferences and settings on a new device', async () => {
+    await offlineStorage.store(
+      `${STORAGE_KEYS.COURSE_PROGRESS}_c1`,
+      progress({ bookmarks: ['l2'], notes: { l1: [note('n1', 'hello')] }, revision: '"r4"' })
+    );
+    await offlineStorage.store(`${STORAGE_KEYS.QUIZ_PROGRESS}_c1`, {
+      q1: { quizId: 'q1', sectionId: 's1', completed: true, score: 80, answers: {}, attempts: 2 },
+    });
+    await offlineStorage.store(STORAGE_KEYS.SYNC_SETTINGS, { dataSaver: true });
+    useNotificationStore.getState().setPreference('communityActivity', true);
+    const json = await backUpAndReset();
+
+    expect(await backupService.restoreBackup(json)).toEqual({ courses: 1, quizzes: 1 });
+
+    const restored = await offlineStorage.retrieve<CourseProgress>(`${STORAGE_KEYS.COURSE_PROGRESS}_c1`);
+    expect(restored?.bookmarks).toEqual(['l2']);
+    expect(restored?.notes.l1).toEqual([note('n1', 'hello')]);
+    // Not synced from this device yet
+    expect(restored?.revision).toBeUndefined();
+    const quizzes = await offlineStorage.retrieve<any>(`${STORAGE_KEYS.QUIZ_PROGRESS}_c1`);
+    expect(quizzes.q1.attempts).toBe(2);
+    expect(useNotificationStore.getState().preferences.communityActivity).toBe(true);
+    expect(await offlineStorage.retrieve(STORAGE_KEYS.SYNC_SETTINGS)).toEqual({ dataSaver: true });
+
+    const queue = await offlineStorage.getSyncQueue();
+    expect(queue).toEqual([
+      expect.objectContaining({ entity: 'quizAttempt', endpoint: '/courses/c1/quizzes/q1/attempts' }),
+      expect.objectContaining({ entity: 'progress', endpoint: '/courses/c1/progress' }),
+    ]);
+  });
+
+  it('should only queue quiz results the device did not have yet', async () => {
+    const result = { quizId: 'q1', sectionId: 's1', completed: true, score: 80, answers: {}, attempts: 2 };
+    await offlineStorage.store(`${STORAGE_KEYS.QUIZ_PROGRESS}_c1`, { q1: result });
+    const json = await backUpAndReset();
+    await offlineStorage.store(`${STORAGE_KEYS.QUIZ_PROGRESS}_c1`, { q1: result });
+
+    await backupService.restoreBackup(json);
+
+    expect(await offlineStorage.getSyncQueue()).toEqual([]);
+  });
+
+  it('should merge into data already on the device', async () => {
+    await offlineStorage.store(
+      `${STORAGE_KEYS.COURSE_PROGRESS}_c1`,
+      progress({ bookmarks: ['l1'], notes: { l1: [note('n1', 'old device')] } })
+    );
+    await offlineStorage.store(STORAGE_KEYS.SYNC_SETTINGS, { dataSaver: true });
+    const json = await backUpAndReset();
+
+    await offlineStorage.store(
+      `${STORAGE_KEYS.COURSE_PROGRESS}_c1`,
+      progress({ bookmarks: ['l3'], notes: { l1: [note('n2', 'new device')] }, revision: '"r9"' })
+    );
+    await offlineStorage.store(STORAGE_KEYS.SYNC_SETTINGS, { dataSaver: false });
+    await backupService.restoreBackup(json);
+
+    const merged = await offlineStorage.retrieve<CourseProgress>(`${STORAGE_KEYS.COURSE_PROGRESS}_c1`);
+    expect(merged?.bookmarks.sort()).toEqual(['l1', 'l3']);
+    expect(merged?.notes.l1.map((n) => n.id).sort()).toEqual(['n1', 'n2']);
+    expect(merged?.revision).toBe('"r9"');
+    // Changed on this device, so it stays
+    expect(await offlineStorage.retrieve(STORAGE_KEYS.SYNC_SETTINGS)).toEqual({ dataSaver: false });
+  });
+
+  it('should hand restored progress to screens that have the course open', async () => {
+    await offlineStorage.store(
+      `${STORAGE_KEYS.COURSE_PROGRESS}_c1`,
+      progress({ notes: { l1: [note('n1', 'hello')] } })
+    );
+    const json = await backUpAndReset();
+    const listener = jest.fn();
+    progressStore.addListener(listener);
+
+    await backupService.restoreBackup(json);
+    progressStore.removeListener(listener);
+
+    expect(listener).toHaveBeenCalledWith(
+      'c1',
+      expect.objectContaining({ notes: { l1: [note('n1', 'hello')] } })
+    );
+  });
+
+  it('should upgrade data from an older schema version', async () => {
+    const archive = await backupService.createBackup();
+    archive.schemaVersions = { ...archive.schemaVersions, quizProgress: 0 };
+    archive.data.quizProgress = { c1: { q1: { quizId: 'q1', sectionId: 's1', completed: true } as any } };
+    archive.checksum = await resealChecksum(archive);
+
+    const data = await backupService.parseBackup(JSON.stringify(archive));
+
+    expect(data.quizProgress.c1.q1).toEqual(expect.objectContaining({ attempts: 1, answers: {} }));
+  });
+
+  it('should reject a damaged or foreign archive', async () => {
+    await offlineStorage.store(`${STORAGE_KEYS.COURSE_PROGRESS}_c1`, progress());
+    const archive = await backupService.createBackup();
+    const tampered = { ...archive, data: { ...archive.data, courseProgress: {} } };
+
+    await expect(backupService.restoreBackup(JSON.stringify(tampered))).rejects.toThrow('checksum mismatch');
+    await expect(backupService.restoreBackup('{"format":"other"}')).rejects.toThrow('Not a TeachLink backup');
+    await expect(backupService.restoreBackup('not json')).rejects.toThrow('not valid JSON');
+    await expect(
+      backupService.restoreBackup(JSON.stringify({ ...archive, version: 99 }))
+    ).rejects.toThrow('newer version');
+  });
+
+  it('should reject quiz results that are not quiz results', async () => {
+    const archive = await backupService.createBackup();
+    const invalid = [
+      { q1: 'passed' },
+      { q1: { quizId: 'q1', sectionId: 's1', completed: 'yes', answers: {}, attempts: 1 } },
+      { q1: { quizId: 'q2', sectionId: 's1', completed: true, answers: {}, attempts: 1 } },
+      { q1: { quizId: 'q1', sectionId: 's1', completed: true, answers: {}, attempts: 1, score: '80' } },
+    ];
+
+    for (const quizzes of invalid) {
+      archive.data.quizProgress = { c1: quizzes as any };
+      archive.checksum = await resealChecksum(archive);
+      await expect(backupService.parseBackup(JSON.stringify(archive))).rejects.toThrow(
+        'invalid quiz results for course c1'
+      );
+    }
+  });
+
+  it('should read the backup file the learner picks', async () => {
+    const getDocumentAsync = DocumentPicker.getDocumentAsync as jest.Mock;
+    mockFiles['file:///cache/backup.json'] = '{"format":"teachlink-backup"}';
+    getDocumentAsync.mockResolvedValueOnce({
+      canceled: false,
+      assets: [{ uri: 'file:///cache/backup.json', name: 'backup.json' }],
+    });
+
+    expect(await backupService.pickBackupFile()).toBe('{"format":"teachlink-backup"}');
+    expect(getDocumentAsync).toHaveBeenCalledWith(expect.objectContaining({ copyToCacheDirectory: true }));
+
+    getDocumentAsync.mockResolvedValueOnce({ canceled: true, assets: null });
+    expect(await backupService.pickBackupFile()).toBeNull();
+  });
+});
+
+// Same digest the service computes, for archives edited by the test
+function resealChecksum(archive: { version: number; schemaVersions: any; data: any }): Promise<string> {
+  return Crypto.digestStringAsync(
+    Crypto.CryptoDigestAlgorithm.SHA256,
+    JSON.stringify([archive.version, archive.schemaVersions, archive.data])
+  );
+}
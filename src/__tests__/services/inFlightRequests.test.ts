@@ -0,0 +1,97 @@
+import { CanceledError, InternalAxiosRequestConfig } from 'axios';
+import { apiService } from '../../services/api';
+import apiClient from '../../services/api/axios.config';
+import { inFlightRequests } from '../../services/api/inFlightRequests';
+import { offlineStorage } from '../../services/offlineStorage';
+import { MemoryStorageAdapter } from '../../services/storage/memoryStorageAdapter';
+
+// Requests wait until the test answers them
+const useServer = () => {
+  const pending: { config: InternalAxiosRequestConfig; reply: (data: any) => void }[] = [];
+  apiClient.defaults.adapter = (config) =>
+    new Promise((resolve, reject) => {
+      config.signal?.addEventListener?.('abort', () => reject(new CanceledError()));
+      pending.push({
+        config,
+        reply: (data) => resolve({ data, status: 200, statusText: 'OK', headers: {}, config }),
+      });
+    });
+  return pending;
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('inFlightRequests', () => {
+  it('should send identical GETs made together once', async () => {
+    const server = useServer();
+
+    const first = apiService.get('/courses', { page: 1 });
+    const second = apiService.get('/courses', { page: 1 });
+    const other = apiService.get('/courses', { page: 2 });
+    await flush();
+
+    expect(server).toHaveLength(2);
+    server[0].reply(['c1']);
+    server[1].reply(['c2']);
+    expect((await first).data).toEqual(['c1']);
+    expect((await second).data).toEqual(['c1']);
+    expect((await other).data).toEqual(['c2']);
+
+    // Done, so the next call goes out again
+    apiService.get('/courses', { page: 1 });
+    await flush();
+    expect(server).toHaveLength(3);
+    server[2].reply([]);
+  });
+
+  it('should not share a request across accounts', async () => {
+    const server = useServer();
+    offlineStorage.setAdapter(new MemoryStorageAdapter());
+    await offlineStorage.setUserScope('u1');
+
+    const first = apiService.get('/me');
+    await offlineStorage.setUserScope('u2');
+    const second = apiService.get('/me');
+    await flush();
+
+    expect(server).toHaveLength(2);
+    server[0].reply({ id: 'u1' });
+    server[1].reply({ id: 'u2' });
+    expect((await first).data).toEqual({ id: 'u1' });
+    expect((await second).data).toEqual({ id: 'u2' });
+    await offlineStorage.setUserScope(null);
+  });
+
+  it('should only abort the shared request once every caller has cancelled', async () => {
+    const server = useServer();
+    const firstController = new AbortController();
+    const secondController = new AbortController();
+
+    const first = apiService.get('/courses', undefined, { signal: firstController.signal });
+    const second = apiService.get('/courses', undefined, { signal: secondController.signal });
+    await flush();
+
+    firstController.abort();
+    await expect(first).rejects.toBeInstanceOf(CanceledError);
+    expect(server[0].config.signal?.aborted).toBe(false);
+
+    secondController.abort();
+    await expect(second).rejects.toBeInstanceOf(CanceledError);
+    expect(server[0].config.signal?.aborted).toBe(true);
+    expect(inFlightRequests.size).toBe(0);
+  });
+
+  it('should keep the request for callers that did not cancel', async () => {
+    const server = useServer();
+    const controller = new AbortController();
+
+    const cancelled = apiService.get('/profile', undefined, { signal: controller.signal });
+    const kept = apiService.get('/profile');
+    await flush();
+    controller.abort();
+
+    await expect(cancelled).rejects.toBeInstanceOf(CanceledError);
+    server[0].reply({ name: 'Ada' });
+    expect((await kept).data).toEqual({ name: 'Ada' });
+  });
+});
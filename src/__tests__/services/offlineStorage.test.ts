@@ -0,0 +1,559 @@
+import { OfflineStorage, STORAGE_KEYS } from '../../services/offlineStorage';
+import { MemoryStorageAdapter } from '../../services/storage/memoryStorageAdapter';
+import { byteLength } from '../../services/storage/utils';
+import { migrationRegistry } from '../../services/storage/migrations';
+import { cachePolicies } from '../../services/storage/cachePolicies';
+import { storageEncryption } from '../../services/storage/encryption';
+
+// Raw stored envelope, decrypted when the key is protected
+const readStored = async (adapter: MemoryStorageAdapter, key: string) => {
+  const parsed = JSON.parse((await adapter.getItem(key)) as string);
+  return storageEncryption.isEncryptedPayload(parsed)
+    ? JSON.parse(await storageEncryption.decrypt(parsed))
+    : parsed;
+};
+
+describe('MemoryStorageAdapter', () => {
+  let adapter: MemoryStorageAdapter;
+
+  beforeEach(async () => {
+    adapter = new MemoryStorageAdapter();
+    await adapter.multiSet([
+      ['b', '2'],
+      ['a_1', 'one'],
+      ['a_2', 'two'],
+      ['c', '3'],
+    ]);
+  });
+
+  it('should return prefix matches in key order', async () => {
+    expect(await adapter.queryKeys({ prefix: 'a_' })).toEqual(['a_1', 'a_2']);
+  });
+
+  it('should return range matches with an exclusive end', async () => {
+    const entries = await adapter.query({ gte: 'a_2', lt: 'c' });
+    expect(entries).toEqual([
+      ['a_2', 'two'],
+      ['b', '2'],
+    ]);
+  });
+
+  it('should apply limits after sorting', async () => {
+    expect(await adapter.queryKeys({ limit: 2 })).toEqual(['a_1', 'a_2']);
+  });
+
+  it('should return null for missing keys in multiGet', async () => {
+    expect(await adapter.multiGet(['a_1', 'missing'])).toEqual([
+      ['a_1', 'one'],
+      ['missing', null],
+    ]);
+  });
+
+  it('should remove several keys at once', async () => {
+    await adapter.multiRemove(['a_1', 'b']);
+    expect(await adapter.getAllKeys()).toEqual(['a_2', 'c']);
+  });
+});
+
+describe('byteLength', () => {
+  it('should count ASCII characters as one byte', () => {
+    expect(byteLength('hello')).toBe(5);
+  });
+
+  it('should count multi-byte characters by their UTF-8 length', () => {
+    expect(byteLength('é')).toBe(2);
+    expect(byteLength('€')).toBe(3);
+    expect(byteLength('📚')).toBe(4);
+  });
+});
+
+describe('OfflineStorage', () => {
+  let adapter: MemoryStorageAdapter;
+  let storage: OfflineStorage;
+
+  beforeEach(() => {
+    adapter = new MemoryStorageAdapter();
+    storage = new OfflineStorage(adapter);
+  });
+
+  it('should store and retrieve data through the adapter', async () => {
+    await storage.store('key', { value: 42 });
+
+    expect(await storage.retrieve('key')).toEqual({ value: 42 });
+    expect(await storage.exists('key')).toBe(true);
+  });
+
+  it('should list every stored course', async () => {
+    await storage.storeCourse('c1', { id: 'c1' });
+    await storage.storeCourse('c2', { id: 'c2' });
+    await storage.store(STORAGE_KEYS.SETTINGS, { theme: 'dark' });
+
+    const courses = await storage.getAllCourses();
+    expect(courses).toEqual([{ id: 'c1' }, { id: 'c2' }]);
+  });
+
+  it('should store and retrieve several items at once', async () => {
+    await storage.storeMany({ first: 1, second: 2 });
+
+    expect(await storage.retrieveMany(['first', 'second', 'third'])).toEqual({
+      first: 1,
+      second: 2,
+    });
+  });
+
+  it('should report storage size in bytes', async () => {
+    await adapter.setItem('k', '€');
+    await adapter.setItem('other_k', 'abc');
+
+    expect(await storage.getStorageSize()).toBe(1 + 3 + 7 + 3);
+    expect(await storage.getStorageSize('other_')).toBe(10);
+  });
+
+  it('should order the sync queue by priority', async () => {
+    await storage.addToSyncQueue({ type: 'UPDATE', endpoint: '/low', priority: 'low' });
+    await storage.addToSyncQueue({ type: 'CREATE', endpoint: '/high', priority: 'high' });
+
+    const queue = await storage.getSyncQueue();
+    expect(queue.map((op) => op.endpoint)).toEqual(['/high', '/low']);
+  });
+
+  it('should tell change listeners when an operation is queued', async () => {
+    const listener = jest.fn();
+    storage.addChangeListener(listener);
+
+    await storage.addToSyncQueue({ type: 'UPDATE', endpoint: '/notes/n1', priority: 'medium' });
+    storage.removeChangeListener(listener);
+
+    expect(listener).toHaveBeenCalledWith([STORAGE_KEYS.SYNC_QUEUE]);
+  });
+});
+
+describe('OfflineStorage migrations', () => {
+  const progressKey = `${STORAGE_KEYS.COURSE_PROGRESS}_c1`;
+  let adapter: MemoryStorageAdapter;
+  let storage: OfflineStorage;
+
+  beforeEach(() => {
+    adapter = new MemoryStorageAdapter();
+    storage = new OfflineStorage(adapter);
+  });
+
+  it('should upgrade legacy unversioned data on read and write it back', async () => {
+    await adapter.setItem(progressKey, JSON.stringify({ courseId: 'c1', lessons: {} }));
+
+    const progress = await storage.retrieve<any>(progressKey);
+    expect(progress.quizzes).toEqual({});
+    expect(progress.bookmarks).toEqual([]);
+
+    const stored = await readStored(adapter, progressKey);
+    expect(stored.version).toBe(migrationRegistry.getVersionForKey(progressKey));
+  });
+
+  it('should write the current family version by default', async () => {
+    await storage.store(progressKey, { courseId: 'c1' });
+
+    const stored = await readStored(adapter, progressKey);
+    expect(stored.version).toBe(migrationRegistry.getVersionForKey(progressKey));
+  });
+
+  it('should migrate every outdated item at startup', async () => {
+    await adapter.setItem(progressKey, JSON.stringify({ courseId: 'c1' }));
+    await adapter.setItem(
+      `${STORAGE_KEYS.QUIZ_PROGRESS}_c1`,
+      JSON.stringify({ q1: { quizId: 'q1', completed: true } })
+    );
+
+    expect(await storage.runMigrations()).toBe(2);
+    expect(await storage.runMigrations()).toBe(0);
+
+    const quizProgress = await storage.retrieve<any>(`${STORAGE_KEYS.QUIZ_PROGRESS}_c1`);
+    expect(quizProgress.q1.attempts).toBe(1);
+  });
+
+  it('should apply upgrade steps in order', () => {
+    migrationRegistry.register({
+      name: 'testFamily',
+      version: 3,
+      migrations: [
+        { version: 2, migrate: (data) => ({ ...data, steps: [...data.steps, 2] }) },
+        { version: 3, migrate: (data) => ({ ...data, steps: [...data.steps, 3] }) },
+      ],
+    });
+
+    const result = migrationRegistry.migrate<any>('testFamily', { steps: [] }, 1);
+    expect(result).toEqual({ data: { steps: [2, 3] }, version: 3, migrated: true });
+  });
+
+  it('should reject data newer than the supported version', () => {
+    expect(() => migrationRegistry.migrate('quizProgress', {}, 99)).toThrow();
+  });
+});
+
+describe('OfflineStorage freshness', () => {
+  let storage: OfflineStorage;
+
+  beforeEach(() => {
+    storage = new OfflineStorage(new MemoryStorageAdapter());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const storeAt = async (key: string, data: unknown, timestamp: number) => {
+    jest.spyOn(Date, 'now').mockReturnValue(timestamp);
+    await storage.store(key, data);
+    jest.restoreAllMocks();
+  };
+
+  it('should classify data by the family policy', async () => {
+    const key = `${STORAGE_KEYS.RESOURCE_CACHE}_/courses`;
+    const policy = cachePolicies.getPolicy(key)!;
+    const now = Date.now();
+
+    await storeAt(key, ['course'], now);
+    expect((await storage.retrieveWithFreshness(key))?.status).toBe('fresh');
+
+    await storeAt(key, ['course'], now - policy.maxAge - 1000);
+    expect((await storage.retrieveWithFreshness(key))?.status).toBe('stale');
+
+    await storeAt(key, ['course'], now - policy.maxAge - policy.staleWhileRevalidate - 1000);
+    const expired = await storage.retrieveWithFreshness(key);
+    expect(expired?.status).toBe('expired');
+    expect(expired?.data).toEqual(['course']);
+  });
+
+  it('should let a per-key policy override the family policy', async () => {
+    await storeAt('custom', 1, Date.now() - 2000);
+
+    expect((await storage.retrieveWithFreshness('custom'))?.status).toBe('fresh');
+    expect(
+      (await storage.retrieveWithFreshness('custom', { maxAge: 1000, staleWhileRevalidate: 0 }))
+        ?.status
+    ).toBe('expired');
+  });
+
+  it('should return null for missing keys', async () => {
+    expect(await storage.retrieveWithFreshness('missing')).toBeNull();
+  });
+});
+
+describe('OfflineStorage encryption', () => {
+  const userKey = `${STORAGE_KEYS.USER_DATA}_u1`;
+  const profile = { name: 'Ada', email: 'ada@example.com' };
+  let adapter: MemoryStorageAdapter;
+  let storage: OfflineStorage;
+
+  beforeEach(() => {
+    adapter = new MemoryStorageAdapter();
+    storage = new OfflineStorage(adapter);
+  });
+
+  it('should never write protected data in plaintext', async () => {
+    await storage.store(userKey, profile);
+
+    const raw = (await adapter.getItem(userKey)) as string;
+    expect(raw).not.toContain('ada@example.com');
+    expect(storageEncryption.isEncryptedPayload(JSON.parse(raw))).toBe(true);
+    expect(await storage.retrieve(userKey)).toEqual(profile);
+  });
+
+  it('should leave unprotected families in plaintext', async () => {
+    await storage.storeCourse('c1', { title: 'Algebra' });
+
+    const raw = (await adapter.getItem(`${STORAGE_KEYS.COURSE_DATA}_c1`)) as string;
+    expect(JSON.parse(raw).data).toEqual({ title: 'Algebra' });
+  });
+
+  it('should reject tampered payloads', async () => {
+    await storage.store(userKey, profile);
+    const payload = JSON.parse((await adapter.getItem(userKey)) as string);
+    payload.data = payload.data.replace(/^./, (c: string) => (c === 'A' ? 'B' : 'A'));
+    await adapter.setItem(userKey, JSON.stringify(payload));
+
+    expect(await storage.retrieve(userKey)).toBeNull();
+  });
+
+  it('should encrypt existing plaintext data at startup', async () => {
+    await adapter.setItem(userKey, JSON.stringify({ data: profile, timestamp: 1, version: 1 }));
+
+    expect(await storage.runMigrations()).toBe(1);
+    expect((await adapter.getItem(userKey)) as string).not.toContain('ada@example.com');
+    expect(await storage.retrieve(userKey)).toEqual(profile);
+  });
+
+  it('should re-encrypt every protected entry under a new key on rotation', async () => {
+    await storage.store(userKey, profile);
+    await storage.storeNotes('c1', { l1: 'note' });
+    const oldKid = JSON.parse((await adapter.getItem(userKey)) as string).kid;
+
+    expect(await storage.rotateEncryptionKey()).toBe(2);
+
+    const payload = JSON.parse((await adapter.getItem(userKey)) as string);
+    expect(payload.kid).not.toBe(oldKid);
+    expect(await storageEncryption.isActiveKey(payload.kid)).toBe(true);
+    expect(await storage.retrieve(userKey)).toEqual(profile);
+    expect(await storage.getNotes('c1')).toEqual({ l1: 'note' });
+
+    // The retired key can no longer open old payloads
+    await expect(
+      storageEncryption.decrypt({ ...payload, kid: oldKid })
+    ).rejects.toThrow();
+  });
+});
+
+describe('OfflineStorage key rotation', () => {
+  const userKey = `${STORAGE_KEYS.USER_DATA}_u1`;
+
+  it('should keep a change written while the rotation was running', async () => {
+    // Writes a new profile right after the rotation read every entry
+    class WriteDuringRotationAdapter extends MemoryStorageAdapter {
+      onMultiGet: (() => Promise<void>) | null = null;
+
+      async multiGet(keys: string[]) {
+        const entries = await super.multiGet(keys);
+        const write = this.onMultiGet;
+        this.onMultiGet = null;
+        await write?.();
+        return entries;
+      }
+    }
+    const adapter = new WriteDuringRotationAdapter();
+    const storage = new OfflineStorage(adapter);
+    await storage.store(userKey, { name: 'Ada' });
+    adapter.onMultiGet = () => storage.store(userKey, { name: 'Ada Lovelace' });
+
+    await storage.rotateEncryptionKey();
+
+    expect(await storage.retrieve(userKey)).toEqual({ name: 'Ada Lovelace' });
+  });
+});
+
+describe('OfflineStorage account scoping', () => {
+  const progressKey = `${STORAGE_KEYS.QUIZ_PROGRESS}_c1`;
+  let adapter: MemoryStorageAdapter;
+  let storage: OfflineStorage;
+
+  beforeEach(() => {
+    adapter = new MemoryStorageAdapter();
+    storage = new OfflineStorage(adapter);
+  });
+
+  it('should keep each account’s data separate', async () => {
+    await storage.setUserScope('alice');
+    await storage.store(progressKey, { q1: 'alice' });
+    await storage.addToSyncQueue({ type: 'UPDATE', endpoint: '/progress', priority: 'high' });
+
+    await storage.setUserScope('bob');
+    expect(await storage.retrieve(progressKey)).toBeNull();
+    expect(await storage.getSyncQueue()).toEqual([]);
+    await storage.store(progressKey, { q1: 'bob' });
+
+    await storage.setUserScope('alice');
+    expect(await storage.retrieve(progressKey)).toEqual({ q1: 'alice' });
+    expect(await storage.getPendingOperationsCount()).toBe(1);
+  });
+
+  it('should share downloaded course content between accounts', async () => {
+    await storage.setUserScope('alice');
+    await storage.storeCourse('c1', { title: 'Algebra' });
+
+    await storage.setUserScope('bob');
+    expect(await storage.getCourse('c1')).toEqual({ title: 'Algebra' });
+  });
+
+  it('should only list keys of the current account', async () => {
+    await storage.setUserScope('alice');
+    await storage.store(progressKey, 1);
+    await storage.setUserScope('bob');
+    await storage.store(`${STORAGE_KEYS.QUIZ_PROGRESS}_c2`, 2);
+
+    expect(await storage.getAllKeys(STORAGE_KEYS.QUIZ_PROGRESS)).toEqual([
+      `${STORAGE_KEYS.QUIZ_PROGRESS}_c2`,
+    ]);
+    expect(Object.keys(await storage.retrieveByPrefix(STORAGE_KEYS.QUIZ_PROGRESS))).toEqual([
+      `${STORAGE_KEYS.QUIZ_PROGRESS}_c2`,
+    ]);
+  });
+
+  it('should hand signed-out data to the next account that signs in', async () => {
+    await storage.store(progressKey, { q1: 'guest' });
+
+    await storage.setUserScope('alice');
+    expect(await storage.retrieve(progressKey)).toEqual({ q1: 'guest' });
+
+    await storage.setUserScope(null);
+    expect(await storage.retrieve(progressKey)).toBeNull();
+  });
+
+  it('should re-encrypt every account’s data on key rotation', async () => {
+    const userKey = `${STORAGE_KEYS.USER_DATA}_me`;
+    await storage.setUserScope('alice');
+    await storage.store(userKey, { name: 'Alice' });
+    await storage.setUserScope('bob');
+    await storage.store(userKey, { name: 'Bob' });
+
+    expect(await storage.rotateEncryptionKey()).toBe(2);
+
+    await storage.setUserScope('alice');
+    expect(await storage.retrieve(userKey)).toEqual({ name: 'Alice' });
+  });
+});
+
+describe('OfflineStorage sync queue coalescing', () => {
+  let storage: OfflineStorage;
+
+  beforeEach(() => {
+    storage = new OfflineStorage(new MemoryStorageAdapter());
+  });
+
+  it('should collapse consecutive updates to the last one', async () => {
+    for (let i = 1; i <= 20; i++) {
+      await storage.addToSyncQueue({
+        type: 'UPDATE',
+        endpoint: '/courses/c1/progress',
+        data: { percent: i },
+        priority: 'medium',
+      });
+    }
+
+    const queue = await storage.getSyncQueue();
+    expect(queue).toHaveLength(1);
+    expect(queue[0].data).toEqual({ percent: 20 });
+  });
+
+  it('should cancel a create followed by a delete', async () => {
+    await storage.addToSyncQueue({ type: 'CREATE', endpoint: '/notes/n1', data: {}, priority: 'high' });
+    await storage.addToSyncQueue({ type: 'UPDATE', endpoint: '/notes/n1', data: { a: 1 }, priority: 'medium' });
+    await storage.addToSyncQueue({ type: 'DELETE', endpoint: '/notes/n1', priority: 'medium' });
+
+    expect(await storage.getSyncQueue()).toEqual([]);
+  });
+
+  it('should fold updates into a pending create', async () => {
+    await storage.addToSyncQueue({ type: 'CREATE', endpoint: '/notes/n1', data: { a: 1 }, priority: 'high' });
+    await storage.addToSyncQueue({ type: 'UPDATE', endpoint: '/notes/n1', data: { b: 2 }, priority: 'low' });
+
+    const queue = await storage.getSyncQueue();
+    expect(queue).toHaveLength(1);
+    expect(queue[0]).toMatchObject({ type: 'CREATE', data: { a: 1, b: 2 }, priority: 'high' });
+  });
+
+  it('should not merge into an operation that is being sent', async () => {
+    const firstId = await storage.addToSyncQueue({
+      type: 'UPDATE',
+      endpoint: '/notes/n1',
+      data: { a: 1 },
+      priority: 'medium',
+    });
+    storage.markOperationInFlight(firstId, true);
+    await storage.addToSyncQueue({ type: 'UPDATE', endpoint: '/notes/n1', data: { a: 2 }, priority: 'medium' });
+
+    expect(await storage.getSyncQueue()).toHaveLength(2);
+  });
+
+  it('should keep per-resource order when a later operation has higher priority', async () => {
+    await storage.addToSyncQueue({ type: 'DELETE', endpoint: '/notes/n1', priority: 'low' });
+    await storage.addToSyncQueue({ type: 'UPDATE', endpoint: '/other', priority: 'medium' });
+    await storage.addToSyncQueue({ type: 'CREATE', endpoint: '/notes/n1', data: {}, priority: 'high' });
+
+    const queue = await storage.getSyncQueue();
+    expect(queue.map((op) => `${op.type} ${op.endpoint}`)).toEqual([
+      'DELETE /notes/n1',
+      'CREATE /notes/n1',
+      'UPDATE /other',
+    ]);
+  });
+});
+
+describe('OfflineStorage sync queue concurrency', () => {
+  // Yields a random number of macrotasks around every read and write, so
+  // concurrent read-modify-write sequences interleave
+  class JitteryStorageAdapter extends MemoryStorageAdapter {
+    private async jitter(): Promise<void> {
+      const turns = Math.floor(Math.random() * 3);
+      for (let i = 0; i < turns; i++) {
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+    }
+
+    async getItem(key: string): Promise<string | null> {
+      await this.jitter();
+      return super.getItem(key);
+    }
+
+    async setItem(key: string, value: string): Promise<void> {
+      await this.jitter();
+      return super.setItem(key, value);
+    }
+  }
+
+  let storage: OfflineStorage;
+
+  beforeEach(() => {
+    storage = new OfflineStorage(new JitteryStorageAdapter());
+  });
+
+  it('should not lose or resurrect operations under interleaved enqueue and dequeue', async () => {
+    const enqueue = (i: number) =>
+      storage.addToSyncQueue({ type: 'UPDATE', endpoint: `/notes/n${i}`, data: { i }, priority: 'medium' });
+
+    // Seed half the operations, then enqueue the rest while removing and
+    // retrying the seeded ones concurrently
+    const seeded = await Promise.all(Array.from({ length: 20 }, (_, i) => enqueue(i)));
+    const added = await Promise.all([
+      ...Array.from({ length: 20 }, (_, i) => enqueue(20 + i)),
+      ...seeded.filter((_, i) => i % 2 === 0).map((id) => storage.removeFromSyncQueue(id).then(() => null)),
+      ...seeded.filter((_, i) => i % 2 === 1).map((id) => storage.incrementRetryCount(id).then(() => null)),
+    ]);
+
+    const queue = await storage.getSyncQueue();
+    const expectedIds = [
+      ...seeded.filter((_, i) => i % 2 === 1),
+      ...added.filter((id): id is string => id !== null),
+    ];
+    expect(queue.map((op) => op.id).sort()).toEqual(expectedIds.sort());
+    expect(queue.filter((op) => op.retries === 1)).toHaveLength(10);
+  });
+
+  it('should not let a read that reseals the queue overwrite a concurrent enqueue', async () => {
+    // The first read of the queue is slow, so an enqueue can finish meanwhile
+    class SlowFirstReadAdapter extends MemoryStorageAdapter {
+      private reads = 0;
+
+      async getItem(key: string): Promise<string | null> {
+        const value = await super.getItem(key);
+        if (key === STORAGE_KEYS.SYNC_QUEUE && this.reads++ === 0) {
+          for (let i = 0; i < 20; i++) {
+            await new Promise((resolve) => setImmediate(resolve));
+          }
+        }
+        return value;
+      }
+    }
+    const adapter = new SlowFirstReadAdapter();
+    storage = new OfflineStorage(adapter);
+    // Left in plaintext by an older version, so reading it writes it back sealed
+    await adapter.setItem(
+      STORAGE_KEYS.SYNC_QUEUE,
+      JSON.stringify({ data: [], timestamp: 1, version: migrationRegistry.getVersionForKey(STORAGE_KEYS.SYNC_QUEUE) })
+    );
+
+    const [, id] = await Promise.all([
+      storage.getSyncQueue(),
+      storage.addToSyncQueue({ type: 'UPDATE', endpoint: '/notes/n1', data: {}, priority: 'low' }),
+    ]);
+
+    expect((await storage.getSyncQueue()).map((op) => op.id)).toEqual([id]);
+  });
+
+  it('should keep every operation when many are queued at once', async () => {
+    await Promise.all(
+      Array.from({ length: 50 }, (_, i) =>
+        storage.addToSyncQueue({ type: 'CREATE', endpoint: `/notes/n${i}`, data: {}, priority: 'low' })
+      )
+    );
+
+    expect(await storage.getPendingOperationsCount()).toBe(50);
+  });
+});
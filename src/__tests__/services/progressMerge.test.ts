@@ -0,0 +1,130 @@
+import { mergeCourseProgress } from '../../services/progressMerge';
+import { CourseProgress, Note } from '../../types/course';
+
+const progress = (overrides: Partial<CourseProgress> = {}): CourseProgress => ({
+  courseId: 'c1',
+  currentLessonId: 'l1',
+  currentSectionId: 's1',
+  lessons: {},
+  quizzes: {},
+  overallProgress: 0,
+  lastAccessed: '2026-01-01T00:00:00.000Z',
+  bookmarks: [],
+  notes: {},
+  ...overrides,
+});
+
+const note = (id: string, content: string, updatedAt: string): Note => ({
+  id,
+  lessonId: 'l1',
+  content,
+  timestamp: 0,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt,
+});
+
+describe('mergeCourseProgress', () => {
+  it('should keep lesson completion and the larger time spent from either device', () => {
+    const local = progress({
+      lessons: { l1: { lessonId: 'l1', completed: true, lastPosition: 10, timeSpent: 30 } },
+    });
+    const server = progress({
+      lessons: {
+        l1: { lessonId: 'l1', completed: false, lastPosition: 50, timeSpent: 90 },
+        l2: { lessonId: 'l2', completed: true, lastPosition: 0, timeSpent: 5 },
+      },
+    });
+
+    const merged = mergeCourseProgress(null, local, server);
+
+    expect(merged.lessons.l1).toEqual(expect.objectContaining({ completed: true, timeSpent: 90 }));
+    expect(merged.lessons.l2.completed).toBe(true);
+  });
+
+  it('should take the position and current lesson from the most recently used device', () => {
+    const local = progress({
+      currentLessonId: 'l1',
+      lastAccessed: '2026-01-02T00:00:00.000Z',
+      lessons: { l1: { lessonId: 'l1', completed: false, lastPosition: 10, timeSpent: 1 } },
+    });
+    const server = progress({
+      currentLessonId: 'l3',
+      lastAccessed: '2026-01-03T00:00:00.000Z',
+      lessons: { l1: { lessonId: 'l1', completed: false, lastPosition: 50, timeSpent: 1 } },
+    });
+
+    const merged = mergeCourseProgress(null, local, server);
+
+    expect(merged.lessons.l1.lastPosition).toBe(50);
+    expect(merged.currentLessonId).toBe('l3');
+    expect(merged.lastAccessed).toBe(server.lastAccessed);
+  });
+
+  it('should merge notes by id with the later edit winning', () => {
+    const base = progress({ notes: { l1: [note('n1', 'draft', '2026-01-01T00:00:00.000Z')] } });
+    const local = progress({
+      notes: {
+        l1: [note('n1', 'phone edit', '2026-01-02T00:00:00.000Z'), note('n2', 'phone', '2026-01-02T00:00:00.000Z')],
+      },
+    });
+    const server = progress({
+      notes: {
+        l1: [note('n1', 'tablet edit', '2026-01-03T00:00:00.000Z'), note('n3', 'tablet', '2026-01-03T00:00:00.000Z')],
+      },
+    });
+
+    const merged = mergeCourseProgress(base, local, server);
+
+    expect(merged.notes.l1.map((item) => item.id).sort()).toEqual(['n1', 'n2', 'n3']);
+    expect(merged.notes.l1.find((item) => item.id === 'n1')?.content).toBe('tablet edit');
+  });
+
+  it('should drop notes deleted on one device unless edited after the delete', () => {
+    const local = progress({
+      notes: { l1: [] },
+      noteTombstones: { n1: '2026-01-02T00:00:00.000Z', n2: '2026-01-02T00:00:00.000Z' },
+    });
+    const server = progress({
+      notes: {
+        l1: [note('n1', 'old', '2026-01-01T00:00:00.000Z'), note('n2', 'edited later', '2026-01-03T00:00:00.000Z')],
+      },
+    });
+
+    const merged = mergeCourseProgress(null, local, server);
+
+    expect(merged.notes.l1.map((item) => item.id)).toEqual(['n2']);
+  });
+
+  it('should treat a note missing from one side as deleted when the base had it', () => {
+    const base = progress({ notes: { l1: [note('n1', 'text', '2026-01-01T00:00:00.000Z')] } });
+    const local = progress({ notes: {} });
+    const server = progress({ notes: { l1: [note('n1', 'text', '2026-01-01T00:00:00.000Z')] } });
+
+    expect(mergeCourseProgress(base, local, server).notes).toEqual({});
+  });
+
+  it('should union bookmarks and honour removals from either device', () => {
+    const base = progress({ bookmarks: ['l1', 'l2'] });
+    const local = progress({ bookmarks: ['l1', 'l2', 'l3'] });
+    const server = progress({
+      bookmarks: ['l1', 'l4'],
+      bookmarkTombstones: { l2: '2026-01-02T00:00:00.000Z' },
+    });
+
+    const merged = mergeCourseProgress(base, local, server);
+
+    expect(merged.bookmarks.sort()).toEqual(['l1', 'l3', 'l4']);
+    expect(merged.bookmarkTombstones).toEqual({ l2: '2026-01-02T00:00:00.000Z' });
+  });
+
+  it('should keep a bookmark re-added after an already merged removal', () => {
+    const base = progress({ bookmarks: [], bookmarkTombstones: { l1: '2026-01-02T00:00:00.000Z' } });
+    const local = progress({ bookmarks: ['l1'] });
+    const server = progress({ bookmarks: [], bookmarkTombstones: { l1: '2026-01-02T00:00:00.000Z' } });
+
+    const merged = mergeCourseProgress(base, local, server);
+
+    expect(merged.bookmarks).toEqual(['l1']);
+    expect(merged.bookmarkTombstones).toEqual({});
+  });
+});
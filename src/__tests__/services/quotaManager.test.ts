@@ -0,0 +1,151 @@
+import { offlineStorage, STORAGE_KEYS } from '../../services/offlineStorage';
+import { quotaManager } from '../../services/quotaManager';
+import { MemoryStorageAdapter } from '../../services/storage/memoryStorageAdapter';
+
+const courseKey = (courseId: string) => `${STORAGE_KEYS.COURSE_DATA}_${courseId}`;
+
+describe('quotaManager', () => {
+  let now: number;
+
+  beforeEach(() => {
+    offlineStorage.setAdapter(new MemoryStorageAdapter());
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now++);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const storeCourses = async (...courseIds: string[]) => {
+    for (const courseId of courseIds) {
+      await offlineStorage.storeCourse(courseId, { id: courseId, body: 'x'.repeat(100) });
+    }
+  };
+
+  it('should report usage per course', async () => {
+    await storeCourses('c1');
+    await offlineStorage.storeMedia('c1', 'intro', 'y'.repeat(50));
+
+    const usage = await quotaManager.getUsage();
+    expect(usage.courses).toHaveLength(1);
+    expect(usage.courses[0].courseId).toBe('c1');
+    expect(usage.courses[0].mediaBytes).toBeGreaterThan(50);
+    expect(usage.totalBytes).toBe(usage.courseBytes + usage.mediaBytes);
+  });
+
+  it('should evict least recently used courses first', async () => {
+    await storeCourses('c1', 'c2', 'c3');
+    await offlineStorage.getCourse('c1');
+
+    const sizes = await offlineStorage.getEntrySizes(`${STORAGE_KEYS.COURSE_DATA}_`);
+    quotaManager.setConfig({ courseBudget: sizes[courseKey('c1')] * 2 });
+
+    const evicted = await quotaManager.enforceQuota();
+    expect(evicted).toEqual([courseKey('c2')]);
+    expect(await offlineStorage.getCourse('c1')).not.toBeNull();
+  });
+
+  it('should never evict courses with pending sync operations', async () => {
+    await storeCourses('c1', 'c2');
+    await offlineStorage.addToSyncQueue({
+      type: 'UPDATE',
+      endpoint: '/courses/c1/progress',
+      priority: 'high',
+    });
+    quotaManager.setConfig({ courseBudget: 0 });
+
+    const evicted = await quotaManager.enforceQuota();
+    expect(evicted).toEqual([courseKey('c2')]);
+  });
+
+  it('should never evict courses with unsynced progress', async () => {
+    await storeCourses('c1');
+    await offlineStorage.store(`${STORAGE_KEYS.COURSE_PROGRESS}_c1`, {
+      courseId: 'c1',
+      lastAccessed: new Date(2026, 0, 2).toISOString(),
+      lastSyncedAt: new Date(2026, 0, 1).toISOString(),
+    });
+    quotaManager.setConfig({ courseBudget: 0 });
+
+    expect(await quotaManager.enforceQuota()).toEqual([]);
+    expect(await quotaManager.purgeCourse('c1')).toBe(false);
+  });
+
+  it('should keep courses another account on the device has unsent work for', async () => {
+    await offlineStorage.setUserScope('u1');
+    await offlineStorage.addToSyncQueue({
+      type: 'UPDATE',
+      endpoint: '/courses/c1/progress',
+      priority: 'high',
+    });
+    await offlineStorage.store(`${STORAGE_KEYS.COURSE_PROGRESS}_c2`, {
+      courseId: 'c2',
+      lastAccessed: new Date(2026, 0, 2).toISOString(),
+    });
+    await offlineStorage.setUserScope('u2');
+    await storeCourses('c1', 'c2', 'c3');
+    quotaManager.setConfig({ courseBudget: 0 });
+
+    try {
+      expect(await quotaManager.enforceQuota()).toEqual([courseKey('c3')]);
+    } finally {
+      await offlineStorage.setUserScope(null);
+    }
+  });
+
+  it('should size entries without reading the cached values', async () => {
+    await storeCourses('c1');
+    await offlineStorage.storeMedia('c1', 'intro', 'y'.repeat(50));
+    const query = jest.spyOn(offlineStorage.getAdapter(), 'query');
+    const getItem = jest.spyOn(offlineStorage.getAdapter(), 'getItem');
+
+    quotaManager.setConfig({ courseBudget: 1024 * 1024, mediaBudget: 1024 * 1024 });
+    expect(await quotaManager.enforceQuota()).toEqual([]);
+    expect(query).not.toHaveBeenCalled();
+    expect(getItem.mock.calls.map(([key]) => key)).not.toContain(courseKey('c1'));
+  });
+
+  it('should attribute media to courses whose ids contain underscores', async () => {
+    await storeCourses('c1', 'c1_advanced');
+    await offlineStorage.storeMedia('c1_advanced', 'intro', 'media');
+    await offlineStorage.storeMedia('c1', 'advanced_intro', 'media');
+
+    const usage = await quotaManager.getUsage();
+    const mediaBytes = (courseId: string) =>
+      usage.courses.find((course) => course.courseId === courseId)!.mediaBytes;
+    expect(mediaBytes('c1')).toBeGreaterThan(0);
+    expect(mediaBytes('c1_advanced')).toBeGreaterThan(0);
+
+    await quotaManager.purgeCourse('c1');
+    expect(await offlineStorage.getMedia('c1', 'advanced_intro')).toBeNull();
+    expect(await offlineStorage.getMedia('c1_advanced', 'intro')).toBe('media');
+  });
+
+  it('should size entries cached before sizes were recorded', async () => {
+    const adapter = new MemoryStorageAdapter();
+    await adapter.setItem(courseKey('c1_advanced'), JSON.stringify({ id: 'c1_advanced' }));
+    await adapter.setItem(`${STORAGE_KEYS.MEDIA_CACHE}_c1_advanced_intro`, '"media"');
+    offlineStorage.setAdapter(adapter);
+
+    const usage = await quotaManager.getUsage();
+    expect(usage.courses).toHaveLength(1);
+    expect(usage.courses[0].courseId).toBe('c1_advanced');
+    expect(usage.courses[0].mediaBytes).toBeGreaterThan(0);
+  });
+
+  it('should purge a course with its media but keep progress', async () => {
+    await storeCourses('c1');
+    await offlineStorage.storeMedia('c1', 'intro', 'media');
+    await offlineStorage.store(`${STORAGE_KEYS.COURSE_PROGRESS}_c1`, {
+      courseId: 'c1',
+      lastAccessed: new Date(2026, 0, 1).toISOString(),
+      lastSyncedAt: new Date(2026, 0, 2).toISOString(),
+    });
+
+    expect(await quotaManager.purgeCourse('c1')).toBe(true);
+    expect(await offlineStorage.getCourse('c1')).toBeNull();
+    expect(await offlineStorage.getMedia('c1', 'intro')).toBeNull();
+    expect(await offlineStorage.exists(`${STORAGE_KEYS.COURSE_PROGRESS}_c1`)).toBe(true);
+  });
+});
@@ -0,0 +1,135 @@
+import { AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+import { apiService } from '../../services/api';
+import apiClient from '../../services/api/axios.config';
+import { getCacheStatus, isStaleResponse, responseCache } from '../../services/api/responseCache';
+import { offlineStorage, STORAGE_KEYS } from '../../services/offlineStorage';
+import { MemoryStorageAdapter } from '../../services/storage/memoryStorageAdapter';
+
+type Reply = { status: number; data?: any; headers?: Record<string, string> } | 'offline';
+
+// Answer requests in-process: `handler` decides the reply to each request
+const useServer = (handler: (config: InternalAxiosRequestConfig) => Reply) => {
+  const seen: InternalAxiosRequestConfig[] = [];
+  apiClient.defaults.adapter = async (config) => {
+    seen.push(config);
+    const reply = handler(config);
+    if (reply === 'offline') {
+      const error: any = new Error('Network Error');
+      error.code = 'ERR_NETWORK';
+      error.config = config;
+      throw error;
+    }
+    const response = {
+      data: reply.data,
+      status: reply.status,
+      statusText: '',
+      headers: new AxiosHeaders(reply.headers ?? {}),
+      config,
+    };
+    if (!config.validateStatus!(reply.status)) {
+      const error: any = new Error(`Request failed with status code ${reply.status}`);
+      error.config = config;
+      error.response = response;
+      throw error;
+    }
+    return response;
+  };
+  return seen;
+};
+
+const courses = [{ id: 'c1', title: 'Intro' }];
+
+describe('responseCache', () => {
+  beforeEach(() => {
+    offlineStorage.setAdapter(new MemoryStorageAdapter());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    responseCache.setConfig({ maxBytes: 5 * 1024 * 1024 });
+  });
+
+  it('should revalidate with the stored validators and serve a 304 from cache', async () => {
+    const seen = useServer((config) =>
+      config.headers['If-None-Match'] === '"v1"'
+        ? { status: 304 }
+        : { status: 200, data: courses, headers: { etag: '"v1"', 'last-modified': 'Mon, 05 Oct 2026 10:00:00 GMT' } }
+    );
+
+    const first = await apiService.get('/courses', undefined, { cache: true });
+    const second = await apiService.get('/courses', undefined, { cache: true });
+
+    expect(getCacheStatus(first)).toBe('MISS');
+    expect(seen[1].headers['If-Modified-Since']).toBe('Mon, 05 Oct 2026 10:00:00 GMT');
+    expect(second.status).toBe(200);
+    expect(second.data).toEqual(courses);
+    expect(getCacheStatus(second)).toBe('REVALIDATED');
+  });
+
+  it('should fall back to the cached copy only when the server cannot be reached', async () => {
+    let reply: Reply = { status: 200, data: courses };
+    useServer(() => reply);
+    await apiService.get('/courses', { page: 1 }, { cache: true });
+
+    reply = 'offline';
+    const offline = await apiService.get('/courses', { page: 1 }, { cache: true });
+    expect(offline.data).toEqual(courses);
+    expect(isStaleResponse(offline)).toBe(true);
+
+    // Nothing cached for this page
+    await expect(apiService.get('/courses', { page: 2 }, { cache: true })).rejects.toThrow('Network Error');
+
+    reply = { status: 500 };
+    await expect(apiService.get('/courses', { page: 1 }, { cache: true })).rejects.toMatchObject({
+      response: { status: 500 },
+    });
+  });
+
+  it('should not fall back to a copy the server has not confirmed for a week', async () => {
+    let reply: Reply = { status: 200, data: courses, headers: { etag: '"v1"' } };
+    useServer(() => reply);
+    const start = Date.now();
+    const now = jest.spyOn(Date, 'now').mockReturnValue(start);
+    await apiService.get('/courses', undefined, { cache: true });
+
+    // A 304 restarts the clock
+    reply = { status: 304 };
+    now.mockReturnValue(start + 6 * 24 * 60 * 60 * 1000);
+    await apiService.get('/courses', undefined, { cache: true });
+
+    reply = 'offline';
+    now.mockReturnValue(start + 12 * 24 * 60 * 60 * 1000);
+    expect(isStaleResponse(await apiService.get('/courses', undefined, { cache: true }))).toBe(true);
+
+    now.mockReturnValue(start + 14 * 24 * 60 * 60 * 1000);
+    await expect(apiService.get('/courses', undefined, { cache: true })).rejects.toThrow('Network Error');
+  });
+
+  it('should evict the least recently confirmed responses over the byte budget', async () => {
+    useServer((config) => ({ status: 200, data: { page: config.params.page, body: 'x'.repeat(400) } }));
+    responseCache.setConfig({ maxBytes: 1000 });
+    const now = jest.spyOn(Date, 'now');
+
+    for (const page of [1, 2, 3]) {
+      now.mockReturnValue(page * 1000);
+      await apiService.get('/courses', { page }, { cache: true });
+    }
+
+    const index = await offlineStorage.retrieve<Record<string, unknown>>(STORAGE_KEYS.HTTP_CACHE_INDEX);
+    expect(Object.keys(index ?? {})).toEqual([
+      responseCache.getKey('GET', '/courses', { page: 2 }),
+      responseCache.getKey('GET', '/courses', { page: 3 }),
+    ]);
+    expect(await offlineStorage.exists(responseCache.getKey('GET', '/courses', { page: 1 }))).toBe(false);
+    expect(await offlineStorage.exists(responseCache.getKey('GET', '/courses', { page: 3 }))).toBe(true);
+  });
+
+  it('should key requests by method, URL and params regardless of param order', () => {
+    expect(responseCache.getKey('GET', '/courses', { b: 2, a: 1 })).toBe(
+      responseCache.getKey('GET', '/courses', { a: 1, b: 2, c: undefined })
+    );
+    expect(responseCache.getKey('GET', '/courses', { a: 1 })).not.toBe(
+      responseCache.getKey('GET', '/courses', { a: 2 })
+    );
+  });
+});
@@ -0,0 +1,56 @@
+import { getBackoffDelay, getRetryAfterMs, isRetriableError } from '../../services/retryPolicy';
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status, data: {}, headers },
+  });
+
+describe('retryPolicy', () => {
+  describe('isRetriableError', () => {
+    it('should retry network errors, server errors and rate limiting', () => {
+      expect(isRetriableError(new Error('Network Error'))).toBe(true);
+      expect(isRetriableError(httpError(500))).toBe(true);
+      expect(isRetriableError(httpError(503))).toBe(true);
+      expect(isRetriableError(httpError(429))).toBe(true);
+      expect(isRetriableError(httpError(408))).toBe(true);
+    });
+
+    it('should not retry validation and auth failures', () => {
+      expect(isRetriableError(httpError(400))).toBe(false);
+      expect(isRetriableError(httpError(401))).toBe(false);
+      expect(isRetriableError(httpError(403))).toBe(false);
+      expect(isRetriableError(httpError(422))).toBe(false);
+    });
+  });
+
+  describe('getRetryAfterMs', () => {
+    it('should read a delay in seconds', () => {
+      expect(getRetryAfterMs(httpError(429, { 'retry-after': '30' }))).toBe(30000);
+    });
+
+    it('should read an HTTP date', () => {
+      const now = Date.parse('2026-01-01T00:00:00Z');
+      const error = httpError(503, { 'retry-after': 'Thu, 01 Jan 2026 00:01:00 GMT' });
+
+      expect(getRetryAfterMs(error, now)).toBe(60000);
+    });
+
+    it('should ignore a missing or unreadable header', () => {
+      expect(getRetryAfterMs(httpError(503))).toBeNull();
+      expect(getRetryAfterMs(httpError(503, { 'retry-after': 'soon' }))).toBeNull();
+      expect(getRetryAfterMs(new Error('timeout'))).toBeNull();
+    });
+  });
+
+  describe('getBackoffDelay', () => {
+    it('should pick a random delay below the exponential ceiling', () => {
+      expect(getBackoffDelay(0, 1000, 60000, () => 0.5)).toBe(500);
+      expect(getBackoffDelay(3, 1000, 60000, () => 0.5)).toBe(4000);
+      expect(getBackoffDelay(3, 1000, 60000, () => 0)).toBe(0);
+    });
+
+    it('should cap the ceiling at the maximum delay', () => {
+      expect(getBackoffDelay(10, 1000, 60000, () => 0.99)).toBe(59400);
+    });
+  });
+});
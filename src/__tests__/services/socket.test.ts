@@ -0,0 +1,56 @@
+import { io } from 'socket.io-client';
+import { authSession } from '../../services/authSession';
+import socketService from '../../services/socket';
+
+jest.mock('socket.io-client', () => ({
+  io: jest.fn(() => {
+    const socket: Record<string, any> = {
+      connected: true,
+      on: jest.fn(),
+      emit: jest.fn(),
+      off: jest.fn(),
+      connect: jest.fn(),
+      disconnect: jest.fn((): Record<string, any> => {
+        socket.connected = false;
+        return socket;
+      }),
+    };
+    return socket;
+  }),
+}));
+
+const mockedIo = io as unknown as jest.Mock;
+const tokens = { accessToken: 'access', refreshToken: 'refresh', expiresAt: Date.now() + 60_000 };
+
+describe('socketService', () => {
+  beforeEach(async () => {
+    await authSession.clear();
+    mockedIo.mockClear();
+  });
+
+  afterEach(() => {
+    socketService.disconnect();
+  });
+
+  it('should drop the connection on sign-out and open a new one on the next sign-in', async () => {
+    const first = socketService.connect();
+    await authSession.start(tokens);
+
+    await authSession.clear();
+    expect(first.disconnect).toHaveBeenCalled();
+
+    await authSession.start(tokens);
+    expect(mockedIo).toHaveBeenCalledTimes(2);
+    socketService.emit('ping', {});
+    expect(mockedIo.mock.results[1].value.emit).toHaveBeenCalledWith('ping', {});
+  });
+
+  it('should stay disconnected after the app closed the connection', async () => {
+    socketService.connect();
+    socketService.disconnect();
+
+    await authSession.start(tokens);
+
+    expect(mockedIo).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,831 @@
+import { apiService } from '../../services/api';
+import { offlineStorage, STORAGE_KEYS, SyncOperation } from '../../services/offlineStorage';
+import { applyRemoteChanges, RemoteChange } from '../../services/remoteChanges';
+import { progressStore } from '../../services/progressStore';
+import { CourseProgress } from '../../types/course';
+import * as Network from 'expo-network';
+import { syncService, SyncEvent } from '../../services/syncService';
+import { deadLetterQueue } from '../../services/deadLetterQueue';
+import { learnerSync } from '../../services/learnerSync';
+import { scheduleLocalNotification } from '../../services/pushNotifications';
+import { MemoryStorageAdapter } from '../../services/storage/memoryStorageAdapter';
+
+jest.mock('expo-network', () => ({
+  getNetworkStateAsync: jest.fn(() =>
+    Promise.resolve({ isConnected: true, isInternetReachable: true, type: 'WIFI' })
+  ),
+}));
+
+jest.mock('../../services/api', () => {
+  const service = {
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    delete: jest.fn(),
+  };
+  return { __esModule: true, apiService: service, default: service };
+});
+
+jest.mock('../../services/pushNotifications', () => ({
+  scheduleLocalNotification: jest.fn(() => Promise.resolve('notification-id')),
+}));
+
+const mockedApi = apiService as jest.Mocked<typeof apiService>;
+
+const httpError = (status: number, data?: any, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status, data, headers },
+  });
+
+const setMaxRetries = async (maxRetries: number) => {
+  const queue = await offlineStorage.getSyncQueue();
+  await offlineStorage.store(STORAGE_KEYS.SYNC_QUEUE, queue.map((op) => ({ ...op, maxRetries })));
+};
+
+const localProgress = (overrides: Partial<CourseProgress> = {}): CourseProgress => ({
+  courseId: 'c1',
+  currentLessonId: 'l1',
+  currentSectionId: 's1',
+  lessons: {},
+  quizzes: {},
+  overallProgress: 0,
+  lastAccessed: '2026-01-01T00:00:00.000Z',
+  bookmarks: [],
+  notes: {},
+  ...overrides,
+});
+
+describe('syncService', () => {
+  beforeEach(() => {
+    // Failed operations schedule a retry timer
+    jest.useFakeTimers();
+    offlineStorage.setAdapter(new MemoryStorageAdapter());
+    jest.clearAllMocks();
+    mockedApi.get.mockResolvedValue({ data: { changes: [], cursor: 'c0' } } as any);
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('should send the same idempotency key on every attempt', async () => {
+    mockedApi.post.mockRejectedValueOnce(new Error('timeout')).mockResolvedValueOnce({ data: {} } as any);
+    await offlineStorage.addToSyncQueue({
+      type: 'CREATE',
+      endpoint: '/notes/n1',
+      data: { text: 'hi' },
+      priority: 'high',
+    });
+    const [operation] = await offlineStorage.getSyncQueue();
+
+    await syncService.flush();
+    await syncService.flush();
+
+    expect(mockedApi.post).toHaveBeenCalledTimes(2);
+    expect(mockedApi.post.mock.calls[0][2]).toEqual({ idempotencyKey: operation.idempotencyKey });
+    expect(mockedApi.post.mock.calls[1][2]).toEqual({ idempotencyKey: operation.idempotencyKey });
+    expect(await offlineStorage.getSyncQueue()).toEqual([]);
+  });
+
+  it('should treat an already-applied reply as success', async () => {
+    mockedApi.post.mockRejectedValueOnce(httpError(409, { code: 'ALREADY_APPLIED' }));
+    await offlineStorage.addToSyncQueue({ type: 'CREATE', endpoint: '/notes/n1', data: {}, priority: 'high' });
+
+    expect(await syncService.flush()).toBe(0);
+  });
+
+  it('should treat deleting a missing resource as success', async () => {
+    mockedApi.delete.mockRejectedValueOnce(httpError(404));
+    await offlineStorage.addToSyncQueue({ type: 'DELETE', endpoint: '/notes/n1', priority: 'medium' });
+
+    expect(await syncService.flush()).toBe(0);
+  });
+
+  it('should keep operations rejected for other reasons', async () => {
+    mockedApi.put.mockRejectedValueOnce(httpError(409, { code: 'VERSION_MISMATCH' }));
+    await offlineStorage.addToSyncQueue({ type: 'UPDATE', endpoint: '/notes/n1', data: {}, priority: 'medium' });
+
+    expect(await syncService.flush()).toBe(1);
+  });
+
+  it('should record each sync run in the history', async () => {
+    mockedApi.post.mockResolvedValueOnce({ data: {} } as any);
+    mockedApi.put.mockRejectedValueOnce(new Error('timeout'));
+    const createId = await offlineStorage.addToSyncQueue({
+      type: 'CREATE',
+      endpoint: '/notes/n1',
+      data: { text: 'hi' },
+      priority: 'high',
+    });
+    await offlineStorage.addToSyncQueue({
+      type: 'UPDATE',
+      endpoint: '/bookmarks/b1',
+      data: { noteId: 'n1' },
+      priority: 'high',
+      dependsOn: [createId],
+    });
+
+    await syncService.flush();
+
+    const [run] = await syncService.getSyncHistory();
+    expect(run).toEqual(
+      expect.objectContaining({ outcome: 'success', processed: 2, failed: 1, pulled: 0 })
+    );
+    expect(run.bytes).toBeGreaterThan(0);
+    const stats = await syncService.getSyncStats();
+    expect(stats.lastSyncTime).toBe(run.endedAt);
+    expect(stats.pendingCount).toBe(1);
+  });
+
+  it('should upload and count the run as a success when the server has no change feed', async () => {
+    mockedApi.get.mockRejectedValue(httpError(404));
+    mockedApi.post.mockResolvedValueOnce({ data: {} } as any);
+    await offlineStorage.addToSyncQueue({ type: 'CREATE', endpoint: '/notes/n1', data: {}, priority: 'high' });
+
+    expect(await syncService.flush()).toBe(0);
+
+    const [run] = await syncService.getSyncHistory();
+    expect(run).toEqual(expect.objectContaining({ outcome: 'success', processed: 1, pulled: 0 }));
+  });
+
+  it('should let a running sync finish before a pause and hold new ones until it ends', async () => {
+    jest.useRealTimers();
+    let sent!: () => void;
+    const requestSent = new Promise<void>((resolve) => {
+      sent = resolve;
+    });
+    let reply!: (response: any) => void;
+    mockedApi.post.mockImplementationOnce(() => {
+      sent();
+      return new Promise((resolve) => {
+        reply = resolve;
+      });
+    });
+    await offlineStorage.addToSyncQueue({ type: 'CREATE', endpoint: '/notes/n1', data: {}, priority: 'high' });
+
+    const running = syncService.manualSync();
+    await requestSent;
+    const paused = syncService.runPaused(async () => {
+      // The running sync got its reply first
+      expect(await offlineStorage.getSyncQueue()).toEqual([]);
+      const pulls = mockedApi.get.mock.calls.length;
+      syncService.requestSync();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(mockedApi.get).toHaveBeenCalledTimes(pulls);
+    });
+    reply({ data: {} });
+    await Promise.all([running, paused]);
+
+    await syncService.flush();
+    expect(mockedApi.get).toHaveBeenCalledTimes(3);
+  });
+
+  describe('dependency ordering', () => {
+    const calls: string[] = [];
+
+    beforeEach(() => {
+      calls.length = 0;
+      const record = (method: string) => async (url: string) => {
+        calls.push(`${method} ${url}`);
+        return { data: {} } as any;
+      };
+      mockedApi.post.mockImplementation(record('POST'));
+      mockedApi.put.mockImplementation(record('PUT'));
+      mockedApi.delete.mockImplementation(record('DELETE'));
+    });
+
+    it('should run a dependency before a higher priority dependent', async () => {
+      const createId = await offlineStorage.addToSyncQueue({
+        type: 'CREATE',
+        endpoint: '/courses/c1/notes',
+        resourceKey: 'note:n1',
+        data: {},
+        priority: 'medium',
+      });
+      await offlineStorage.addToSyncQueue({
+        type: 'UPDATE',
+        endpoint: '/courses/c1/bookmarks',
+        data: { noteId: 'n1' },
+        priority: 'high',
+        dependsOn: [createId],
+      });
+
+      await syncService.flush();
+
+      expect(calls).toEqual(['POST /courses/c1/notes', 'PUT /courses/c1/bookmarks']);
+    });
+
+    it('should not overtake a failed operation on the same resource', async () => {
+      mockedApi.delete.mockRejectedValueOnce(new Error('timeout'));
+      await offlineStorage.addToSyncQueue({ type: 'DELETE', endpoint: '/notes/n1', priority: 'low' });
+      await offlineStorage.addToSyncQueue({ type: 'CREATE', endpoint: '/notes/n1', data: {}, priority: 'high' });
+
+      expect(await syncService.flush()).toBe(2);
+      expect(calls).toEqual([]);
+      expect(mockedApi.post).not.toHaveBeenCalled();
+    });
+
+    it('should block children of a permanently failed operation', async () => {
+      const failed: SyncOperation = {
+        id: 'op_failed',
+        type: 'CREATE',
+        endpoint: '/notes',
+        data: {},
+        timestamp: 1,
+        retries: 3,
+        maxRetries: 3,
+        priority: 'high',
+      };
+      const child: SyncOperation = {
+        ...failed,
+        id: 'op_child',
+        type: 'UPDATE',
+        endpoint: '/bookmarks/b1',
+        timestamp: 2,
+        retries: 0,
+        dependsOn: ['op_failed'],
+      };
+      await offlineStorage.store(STORAGE_KEYS.SYNC_QUEUE, [failed, child]);
+      const listener = jest.fn();
+      syncService.addEventListener(listener);
+
+      await syncService.flush();
+      syncService.removeEventListener(listener);
+
+      expect(calls).toEqual([]);
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'operationBlocked', operationId: 'op_child' })
+      );
+      expect(await offlineStorage.getSyncQueue()).toEqual([]);
+      expect(await deadLetterQueue.getEntry('op_child')).toEqual(
+        expect.objectContaining({ blockedBy: 'op_failed' })
+      );
+      expect((await syncService.getSyncStats()).failedCount).toBe(2);
+
+      // Retried alone it would be blocked again, so the failed one goes with it
+      expect((await deadLetterQueue.getBlocker('op_child'))?.operation.id).toBe('op_failed');
+      expect(await deadLetterQueue.getBlocker('op_failed')).toBeNull();
+
+      await syncService.clearFailedOperations();
+      expect(await deadLetterQueue.count()).toBe(0);
+    });
+
+    it('should block new operations that depend on a dead-lettered one', async () => {
+      mockedApi.post.mockRejectedValue(httpError(422));
+      const createId = await offlineStorage.addToSyncQueue({
+        type: 'CREATE',
+        endpoint: '/notes/n1',
+        data: {},
+        priority: 'high',
+      });
+      await setMaxRetries(1);
+      await syncService.flush();
+      await offlineStorage.addToSyncQueue({
+        type: 'UPDATE',
+        endpoint: '/bookmarks/b1',
+        data: { noteId: 'n1' },
+        priority: 'high',
+        dependsOn: [createId],
+      });
+
+      await syncService.flush();
+
+      expect(calls).toEqual([]);
+      expect(await deadLetterQueue.count()).toBe(2);
+    });
+
+    it('should leave every entry dead-lettered when requeueing them fails', async () => {
+      mockedApi.post.mockRejectedValue(httpError(422));
+      const createId = await offlineStorage.addToSyncQueue({
+        type: 'CREATE',
+        endpoint: '/notes/n1',
+        data: {},
+        priority: 'high',
+      });
+      await setMaxRetries(1);
+      await syncService.flush();
+      const updateId = await offlineStorage.addToSyncQueue({
+        type: 'UPDATE',
+        endpoint: '/bookmarks/b1',
+        data: { noteId: 'n1' },
+        priority: 'high',
+        dependsOn: [createId],
+      });
+      await syncService.flush();
+
+      // The disk fills up once the update is about to go back in the queue
+      const store = offlineStorage.store.bind(offlineStorage);
+      const storeSpy = jest.spyOn(offlineStorage, 'store').mockImplementation(async (key, data: any) => {
+        if (key === STORAGE_KEYS.SYNC_QUEUE && data.some((op: SyncOperation) => op.id === updateId)) {
+          throw new Error('Disk full');
+        }
+        return store(key, data);
+      });
+
+      await expect(deadLetterQueue.retryAll()).rejects.toThrow('Disk full');
+      storeSpy.mockRestore();
+
+      expect(await offlineStorage.getSyncQueue()).toEqual([]);
+      expect(await deadLetterQueue.count()).toBe(2);
+    });
+  });
+
+  describe('conditional writes', () => {
+    it('should send the known revision with If-Match', async () => {
+      mockedApi.put.mockResolvedValueOnce({ data: {}, headers: { etag: '"r2"' } } as any);
+
+      const result = await syncService.putWithRevision('/courses/c1/progress', { a: 1 }, null, '"r1"');
+
+      expect(mockedApi.put).toHaveBeenCalledWith('/courses/c1/progress', { a: 1 }, { ifMatch: '"r1"' });
+      expect(result).toEqual({ data: { a: 1 }, revision: '"r2"' });
+    });
+
+    it('should merge with the server copy and resend on a revision conflict', async () => {
+      mockedApi.put
+        .mockRejectedValueOnce(httpError(412))
+        .mockResolvedValueOnce({ data: {}, headers: { etag: '"r3"' } } as any);
+      mockedApi.get.mockResolvedValueOnce({ data: { b: 2 }, headers: { etag: '"r2"' } } as any);
+      const listener = jest.fn();
+      syncService.addEventListener(listener);
+
+      const result = await syncService.putWithRevision('/courses/c1/progress', { a: 1 }, null, '"r1"');
+      syncService.removeEventListener(listener);
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'conflictDetected',
+          data: expect.objectContaining({ localData: { a: 1 }, serverData: { b: 2 } }),
+        })
+      );
+      expect(mockedApi.put).toHaveBeenLastCalledWith('/courses/c1/progress', { a: 1, b: 2 }, { ifMatch: '"r2"' });
+      expect(result.revision).toBe('"r3"');
+    });
+
+    it('should only create the document when no revision is known', async () => {
+      mockedApi.put.mockResolvedValueOnce({ data: { revision: 'r1' }, headers: {} } as any);
+
+      const result = await syncService.putWithRevision('/courses/c1/progress', { a: 1 }, null);
+
+      expect(mockedApi.put).toHaveBeenCalledWith('/courses/c1/progress', { a: 1 }, { ifNoneMatch: true });
+      expect(result.revision).toBe('r1');
+    });
+  });
+
+  describe('pulling remote changes', () => {
+    // Minimal change feed: every change gets a sequence number used as cursor
+    const serverChanges: RemoteChange[] = [];
+    const pageSize = 2;
+
+    beforeEach(() => {
+      serverChanges.length = 0;
+      mockedApi.get.mockImplementation(async (url: string, params?: any) => {
+        if (url !== '/sync/changes') throw httpError(404);
+        const since = params?.since ? Number(params.since) : 0;
+        const changes = serverChanges.slice(since, since + pageSize);
+        const cursor = String(since + changes.length);
+        return { data: { changes, cursor, hasMore: since + changes.length < serverChanges.length } } as any;
+      });
+    });
+
+    it('should merge remote progress, notes and bookmarks into local progress', async () => {
+      await offlineStorage.store(
+        `${STORAGE_KEYS.COURSE_PROGRESS}_c1`,
+        localProgress({
+          bookmarks: ['l2'],
+          lessons: { l1: { lessonId: 'l1', completed: true, lastPosition: 10, timeSpent: 30 } },
+        })
+      );
+      serverChanges.push(
+        {
+          entity: 'progress',
+          id: 'c1',
+          changedAt: '2026-01-02T00:00:00.000Z',
+          revision: 'r7',
+          data: localProgress({
+            lessons: { l3: { lessonId: 'l3', completed: true, lastPosition: 0, timeSpent: 60 } },
+          }),
+        },
+        {
+          entity: 'note',
+          id: 'n1',
+          courseId: 'c1',
+          lessonId: 'l3',
+          changedAt: '2026-01-02T00:00:00.000Z',
+          data: {
+            id: 'n1',
+            lessonId: 'l3',
+            content: 'from the web',
+            timestamp: 0,
+            createdAt: '2026-01-02T00:00:00.000Z',
+            updatedAt: '2026-01-02T00:00:00.000Z',
+          },
+        },
+        { entity: 'bookmark', id: 'l4', courseId: 'c1', changedAt: '2026-01-02T00:00:00.000Z' }
+      );
+      const listener = jest.fn();
+      syncService.addEventListener(listener);
+
+      await syncService.flush();
+      syncService.removeEventListener(listener);
+
+      const progress = await offlineStorage.retrieve<CourseProgress>(`${STORAGE_KEYS.COURSE_PROGRESS}_c1`);
+      expect(Object.keys(progress!.lessons).sort()).toEqual(['l1', 'l3']);
+      expect(progress!.notes.l3[0].content).toBe('from the web');
+      expect(progress!.bookmarks.sort()).toEqual(['l2', 'l4']);
+      expect(await offlineStorage.retrieve(STORAGE_KEYS.SYNC_CURSOR)).toBe('3');
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'changesPulled', data: { changeCount: 3, courseIds: ['c1'] } })
+      );
+    });
+
+    it('should not take unsynced local progress for the synced copy', async () => {
+      const localNote = {
+        id: 'n-local',
+        lessonId: 'l1',
+        content: 'offline',
+        timestamp: 0,
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+      };
+      await offlineStorage.store(
+        `${STORAGE_KEYS.COURSE_PROGRESS}_c1`,
+        localProgress({ bookmarks: ['l2'], notes: { l1: [localNote] } })
+      );
+      serverChanges.push({ entity: 'bookmark', id: 'l4', courseId: 'c1', changedAt: '2026-01-02T00:00:00.000Z' });
+
+      await syncService.flush();
+
+      expect(await offlineStorage.retrieve(`${STORAGE_KEYS.SYNCED_PROGRESS}_c1`)).toBeNull();
+      let progress = await offlineStorage.retrieve<CourseProgress>(`${STORAGE_KEYS.COURSE_PROGRESS}_c1`);
+      expect(progress!.bookmarks.sort()).toEqual(['l2', 'l4']);
+
+      // The server's full copy doesn't have them yet, which doesn't make them removed
+      serverChanges.push({
+        entity: 'progress',
+        id: 'c1',
+        changedAt: '2026-01-03T00:00:00.000Z',
+        revision: 'r2',
+        data: localProgress({ bookmarks: ['l4'] }),
+      });
+      await syncService.flush();
+
+      progress = await offlineStorage.retrieve<CourseProgress>(`${STORAGE_KEYS.COURSE_PROGRESS}_c1`);
+      expect(progress!.bookmarks.sort()).toEqual(['l2', 'l4']);
+      expect(progress!.notes.l1).toEqual([localNote]);
+    });
+
+    it('should not lose a learner edit made while changes are applied', async () => {
+      await offlineStorage.store(`${STORAGE_KEYS.COURSE_PROGRESS}_c1`, localProgress());
+
+      await Promise.all([
+        applyRemoteChanges([
+          { entity: 'bookmark', id: 'l4', courseId: 'c1', changedAt: '2026-01-02T00:00:00.000Z' },
+        ]),
+        progressStore.update('c1', (progress) => ({
+          ...progress!,
+          bookmarks: [...progress!.bookmarks, 'l2'],
+        })),
+      ]);
+
+      const progress = await offlineStorage.retrieve<CourseProgress>(`${STORAGE_KEYS.COURSE_PROGRESS}_c1`);
+      expect(progress!.bookmarks.sort()).toEqual(['l2', 'l4']);
+    });
+
+    it('should only ask for changes after the persisted cursor', async () => {
+      serverChanges.push({ entity: 'course', id: 'c1', changedAt: '1', data: { id: 'c1', title: 'Old' } });
+      await syncService.flush();
+
+      serverChanges.push({ entity: 'course', id: 'c1', changedAt: '2', data: { id: 'c1', title: 'New' } });
+      await syncService.flush();
+
+      expect(mockedApi.get).toHaveBeenLastCalledWith('/sync/changes', { since: '1' });
+      expect(await offlineStorage.getCourse('c1')).toEqual({ id: 'c1', title: 'New' });
+    });
+  });
+
+  describe('transport policies', () => {
+    const onCellular = () =>
+      (Network.getNetworkStateAsync as jest.Mock).mockResolvedValueOnce({
+        isConnected: true,
+        isInternetReachable: true,
+        type: 'CELLULAR',
+      });
+
+    afterEach(async () => {
+      await syncService.updateSyncSettings({ dataSaver: false });
+    });
+
+    it('should hold unmetered operations and their dependents until Wi-Fi', async () => {
+      mockedApi.post.mockResolvedValue({ data: {} } as any);
+      mockedApi.put.mockResolvedValue({ data: {} } as any);
+      const uploadId = await offlineStorage.addToSyncQueue({
+        type: 'CREATE',
+        endpoint: '/attachments/a1',
+        data: { file: 'base64' },
+        priority: 'high',
+        transportPolicy: 'unmetered',
+      });
+      await offlineStorage.addToSyncQueue({
+        type: 'UPDATE',
+        endpoint: '/notes/n1',
+        data: { attachmentId: 'a1' },
+        priority: 'high',
+        dependsOn: [uploadId],
+      });
+      await offlineStorage.addToSyncQueue({ type: 'UPDATE', endpoint: '/notes/n2', data: {}, priority: 'low' });
+      const listener = jest.fn();
+      syncService.addEventListener(listener);
+
+      onCellular();
+      expect(await syncService.flush()).toBe(2);
+      syncService.removeEventListener(listener);
+
+      expect(mockedApi.put).toHaveBeenCalledWith('/notes/n2', {}, expect.anything());
+      expect(mockedApi.post).not.toHaveBeenCalled();
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'operationHeld', operationId: uploadId })
+      );
+
+      expect(await syncService.flush()).toBe(0);
+      expect(mockedApi.post).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not sync again right away while an operation is held', async () => {
+      await offlineStorage.addToSyncQueue({
+        type: 'CREATE',
+        endpoint: '/attachments/a1',
+        data: { file: 'base64' },
+        priority: 'high',
+        transportPolicy: 'unmetered',
+      });
+      // Its backoff from an earlier failed attempt is already over
+      const queue = await offlineStorage.getSyncQueue();
+      await offlineStorage.store(
+        STORAGE_KEYS.SYNC_QUEUE,
+        queue.map((op) => ({ ...op, retries: 1, nextAttemptAt: Date.now() - 1000 }))
+      );
+
+      onCellular();
+      expect(await syncService.flush()).toBe(1);
+      const checks = (Network.getNetworkStateAsync as jest.Mock).mock.calls.length;
+
+      jest.advanceTimersByTime(1000);
+      await Promise.resolve();
+      expect(Network.getNetworkStateAsync).toHaveBeenCalledTimes(checks);
+      expect(mockedApi.get).toHaveBeenCalledTimes(1);
+      expect(mockedApi.post).not.toHaveBeenCalled();
+    });
+
+    it('should hold large payloads on metered networks with data saver on', async () => {
+      mockedApi.put.mockResolvedValue({ data: {} } as any);
+      await syncService.updateSyncSettings({ dataSaver: true });
+      await offlineStorage.addToSyncQueue({
+        type: 'UPDATE',
+        endpoint: '/profile/avatar',
+        data: { image: 'x'.repeat(200 * 1024) },
+        priority: 'medium',
+      });
+      await offlineStorage.addToSyncQueue({ type: 'UPDATE', endpoint: '/notes/n1', data: {}, priority: 'medium' });
+
+      onCellular();
+      expect(await syncService.flush()).toBe(1);
+      expect(mockedApi.put).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('dead-letter queue', () => {
+    it('should move an operation out of the queue once retries are exhausted', async () => {
+      mockedApi.put.mockRejectedValue(httpError(503));
+      await offlineStorage.addToSyncQueue({
+        type: 'UPDATE',
+        endpoint: '/notes/n1',
+        data: { text: 'hi' },
+        priority: 'medium',
+      });
+      await setMaxRetries(2);
+
+      await syncService.flush();
+      expect(scheduleLocalNotification).not.toHaveBeenCalled();
+      await syncService.flush();
+
+      expect(await offlineStorage.getSyncQueue()).toEqual([]);
+      const [entry] = await deadLetterQueue.getEntries();
+      expect(entry.status).toBe(503);
+      expect(entry.attempts).toHaveLength(2);
+      expect(scheduleLocalNotification).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry a request the server rejected as invalid', async () => {
+      mockedApi.put.mockRejectedValue(httpError(422));
+      await offlineStorage.addToSyncQueue({ type: 'UPDATE', endpoint: '/notes/n1', data: {}, priority: 'medium' });
+
+      expect(await syncService.flush()).toBe(0);
+
+      expect(mockedApi.put).toHaveBeenCalledTimes(1);
+      const [entry] = await deadLetterQueue.getEntries();
+      expect(entry.status).toBe(422);
+      expect(entry.attempts).toHaveLength(1);
+    });
+
+    it('should retry an entry with its edited payload and original idempotency key', async () => {
+      mockedApi.post.mockRejectedValueOnce(httpError(422)).mockResolvedValueOnce({ data: {} } as any);
+      const id = await offlineStorage.addToSyncQueue({
+        type: 'CREATE',
+        endpoint: '/notes/n1',
+        data: { text: '' },
+        priority: 'high',
+      });
+      await setMaxRetries(1);
+      await syncService.flush();
+      const entry = await deadLetterQueue.getEntry(id);
+
+      await deadLetterQueue.updatePayload(id, { text: 'fixed' });
+      await deadLetterQueue.retry(id);
+      await syncService.flush();
+
+      expect(mockedApi.post).toHaveBeenLastCalledWith('/notes/n1', { text: 'fixed' }, {
+        idempotencyKey: entry?.operation.idempotencyKey,
+      });
+      expect(await deadLetterQueue.count()).toBe(0);
+      expect(await offlineStorage.getSyncQueue()).toEqual([]);
+    });
+  });
+
+  describe('learner changes', () => {
+    it('should upload queued progress against the last synced revision', async () => {
+      const progress = localProgress({ bookmarks: ['l1'] });
+      await offlineStorage.store(`${STORAGE_KEYS.COURSE_PROGRESS}_c1`, progress);
+      await offlineStorage.store(`${STORAGE_KEYS.SYNCED_PROGRESS}_c1`, localProgress({ revision: '"r1"' }));
+      mockedApi.put.mockResolvedValueOnce({ data: {}, headers: { etag: '"r2"' } } as any);
+      const listener = jest.fn();
+      syncService.addEventListener(listener);
+
+      await learnerSync.queueProgress(progress);
+      await syncService.flush();
+      syncService.removeEventListener(listener);
+
+      expect(mockedApi.put).toHaveBeenCalledWith('/courses/c1/progress', progress, { ifMatch: '"r1"' });
+      const synced = await offlineStorage.retrieve<CourseProgress>(`${STORAGE_KEYS.SYNCED_PROGRESS}_c1`);
+      expect(synced?.revision).toBe('"r2"');
+      expect(synced?.bookmarks).toEqual(['l1']);
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'progressSynced', data: { courseId: 'c1' } })
+      );
+    });
+
+    it('should send bookmark changes only as part of the progress', async () => {
+      // Offline while the learner changes their mind
+      const mockedNetwork = Network.getNetworkStateAsync as jest.Mock;
+      const online = mockedNetwork.getMockImplementation();
+      mockedNetwork.mockResolvedValue({ isConnected: false, isInternetReachable: false, type: 'NONE' });
+      const removed = localProgress({ bookmarkTombstones: { l1: '2026-01-02T00:00:00.000Z' } });
+      await learnerSync.queueProgress(localProgress({ bookmarks: ['l1'] }), { syncNow: true });
+      await offlineStorage.store(`${STORAGE_KEYS.COURSE_PROGRESS}_c1`, removed);
+      await learnerSync.queueProgress(removed, { syncNow: true });
+      mockedNetwork.mockImplementation(online);
+      mockedApi.put.mockResolvedValueOnce({ data: {}, headers: { etag: '"r1"' } } as any);
+
+      expect(await syncService.flush()).toBe(0);
+      expect(mockedApi.put).toHaveBeenCalledTimes(1);
+      expect(mockedApi.put).toHaveBeenCalledWith('/courses/c1/progress', removed, { ifNoneMatch: true });
+      expect(mockedApi.post).not.toHaveBeenCalled();
+      expect(mockedApi.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retry scheduling', () => {
+    const nextSync = () =>
+      new Promise<void>((resolve) => {
+        const listener = (event: SyncEvent) => {
+          if (event.type === 'syncCompleted') {
+            syncService.removeEventListener(listener);
+            resolve();
+          }
+        };
+        syncService.addEventListener(listener);
+      });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should back off with jitter and wait for Retry-After between attempts', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      mockedApi.put
+        .mockRejectedValueOnce(httpError(503))
+        .mockRejectedValueOnce(httpError(429, {}, { 'retry-after': '120' }))
+        .mockResolvedValueOnce({ data: {} } as any);
+      await offlineStorage.addToSyncQueue({ type: 'UPDATE', endpoint: '/notes/n1', data: {}, priority: 'medium' });
+
+      const startedAt = Date.now();
+      await syncService.flush();
+      let [operation] = await offlineStorage.getSyncQueue();
+      // Half of the 5s ceiling for a first retry
+      expect(operation.nextAttemptAt).toBe(startedAt + 2500);
+
+      // Syncs that aren't explicit leave it alone until then
+      let synced = nextSync();
+      await syncService.updateSyncSettings({ dataSaver: false });
+      await synced;
+      expect(mockedApi.put).toHaveBeenCalledTimes(1);
+
+      synced = nextSync();
+      jest.advanceTimersByTime(2500);
+      await synced;
+      expect(mockedApi.put).toHaveBeenCalledTimes(2);
+      [operation] = await offlineStorage.getSyncQueue();
+      expect(operation.nextAttemptAt).toBe(startedAt + 2500 + 120000);
+
+      jest.advanceTimersByTime(119000);
+      synced = nextSync();
+      jest.advanceTimersByTime(1000);
+      await synced;
+      expect(mockedApi.put).toHaveBeenCalledTimes(3);
+      expect(await offlineStorage.getSyncQueue()).toEqual([]);
+    });
+  });
+
+  // Kept last: once the server turns out to lack the batch endpoint, the
+  // service stops trying it for the rest of the session
+  describe('batch transport', () => {
+    const queueTwoNotes = async () => {
+      const first = await offlineStorage.addToSyncQueue({
+        type: 'CREATE',
+        endpoint: '/notes/n1',
+        data: { text: 'one' },
+        priority: 'high',
+      });
+      const second = await offlineStorage.addToSyncQueue({
+        type: 'UPDATE',
+        endpoint: '/notes/n2',
+        data: { text: 'two' },
+        priority: 'high',
+      });
+      return [first, second];
+    };
+
+    it('should send ready operations in one request and settle each from its result', async () => {
+      const [first, second] = await queueTwoNotes();
+      mockedApi.post.mockResolvedValueOnce({
+        data: {
+          results: [
+            { id: first, status: 201, data: {} },
+            { id: second, status: 503, error: { message: 'Unavailable' } },
+          ],
+        },
+      } as any);
+
+      expect(await syncService.flush()).toBe(1);
+
+      expect(mockedApi.post).toHaveBeenCalledTimes(1);
+      const [url, body] = mockedApi.post.mock.calls[0];
+      expect(url).toBe('/sync/batch');
+      expect(body.operations.map((op: any) => [op.method, op.endpoint])).toEqual([
+        ['POST', '/notes/n1'],
+        ['PUT', '/notes/n2'],
+      ]);
+      const [remaining] = await offlineStorage.getSyncQueue();
+      expect(remaining.id).toBe(second);
+      expect(remaining.retries).toBe(1);
+      expect(remaining.attemptHistory?.[0].status).toBe(503);
+    });
+
+    it('should send operations individually when the batch as a whole is refused', async () => {
+      const [first, second] = await queueTwoNotes();
+      mockedApi.post
+        .mockRejectedValueOnce(httpError(413))
+        .mockResolvedValue({ data: {} } as any);
+      mockedApi.put.mockResolvedValue({ data: {} } as any);
+
+      expect(await syncService.flush()).toBe(0);
+      expect(mockedApi.post.mock.calls.map(([url]) => url)).toEqual(['/sync/batch', '/notes/n1']);
+      expect(mockedApi.put).toHaveBeenCalledWith('/notes/n2', { text: 'two' }, expect.anything());
+      const failed = (await deadLetterQueue.getEntries()).map((entry) => entry.operation.id);
+      expect(failed).not.toContain(first);
+      expect(failed).not.toContain(second);
+
+      // The endpoint exists, so the next sync batches again
+      await queueTwoNotes();
+      mockedApi.post.mockResolvedValueOnce({ data: { results: [] } } as any);
+      await syncService.flush();
+      expect(mockedApi.post).toHaveBeenLastCalledWith('/sync/batch', expect.anything());
+    });
+
+    it('should fall back to individual requests when the server has no batch endpoint', async () => {
+      await queueTwoNotes();
+      mockedApi.post
+        .mockRejectedValueOnce(httpError(404))
+        .mockResolvedValue({ data: {} } as any);
+      mockedApi.put.mockResolvedValue({ data: {} } as any);
+
+      expect(await syncService.flush()).toBe(0);
+      expect(mockedApi.post.mock.calls.map(([url]) => url)).toEqual(['/sync/batch', '/notes/n1']);
+      expect(mockedApi.put).toHaveBeenCalledWith('/notes/n2', { text: 'two' }, expect.anything());
+
+      await queueTwoNotes();
+      await syncService.flush();
+      expect(mockedApi.post).not.toHaveBeenLastCalledWith('/sync/batch', expect.anything());
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { apiService } from '../../services/api';
+import { authSession } from '../../services/authSession';
+import { offlineStorage } from '../../services/offlineStorage';
+import { syncService } from '../../services/syncService';
+import { useAppStore } from '../../store';
+
+jest.mock('expo-network', () => ({
+  getNetworkStateAsync: jest.fn(() =>
+    Promise.resolve({ isConnected: false, isInternetReachable: false, type: 'NONE' })
+  ),
+}));
+
+jest.mock('../../services/api', () => {
+  const service = { get: jest.fn(), post: jest.fn(), put: jest.fn(), delete: jest.fn() };
+  return { __esModule: true, apiService: service, default: service };
+});
+
+jest.mock('../../services/pushNotifications', () => ({
+  scheduleLocalNotification: jest.fn(() => Promise.resolve('notification-id')),
+}));
+
+const mockedApi = apiService as jest.Mocked<typeof apiService>;
+
+const user = { id: 'u1', name: 'Ada', email: 'ada@example.com' };
+
+const getStore = () => useAppStore.getState();
+
+describe('app store auth', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await getStore().logout();
+    useAppStore.setState({ isSessionRestored: false });
+  });
+
+  it('should sign in, keep the session and restore it after a restart', async () => {
+    mockedApi.post.mockResolvedValue({
+      data: { user, accessToken: 'a1', refreshToken: 'r1', expiresIn: 900 },
+      status: 200,
+    } as any);
+
+    await getStore().signIn(' ada@example.com ', 'secret123');
+
+    expect(mockedApi.post).toHaveBeenCalledWith(
+      '/auth/login',
+      { email: 'ada@example.com', password: 'secret123' },
+      { skipAuth: true }
+    );
+    expect(getStore().isAuthenticated).toBe(true);
+    expect(offlineStorage.getUserScope()).toBe('u1');
+    expect(await authSession.getAccessToken()).toBe('a1');
+
+    // Relaunch: memory is empty, the keychain still has the session
+    useAppStore.setState({ user: null, isAuthenticated: false });
+    await getStore().restoreSession();
+
+    expect(getStore().user).toEqual(user);
+    expect(getStore().isSessionRestored).toBe(true);
+  });
+
+  it('should announce the sign-in once storage belongs to the new account', async () => {
+    mockedApi.post.mockResolvedValue({
+      data: { user, accessToken: 'a1', refreshToken: 'r1' },
+      status: 200,
+    } as any);
+    const scopes: (string | null)[] = [];
+    const listener = () => scopes.push(offlineStorage.getUserScope());
+    authSession.addEventListener(listener);
+
+    await getStore().signIn('ada@example.com', 'secret123');
+    authSession.removeEventListener(listener);
+
+    expect(scopes).toEqual(['u1']);
+  });
+
+  it('should stay signed out when there is no saved session', async () => {
+    await getStore().restoreSession();
+
+    expect(getStore().isAuthenticated).toBe(false);
+    expect(getStore().isSessionRestored).toBe(true);
+  });
+
+  it('should flush the sync queue before dropping the tokens and rotate the storage key on sign out', async () => {
+    mockedApi.post.mockResolvedValue({
+      data: { user, accessToken: 'a1', refreshToken: 'r1' },
+      status: 200,
+    } as any);
+    await getStore().signIn('ada@example.com', 'secret123');
+    let tokenDuringFlush: string | null = null;
+    const flush = jest.spyOn(syncService, 'flush').mockImplementation(async () => {
+      tokenDuringFlush = await authSession.getAccessToken();
+      return 0;
+    });
+
+    const rotate = jest.spyOn(offlineStorage, 'rotateEncryptionKey');
+    await getStore().logout();
+    flush.mockRestore();
+
+    expect(tokenDuringFlush).toBe('a1');
+    // What stays on the device is sealed again under a fresh key
+    expect(rotate).toHaveBeenCalledTimes(1);
+    rotate.mockRestore();
+    expect(await authSession.hasSession()).toBe(false);
+    expect(offlineStorage.getUserScope()).toBeNull();
+  });
+
+  it('should sign out when the session can no longer be refreshed', async () => {
+    mockedApi.post.mockResolvedValue({
+      data: { user, accessToken: 'a1', refreshToken: 'r1' },
+      status: 200,
+    } as any);
+    await getStore().signIn('ada@example.com', 'secret123');
+
+    await authSession
+      .refreshAccessToken(() => Promise.reject({ response: { status: 401 } }))
+      .catch(() => undefined);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(getStore().isAuthenticated).toBe(false);
+    expect(await authSession.hasSession()).toBe(false);
+  });
+});
@@ -0,0 +1,117 @@
+import { ApiValidationError } from '../../services/api/schema';
+import { getAuthErrorMessage, validateSignIn, validateSignUp } from '../../utils/authValidation';
+
+const validSignUp = {
+  name: 'Ada',
+  email: 'ada@example.com',
+  password: 'secret123',
+  confirmPassword: 'secret123',
+};
+
+const serverError = (status: number, data: any = {}) => ({ response: { status, data } });
+
+describe('validateSignUp', () => {
+  it('should accept a complete form', () => {
+    expect(validateSignUp(validSignUp)).toEqual({});
+    expect(validateSignUp({ ...validSignUp, email: '  ada@example.com ' })).toEqual({});
+  });
+
+  it('should check every field', () => {
+    expect(
+      validateSignUp({ name: ' ', email: 'ada@', password: 'short', confirmPassword: 'other' })
+    ).toEqual({
+      name: 'Enter your name',
+      email: 'Enter a valid email address',
+      password: 'Use at least 8 characters',
+      confirmPassword: 'Passwords do not match',
+    });
+  });
+
+  it('should ask for an email address when there is none', () => {
+    expect(validateSignUp({ ...validSignUp, email: '   ' })).toEqual({
+      email: 'Enter your email address',
+    });
+  });
+
+  it('should require letters and numbers in the password', () => {
+    expect(
+      validateSignUp({ ...validSignUp, password: 'password', confirmPassword: 'password' })
+    ).toEqual({ password: 'Use both letters and numbers' });
+    expect(
+      validateSignUp({ ...validSignUp, password: '12345678', confirmPassword: '12345678' })
+    ).toEqual({ password: 'Use both letters and numbers' });
+  });
+});
+
+describe('validateSignIn', () => {
+  it('should only require an email address and a password', () => {
+    expect(validateSignIn({ email: 'ada@example.com', password: 'x' })).toEqual({});
+    expect(validateSignIn({ email: '', password: '' })).toEqual({
+      email: 'Enter your email address',
+      password: 'Enter your password',
+    });
+  });
+});
+
+describe('getAuthErrorMessage', () => {
+  it('should map field errors sent as a list', () => {
+    expect(
+      getAuthErrorMessage(
+        serverError(422, {
+          errors: [
+            { field: 'password', message: 'Too common' },
+            { field: 'unknown', message: 'Ignored' },
+            { field: 'email' },
+          ],
+        })
+      )
+    ).toEqual({ message: 'Please check the highlighted fields', fieldErrors: { password: 'Too common' } });
+  });
+
+  it('should map field errors sent as an object, taking the first of several', () => {
+    expect(
+      getAuthErrorMessage(
+        serverError(400, {
+          message: 'Invalid sign-up',
+          errors: { name: 'Too long', password: ['Too short', 'Too common'], role: 'Ignored' },
+        })
+      )
+    ).toEqual({
+      message: 'Invalid sign-up',
+      fieldErrors: { name: 'Too long', password: 'Too short' },
+    });
+  });
+
+  it('should flag the email of an account that already exists', () => {
+    expect(getAuthErrorMessage(serverError(409))).toEqual({
+      message: 'An account with this email already exists',
+      fieldErrors: { email: 'Already registered' },
+    });
+    expect(getAuthErrorMessage(serverError(409, { errors: { email: ['Taken'] } })).fieldErrors).toEqual({
+      email: 'Taken',
+    });
+  });
+
+  it('should word sign-in and rate-limit failures for the form', () => {
+    expect(getAuthErrorMessage(serverError(401)).message).toBe('Incorrect email or password');
+    expect(getAuthErrorMessage(serverError(429)).message).toBe(
+      'Too many attempts. Please wait a moment and try again.'
+    );
+  });
+
+  it('should not show server internals', () => {
+    expect(getAuthErrorMessage(serverError(500, { message: 'NullPointerException' })).message).toBe(
+      'Something went wrong on our side. Please try again later.'
+    );
+    expect(
+      getAuthErrorMessage(new ApiValidationError('signIn', [{ path: 'user.id', message: 'is required' }]))
+    ).toEqual({ message: 'Something went wrong on our side. Please try again later.', fieldErrors: {} });
+  });
+
+  it('should tell a missing connection apart from a rejected request', () => {
+    expect(getAuthErrorMessage(new Error('Network Error'))).toEqual({
+      message: "Can't reach TeachLink. Check your connection and try again.",
+      fieldErrors: {},
+    });
+  });
+});
@@ -15,6 +15,7 @@ import { Course, Lesson, Note, Quiz } from '../../types/course';
 import { RootStackParamList } from '../../navigation/types';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useCourseProgress } from '../../hooks/useCourseProgress';
+import { DataSyncStatus } from '../../hooks/useOfflineData';
 import LessonCarousel from './LessonCarousel';
 import MobileSyllabus from './MobileSyllabus';
 import BookmarkButton from './BookmarkButton';
@@ -31,6 +32,14 @@ interface MobileCourseViewerProps {
 
 type ViewMode = 'lesson' | 'syllabus' | 'notes';
 
+// Suffix shown next to items whose changes haven't reached the server
+const SYNC_STATUS_LABELS: Record<DataSyncStatus, string> = {
+  synced: '',
+  pending: ' • Waiting to sync',
+  conflict: ' • Sync conflict',
+  error: ' • Not synced',
+};
+
 export default function MobileCourseViewer({
   course,
   initialLessonId,
@@ -64,6 +73,8 @@ export default function MobileCourseViewer({
     deleteNote,
     updateLastPosition,
     calculateOverallProgress,
+    progressSyncStatus,
+    getNoteSyncStatus,
   } = useCourseProgress({
     courseId: course.id,
     course,
@@ -306,6 +317,7 @@ export default function MobileCourseViewer({
                       <View style={styles.noteHeader}>
                         <Text style={styles.noteDate}>
                           {new Date(note.createdAt).toLocaleDateString()} • {new Date(note.createdAt).toLocaleTimeString()}
+                          {SYNC_STATUS_LABELS[getNoteSyncStatus(note.id)]}
                         </Text>
                         <View style={styles.noteActions}>
                           <TouchableOpacity onPress={() => handleEditNote(note)}>
@@ -326,7 +338,7 @@ export default function MobileCourseViewer({
         </View>
       );
     },
-    [progress, handleAddNote, handleEditNote, handleDeleteNote]
+    [progress, handleAddNote, handleEditNote, handleDeleteNote, getNoteSyncStatus]
   );
 
   if (isLoading) {
@@ -355,7 +367,7 @@ export default function MobileCourseViewer({
               {course.title}
             </Text>
             <Text style={styles.subtitle}>
-              {overallProgress}% complete
+              {overallProgress}% complete{SYNC_STATUS_LABELS[progressSyncStatus]}
             </Text>
           </View>
           <BookmarkButton
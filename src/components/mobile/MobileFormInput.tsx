@@ -6,6 +6,8 @@ interface MobileFormInputProps extends TextInputProps {
   placeholder?: string;
   value: string;
   onChangeText: (text: string) => void;
+  // Shown under the field, which is outlined in red
+  error?: string;
 }
 
 export const MobileFormInput: React.FC<MobileFormInputProps> = ({
@@ -14,19 +16,21 @@ export const MobileFormInput: React.FC<MobileFormInputProps> = ({
   value,
   onChangeText,
   keyboardType = 'default',
+  error,
   ...rest
 }) => {
   return (
     <View style={styles.container}>
       <Text style={styles.label}>{label}</Text>
       <TextInput
-        style={styles.input}
+        style={[styles.input, error ? styles.inputError : null]}
         placeholder={placeholder}
         value={value}
         onChangeText={onChangeText}
         keyboardType={keyboardType}
         {...rest}
       />
+      {error ? <Text style={styles.error}>{error}</Text> : null}
     </View>
   );
 };
@@ -50,4 +54,12 @@ const styles = StyleSheet.create({
     backgroundColor: '#fff',
     fontSize: 16,
   },
+  inputError: {
+    borderColor: '#dc2626',
+  },
+  error: {
+    fontSize: 13,
+    marginTop: 4,
+    color: '#dc2626',
+  },
 });
@@ -1,6 +1,7 @@
 import React from 'react';
 import { View, Text, TouchableOpacity } from 'react-native';
 import { useNetworkStatus } from '../../hooks/useNetworkStatus';
+import { useSyncStatus } from '../../hooks/useSyncStatus';
 import logger from '../../utils/logger';
 
 // Props interface
@@ -25,6 +26,7 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
   showDetails = false,
 }) => {
   const { isOnline, isOffline, networkStatus, refresh } = useNetworkStatus();
+  const { summary } = useSyncStatus();
 
   // Don't show when online unless explicitly requested
   if (isOnline && !showWhenOnline) {
@@ -79,6 +81,9 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
       ),
       isOffline && React.createElement(Text, { style: { color: textColor, fontSize: 12, marginTop: 4 } },
         'Tap to refresh connection'
+      ),
+      showDetails && React.createElement(Text, { style: { color: textColor, fontSize: 12, marginTop: 4 } },
+        summary
       )
     )
   );
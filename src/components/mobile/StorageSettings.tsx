@@ -0,0 +1,178 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { quotaManager, StorageUsage, CourseStorageUsage } from '../../services/quotaManager';
+import logger from '../../utils/logger';
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+interface UsageBarProps {
+  label: string;
+  used: number;
+  budget: number;
+}
+
+function UsageBar({ label, used, budget }: UsageBarProps) {
+  const ratio = budget > 0 ? Math.min(1, used / budget) : 0;
+
+  return (
+    <View className="py-3 px-4">
+      <View className="flex-row justify-between mb-2">
+        <Text className="text-base font-medium text-gray-900 dark:text-white">{label}</Text>
+        <Text className="text-sm text-gray-500 dark:text-gray-400">
+          {formatBytes(used)} of {formatBytes(budget)}
+        </Text>
+      </View>
+      <View className="h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+        <View
+          className={`h-2 rounded-full ${ratio > 0.9 ? 'bg-amber-500' : 'bg-indigo-500'}`}
+          style={{ width: `${Math.round(ratio * 100)}%` }}
+        />
+      </View>
+    </View>
+  );
+}
+
+interface CourseRowProps {
+  course: CourseStorageUsage;
+  onPurge: (course: CourseStorageUsage) => void;
+}
+
+function CourseRow({ course, onPurge }: CourseRowProps) {
+  return (
+    <View className="flex-row items-center py-3 px-4">
+      <View className="flex-1 mr-3">
+        <Text className="text-base font-medium text-gray-900 dark:text-white" numberOfLines={1}>
+          {course.title || course.courseId}
+        </Text>
+        <Text className="text-sm text-gray-500 dark:text-gray-400">
+          {formatBytes(course.courseBytes)} content · {formatBytes(course.mediaBytes)} media
+        </Text>
+      </View>
+      {course.isProtected ? (
+        <Text className="text-xs text-amber-600 dark:text-amber-400">Pending sync</Text>
+      ) : (
+        <TouchableOpacity
+          onPress={() => onPurge(course)}
+          className="py-1 px-3 rounded-lg bg-red-50 dark:bg-red-900/30"
+        >
+          <Text className="text-sm font-medium text-red-600 dark:text-red-400">Remove</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+/**
+ * Offline storage usage per course with manual purge
+ */
+export function StorageSettings() {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadUsage = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setUsage(await quotaManager.getUsage());
+    } catch (error) {
+      logger.error('Error loading storage usage:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const handlePurgeCourse = (course: CourseStorageUsage) => {
+    Alert.alert(
+      'Remove Downloaded Course',
+      `Remove ${course.title || 'this course'} from this device? Your progress is kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            await quotaManager.purgeCourse(course.courseId);
+            await loadUsage();
+          },
+        },
+      ]
+    );
+  };
+
+  const handlePurgeAll = () => {
+    Alert.alert(
+      'Clear Downloads',
+      'Remove every downloaded course that has no unsynced changes? Your progress is kept.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            await quotaManager.purgeAll();
+            await loadUsage();
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View className="mt-6">
+      <Text className="px-4 pb-2 text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase">
+        Storage
+      </Text>
+      <View className="bg-white dark:bg-gray-800 rounded-xl">
+        {isLoading && !usage ? (
+          <View className="py-6 items-center">
+            <ActivityIndicator />
+          </View>
+        ) : usage ? (
+          <>
+            <UsageBar
+              label="Downloaded Courses"
+              used={usage.courseBytes}
+              budget={usage.config.courseBudget}
+            />
+            <View className="h-px bg-gray-200 dark:bg-gray-700 mx-4" />
+            <UsageBar label="Media" used={usage.mediaBytes} budget={usage.config.mediaBudget} />
+
+            {usage.courses.map((course) => (
+              <View key={course.courseId}>
+                <View className="h-px bg-gray-200 dark:bg-gray-700 mx-4" />
+                <CourseRow course={course} onPurge={handlePurgeCourse} />
+              </View>
+            ))}
+
+            {usage.courses.length === 0 && (
+              <Text className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">
+                No courses downloaded yet
+              </Text>
+            )}
+
+            {usage.courses.some((course) => !course.isProtected) && (
+              <TouchableOpacity onPress={handlePurgeAll} className="py-3 px-4 items-center">
+                <Text className="text-base font-medium text-red-600 dark:text-red-400">
+                  Clear All Downloads
+                </Text>
+              </TouchableOpacity>
+            )}
+          </>
+        ) : (
+          <Text className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">
+            Storage usage unavailable
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+}
+
+export default StorageSettings;
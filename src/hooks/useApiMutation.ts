@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { isCancel } from 'axios';
+import { ApiResult } from './useApiQuery';
+
+interface UseApiMutationReturn<V, T> {
+  // Resolves with the reply, or rejects with the error (also kept in `error`)
+  mutate: (variables: V) => Promise<T>;
+  data: T | null;
+  error: Error | null;
+  isLoading: boolean;
+  // Send the last variables again, e.g. from an error message's retry button
+  retry: () => Promise<T>;
+  reset: () => void;
+}
+
+/**
+ * Send a write on demand. Requests still running when the component unmounts
+ * are aborted, and only the latest call updates the returned state.
+ *
+ *   const { mutate } = useApiMutation((body: Partial<User>, signal) =>
+ *     api.updateUser({ params: { userId }, body, signal }));
+ */
+export function useApiMutation<V, T>(
+  mutation: (variables: V, signal: AbortSignal) => Promise<ApiResult<T>>
+): UseApiMutationReturn<V, T> {
+  const [data, setData] = useState<T | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const mutationRef = useRef(mutation);
+  mutationRef.current = mutation;
+  const controllers = useRef(new Set<AbortController>());
+  const latestCall = useRef(0);
+  const lastVariables = useRef<{ value: V } | null>(null);
+
+  useEffect(() => {
+    const pending = controllers.current;
+    return () => {
+      pending.forEach((controller) => controller.abort());
+      pending.clear();
+    };
+  }, []);
+
+  const mutate = useCallback(async (variables: V): Promise<T> => {
+    const call = ++latestCall.current;
+    const controller = new AbortController();
+    controllers.current.add(controller);
+    lastVariables.current = { value: variables };
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await mutationRef.current(variables, controller.signal);
+      if (!controller.signal.aborted && call === latestCall.current) {
+        setData(response.data);
+        setIsLoading(false);
+      }
+      return response.data;
+    } catch (err) {
+      const failure = err instanceof Error ? err : new Error('Request failed');
+      if (!controller.signal.aborted && !isCancel(err) && call === latestCall.current) {
+        setError(failure);
+        setIsLoading(false);
+      }
+      throw failure;
+    } finally {
+      controllers.current.delete(controller);
+    }
+  }, []);
+
+  const retry = useCallback((): Promise<T> => {
+    if (!lastVariables.current) {
+      return Promise.reject(new Error('Nothing to retry'));
+    }
+    return mutate(lastVariables.current.value);
+  }, [mutate]);
+
+  const reset = useCallback(() => {
+    latestCall.current++;
+    setData(null);
+    setError(null);
+    setIsLoading(false);
+  }, []);
+
+  return { mutate, data, error, isLoading, retry, reset };
+}
+
+export default useApiMutation;
@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback, useRef, DependencyList } from 'react';
+import { isCancel } from 'axios';
+import { isApiValidationError } from '../services/api/schema';
+import { getBackoffDelay, getRetryAfterMs, isRetriableError } from '../services/retryPolicy';
+
+// What a query resolves to: an ApiResponse from the typed client or an axios response
+export interface ApiResult<T> {
+  data: T;
+  stale?: boolean;
+}
+
+interface UseApiQueryOptions {
+  enabled?: boolean;
+  // Automatic retries for failures that may go away (network, 5xx, 429)
+  retries?: number;
+}
+
+interface UseApiQueryReturn<T> {
+  data: T | null;
+  error: Error | null;
+  isLoading: boolean;
+  // The data is a cached copy served while the server was unreachable
+  isStale: boolean;
+  // Automatic retries made for the current request
+  retryCount: number;
+  retry: () => void;
+}
+
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 10000;
+
+// A malformed payload fails the same way every time
+const shouldRetry = (error: unknown) => !isApiValidationError(error) && isRetriableError(error);
+
+/**
+ * Run a request when the component mounts and whenever `deps` change.
+ *
+ * The query receives an AbortSignal to pass on to the API; it is aborted when
+ * the component unmounts or the deps change, so an abandoned request never
+ * updates state.
+ *
+ *   useApiQuery((signal) => api.getCourse({ params: { courseId }, signal }), [courseId])
+ */
+export function useApiQuery<T>(
+  query: (signal: AbortSignal) => Promise<ApiResult<T>>,
+  deps: DependencyList,
+  { enabled = true, retries = DEFAULT_RETRIES }: UseApiQueryOptions = {}
+): UseApiQueryReturn<T> {
+  const [data, setData] = useState<T | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [isLoading, setIsLoading] = useState(enabled);
+  const [isStale, setIsStale] = useState(false);
+  const [retryCount, setRetryCount] = useState(0);
+  // Bumped to run the query again
+  const [runId, setRunId] = useState(0);
+
+  // Kept in a ref so inline query functions don't restart the request
+  const queryRef = useRef(query);
+  queryRef.current = query;
+
+  useEffect(() => {
+    if (!enabled) {
+      setIsLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const run = async (attempt: number) => {
+      try {
+        const response = await queryRef.current(controller.signal);
+        if (controller.signal.aborted) return;
+        setData(response.data);
+        setIsStale(!!response.stale);
+        setError(null);
+        setIsLoading(false);
+      } catch (err) {
+        if (controller.signal.aborted || isCancel(err)) return;
+
+        if (attempt < retries && shouldRetry(err)) {
+          setRetryCount(attempt + 1);
+          const delay =
+            getRetryAfterMs(err) ?? getBackoffDelay(attempt, RETRY_BASE_DELAY_MS, MAX_RETRY_DELAY_MS);
+          retryTimer = setTimeout(() => run(attempt + 1), delay);
+          return;
+        }
+        setError(err instanceof Error ? err : new Error('Request failed'));
+        setIsLoading(false);
+      }
+    };
+
+    setIsLoading(true);
+    setRetryCount(0);
+    run(0);
+
+    return () => {
+      controller.abort();
+      if (retryTimer) clearTimeout(retryTimer);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enabled, retries, runId, ...deps]);
+
+  const retry = useCallback(() => setRunId((id) => id + 1), []);
+
+  return { data, error, isLoading, isStale, retryCount, retry };
+}
+
+export default useApiQuery;
@@ -0,0 +1,191 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { isCancel } from 'axios';
+import apiService from '../services/api';
+import { endpoints } from '../services/api/endpoints';
+import { parseResponse, safeParse, Schema } from '../services/api/schema';
+import { offlineStorage, STORAGE_KEYS } from '../services/offlineStorage';
+import { CachePolicy, Freshness } from '../services/storage/cachePolicies';
+import { useNetworkStatus } from './useNetworkStatus';
+import { useAppStore } from '../store';
+import { Course } from '../types/course';
+import { User } from '../types/user';
+import logger from '../utils/logger';
+
+// Freshness of the data currently shown ('missing' until anything is cached)
+export type CachedResourceStatus = Freshness | 'missing';
+
+interface UseCachedResourceOptions<T> {
+  endpoint: string;
+  params?: Record<string, any>;
+  cacheKey?: string;
+  policy?: CachePolicy;
+  enabled?: boolean;
+  // Checks fetched and cached payloads; mismatches are reported through `error`
+  schema?: Schema<T>;
+}
+
+interface UseCachedResourceReturn<T> {
+  data: T | null;
+  status: CachedResourceStatus;
+  isLoading: boolean;
+  isRefreshing: boolean;
+  error: Error | null;
+  lastUpdated: number | null;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Stale-while-revalidate access to a server resource.
+ *
+ * Cached data is rendered immediately, whatever its age, and refetched through
+ * apiService whenever it is not fresh and the device is online.
+ */
+export function useCachedResource<T>({
+  endpoint,
+  params,
+  cacheKey,
+  policy,
+  enabled = true,
+  schema,
+}: UseCachedResourceOptions<T>): UseCachedResourceReturn<T> {
+  const paramsKey = params ? JSON.stringify(params) : '';
+  const key = cacheKey ?? `${STORAGE_KEYS.RESOURCE_CACHE}_${endpoint}${paramsKey}`;
+
+  const [data, setData] = useState<T | null>(null);
+  const [status, setStatus] = useState<CachedResourceStatus>('missing');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+  const { isOnline } = useNetworkStatus();
+  // Cached resources are stored per account, so reload when the account changes
+  const userId = useAppStore((state) => state.user?.id);
+
+  const isMounted = useRef(true);
+  // Aborts a refresh still running when the screen goes away
+  const abortController = useRef(new AbortController());
+  const isRefreshingRef = useRef(false);
+  // Kept in a ref so inline policy objects don't retrigger the cache read
+  const policyRef = useRef(policy);
+  policyRef.current = policy;
+  const schemaRef = useRef(schema);
+  schemaRef.current = schema;
+
+  useEffect(() => {
+    isMounted.current = true;
+    const controller = new AbortController();
+    abortController.current = controller;
+    return () => {
+      isMounted.current = false;
+      controller.abort();
+    };
+  }, []);
+
+  // Fetch from the server and replace the cached copy
+  const refresh = useCallback(async () => {
+    if (isRefreshingRef.current) return;
+    isRefreshingRef.current = true;
+
+    try {
+      setIsRefreshing(true);
+      const response = await apiService.get(endpoint, paramsKey ? JSON.parse(paramsKey) : undefined, {
+        signal: abortController.current.signal,
+      });
+      // A malformed payload is rejected before it replaces the cached copy
+      const fetched: T = schemaRef.current
+        ? parseResponse(schemaRef.current, response.data, endpoint)
+        : response.data;
+      await offlineStorage.store(key, fetched);
+
+      if (isMounted.current) {
+        setData(fetched);
+        setStatus('fresh');
+        setLastUpdated(Date.now());
+        setError(null);
+      }
+    } catch (err: any) {
+      if (isCancel(err)) return;
+      if (err?.code !== 'ERR_NETWORK' && err?.message !== 'Network Error') {
+        logger.error(`Error refreshing ${endpoint}:`, err);
+      }
+      if (isMounted.current) {
+        setError(err instanceof Error ? err : new Error('Failed to refresh resource'));
+      }
+    } finally {
+      isRefreshingRef.current = false;
+      if (isMounted.current) {
+        setIsRefreshing(false);
+      }
+    }
+  }, [endpoint, paramsKey, key]);
+
+  // Render whatever is cached first
+  useEffect(() => {
+    if (!enabled) return;
+
+    const loadCached = async () => {
+      setIsLoading(true);
+      let cached = await offlineStorage.retrieveWithFreshness<T>(key, policyRef.current);
+      // Copies cached before the schema was checked may not match it
+      if (cached && schemaRef.current && !safeParse(schemaRef.current, cached.data).success) {
+        logger.warn(`Ignoring cached ${endpoint} that does not match its schema`);
+        cached = null;
+      }
+
+      if (!isMounted.current) return;
+      if (cached) {
+        setData(cached.data);
+        setStatus(cached.status);
+        setLastUpdated(cached.storedAt);
+      } else {
+        setData(null);
+        setStatus('missing');
+        setLastUpdated(null);
+      }
+      setIsLoading(false);
+    };
+
+    loadCached();
+  }, [enabled, key, userId, endpoint]);
+
+  // Revalidate once cached data is known to be outdated and the network is back
+  useEffect(() => {
+    if (enabled && !isLoading && isOnline && status !== 'fresh') {
+      refresh();
+    }
+  }, [enabled, isLoading, isOnline, status, refresh]);
+
+  return {
+    data,
+    status,
+    isLoading,
+    isRefreshing,
+    error,
+    lastUpdated,
+    refresh,
+  };
+}
+
+/**
+ * Course listing that stays available offline
+ */
+export function useCachedCourses() {
+  return useCachedResource<Course[]>({
+    endpoint: endpoints.getCourses.path(),
+    schema: endpoints.getCourses.response,
+  });
+}
+
+/**
+ * User profile that stays available offline
+ */
+export function useCachedProfile(userId: string) {
+  return useCachedResource<User>({
+    endpoint: endpoints.getUser.path({ userId }),
+    schema: endpoints.getUser.response,
+    cacheKey: `${STORAGE_KEYS.USER_DATA}_${userId}`,
+    enabled: !!userId,
+  });
+}
+
+export default useCachedResource;
@@ -1,15 +1,20 @@
 import { useState, useEffect, useCallback } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { CourseProgress, LessonProgress, Note, Course } from '../types/course';
-import apiService from '../services/api';
+import { offlineStorage, STORAGE_KEYS } from '../services/offlineStorage';
+import { syncService, SyncEvent } from '../services/syncService';
+import { learnerSync, progressResourceKey } from '../services/learnerSync';
+import { progressStore } from '../services/progressStore';
+import { useSyncItemStatus } from './useSyncItemStatus';
+import { DataSyncStatus } from './useOfflineData';
+import { useAppStore } from '../store';
 import logger from '../utils/logger';
 
-const PROGRESS_STORAGE_KEY = '@teachlink_course_progress';
-const SYNC_INTERVAL = 30000; // 30 seconds
+const SYNCED_PROGRESS_STORAGE_KEY = STORAGE_KEYS.SYNCED_PROGRESS;
 
 interface UseCourseProgressOptions {
   courseId: string;
   course?: Course;
+  // Ask for a sync when the course is closed
   autoSync?: boolean;
 }
 
@@ -27,6 +32,67 @@ interface UseCourseProgressReturn {
   updateLastPosition: (lessonId: string, position: number) => Promise<void>;
   calculateOverallProgress: () => number;
   syncProgress: () => Promise<void>;
+  progressSyncStatus: DataSyncStatus;
+  getNoteSyncStatus: (noteId: string) => DataSyncStatus;
+}
+
+function findNote(progress: CourseProgress | null, noteId: string): Note | undefined {
+  if (!progress) return undefined;
+  for (const notes of Object.values(progress.notes)) {
+    const note = notes.find((n) => n.id === noteId);
+    if (note) return note;
+  }
+  return undefined;
+}
+
+function countOverallProgress(course: Course | undefined, progress: CourseProgress | null): number {
+  if (!course || !progress) return 0;
+
+  const totalLessons = course.totalLessons;
+  if (totalLessons === 0) return 0;
+
+  const completedLessons = Object.values(progress.lessons).filter(
+    (lp) => lp.completed
+  ).length;
+
+  return Math.round((completedLessons / totalLessons) * 100);
+}
+
+function withLessonProgress(
+  progress: CourseProgress,
+  lessonId: string,
+  lessonProgress: Partial<LessonProgress>,
+  course?: Course
+): CourseProgress {
+  const existing = progress.lessons[lessonId] || {
+    lessonId,
+    completed: false,
+    lastPosition: 0,
+    timeSpent: 0,
+  };
+
+  const updated: CourseProgress = {
+    ...progress,
+    lessons: {
+      ...progress.lessons,
+      [lessonId]: {
+        ...existing,
+        ...lessonProgress,
+      },
+    },
+    lastAccessed: new Date().toISOString(),
+  };
+  updated.overallProgress = countOverallProgress(course, updated);
+  return updated;
+}
+
+// Changes stay saved locally even if they can't be queued; log and move on
+async function queueChange(queue: () => Promise<unknown>): Promise<void> {
+  try {
+    await queue();
+  } catch (error) {
+    logger.error('Error queueing change for sync:', error);
+  }
 }
 
 export function useCourseProgress({
@@ -35,131 +101,95 @@ export function useCourseProgress({
   autoSync = true,
 }: UseCourseProgressOptions): UseCourseProgressReturn {
   const [progress, setProgress] = useState<CourseProgress | null>(null);
+  // Last copy the server confirmed, to tell which notes changed since
+  const [syncedProgress, setSyncedProgress] = useState<CourseProgress | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-
-  // Load progress from AsyncStorage
-  const loadProgress = useCallback(async () => {
+  const userId = useAppStore((state) => state.user?.id);
+  const { getStatus } = useSyncItemStatus();
+
+  // Where new progress starts; a refetched copy of the same course doesn't reload
+  const firstSectionId = course?.sections[0]?.id || '';
+  const firstLessonId = course?.sections[0]?.lessons[0]?.id || '';
+
+  const initialProgress = useCallback((): CourseProgress => ({
+    courseId,
+    currentLessonId: firstLessonId,
+    currentSectionId: firstSectionId,
+    lessons: {},
+    quizzes: {},
+    overallProgress: 0,
+    lastAccessed: new Date().toISOString(),
+    bookmarks: [],
+    notes: {},
+  }), [courseId, firstSectionId, firstLessonId]);
+
+  // Read progress from offline storage (migrated to the current schema on read)
+  const readProgress = useCallback(async () => {
     try {
-      setIsLoading(true);
-      const stored = await AsyncStorage.getItem(`${PROGRESS_STORAGE_KEY}_${courseId}`);
-      
-      if (stored) {
-        const parsed = JSON.parse(stored) as CourseProgress;
-        setProgress(parsed);
-      } else {
+      const [stored, synced] = await Promise.all([
         // Initialize new progress
-        const initialProgress: CourseProgress = {
-          courseId,
-          currentLessonId: course?.sections[0]?.lessons[0]?.id || '',
-          currentSectionId: course?.sections[0]?.id || '',
-          lessons: {},
-          overallProgress: 0,
-          lastAccessed: new Date().toISOString(),
-          bookmarks: [],
-          notes: {},
-        };
-        setProgress(initialProgress);
-        await AsyncStorage.setItem(
-          `${PROGRESS_STORAGE_KEY}_${courseId}`,
-          JSON.stringify(initialProgress)
-        );
-      }
+        progressStore.update(courseId, (current) => current ?? initialProgress()),
+        offlineStorage.retrieve<CourseProgress>(`${SYNCED_PROGRESS_STORAGE_KEY}_${courseId}`),
+      ]);
+      setSyncedProgress(synced);
+      setProgress(stored);
     } catch (error) {
       logger.error('Error loading progress:', error);
       // Initialize on error
-      const initialProgress: CourseProgress = {
-        courseId,
-        currentLessonId: course?.sections[0]?.lessons[0]?.id || '',
-        currentSectionId: course?.sections[0]?.id || '',
-        lessons: {},
-        overallProgress: 0,
-        lastAccessed: new Date().toISOString(),
-        bookmarks: [],
-        notes: {},
-      };
-      setProgress(initialProgress);
-    } finally {
-      setIsLoading(false);
+      setProgress(initialProgress());
     }
-  }, [courseId, course]);
+  }, [courseId, initialProgress]);
 
-  // Save progress to AsyncStorage
-  const saveProgress = useCallback(async (updatedProgress: CourseProgress) => {
-    try {
-      await AsyncStorage.setItem(
-        `${PROGRESS_STORAGE_KEY}_${courseId}`,
-        JSON.stringify(updatedProgress)
-      );
-      setProgress(updatedProgress);
-    } catch (error) {
-      logger.error('Error saving progress:', error);
-    }
-  }, [courseId]);
+  // Initial load, shown as loading
+  const loadProgress = useCallback(async () => {
+    setIsLoading(true);
+    await readProgress();
+    setIsLoading(false);
+  }, [readProgress]);
+
+  // Apply an edit to the stored progress and queue the result for upload.
+  // The stored copy may have changes merged in since this screen read it, so
+  // edits never start from `progress`. Bookmarks and notes go with the
+  // progress; those edits ask for a sync right away.
+  const applyEdit = useCallback(
+    async (edit: (current: CourseProgress) => CourseProgress, syncNow = false) => {
+      let changed = false;
+      let updated: CourseProgress;
+      try {
+        updated = await progressStore.update(courseId, (stored) => {
+          const current = stored ?? initialProgress();
+          const next = edit(current);
+          changed = next !== current;
+          return next;
+        });
+      } catch (error) {
+        logger.error('Error saving progress:', error);
+        return;
+      }
+      if (changed) {
+        await queueChange(() => learnerSync.queueProgress(updated, { syncNow }));
+      }
+    },
+    [courseId, initialProgress]
+  );
 
-  // Sync progress with server
+  // Send queued progress now rather than on the next regular sync
   const syncProgress = useCallback(async () => {
-    if (!progress) return;
-    
-    // Check if API is available (not localhost or empty)
-    const apiUrl = process.env.EXPO_PUBLIC_API_BASE_URL;
-    if (!apiUrl || apiUrl.includes('localhost') || apiUrl.includes('127.0.0.1')) {
-      // Skip sync if no real API URL is configured
-      return;
-    }
-    
-    try {
-      await apiService.put(`/courses/${courseId}/progress`, progress);
-    } catch (error: any) {
-      // Only log non-network errors (network errors are expected when offline)
-      if (error.code !== 'ERR_NETWORK' && error.message !== 'Network Error') {
-        logger.error('Error syncing progress:', error);
-      }
-      // Continue with local storage even if sync fails
-    }
-  }, [courseId, progress]);
+    syncService.requestSync();
+  }, []);
 
   // Calculate overall progress
-  const calculateOverallProgress = useCallback((): number => {
-    if (!course || !progress) return 0;
-    
-    const totalLessons = course.totalLessons;
-    if (totalLessons === 0) return 0;
-    
-    const completedLessons = Object.values(progress.lessons).filter(
-      (lp) => lp.completed
-    ).length;
-    
-    return Math.round((completedLessons / totalLessons) * 100);
-  }, [course, progress]);
+  const calculateOverallProgress = useCallback(
+    (): number => countOverallProgress(course, progress),
+    [course, progress]
+  );
 
   // Update lesson progress
   const updateLessonProgress = useCallback(
     async (lessonId: string, lessonProgress: Partial<LessonProgress>) => {
-      if (!progress) return;
-
-      const existing = progress.lessons[lessonId] || {
-        lessonId,
-        completed: false,
-        lastPosition: 0,
-        timeSpent: 0,
-      };
-
-      const updated: CourseProgress = {
-        ...progress,
-        lessons: {
-          ...progress.lessons,
-          [lessonId]: {
-            ...existing,
-            ...lessonProgress,
-          },
-        },
-        lastAccessed: new Date().toISOString(),
-      };
-
-      updated.overallProgress = calculateOverallProgress();
-      await saveProgress(updated);
+      await applyEdit((current) => withLessonProgress(current, lessonId, lessonProgress, course));
     },
-    [progress, saveProgress, calculateOverallProgress]
+    [applyEdit, course]
   );
 
   // Mark lesson as complete
@@ -176,93 +206,65 @@ export function useCourseProgress({
   // Set current lesson
   const setCurrentLesson = useCallback(
     async (lessonId: string, sectionId: string) => {
-      if (!progress) return;
-
-      const updated: CourseProgress = {
-        ...progress,
+      await applyEdit((current) => ({
+        ...current,
         currentLessonId: lessonId,
         currentSectionId: sectionId,
         lastAccessed: new Date().toISOString(),
-      };
-
-      await saveProgress(updated);
+      }));
     },
-    [progress, saveProgress]
+    [applyEdit]
   );
 
   // Update last position
   const updateLastPosition = useCallback(
     async (lessonId: string, position: number) => {
-      const existing = progress?.lessons[lessonId];
-      await updateLessonProgress(lessonId, {
-        lastPosition: position,
-        timeSpent: (existing?.timeSpent || 0) + 1, // Increment time spent
-      });
+      await applyEdit((current) =>
+        withLessonProgress(current, lessonId, {
+          lastPosition: position,
+          timeSpent: (current.lessons[lessonId]?.timeSpent || 0) + 1, // Increment time spent
+        }, course)
+      );
     },
-    [progress, updateLessonProgress]
+    [applyEdit, course]
   );
 
   // Add bookmark
   const addBookmark = useCallback(
     async (lessonId: string) => {
-      if (!progress) return;
-
-      if (progress.bookmarks.includes(lessonId)) return;
-
-      const updated: CourseProgress = {
-        ...progress,
-        bookmarks: [...progress.bookmarks, lessonId],
-      };
-
-      await saveProgress(updated);
-      
-      // Sync bookmark to server (only if API is available)
-      const apiUrl = process.env.EXPO_PUBLIC_API_BASE_URL;
-      if (apiUrl && !apiUrl.includes('localhost') && !apiUrl.includes('127.0.0.1')) {
-        try {
-          await apiService.post(`/courses/${courseId}/bookmarks`, { lessonId });
-        } catch (error: any) {
-          if (error.code !== 'ERR_NETWORK' && error.message !== 'Network Error') {
-            logger.error('Error syncing bookmark:', error);
-          }
-        }
-      }
+      await applyEdit((current) => {
+        if (current.bookmarks.includes(lessonId)) return current;
+
+        const bookmarkTombstones = { ...current.bookmarkTombstones };
+        delete bookmarkTombstones[lessonId];
+        return {
+          ...current,
+          bookmarks: [...current.bookmarks, lessonId],
+          bookmarkTombstones,
+        };
+      }, true);
     },
-    [courseId, progress, saveProgress]
+    [applyEdit]
   );
 
   // Remove bookmark
   const removeBookmark = useCallback(
     async (lessonId: string) => {
-      if (!progress) return;
-
-      const updated: CourseProgress = {
-        ...progress,
-        bookmarks: progress.bookmarks.filter((id) => id !== lessonId),
-      };
-
-      await saveProgress(updated);
-      
-      // Sync bookmark removal to server (only if API is available)
-      const apiUrl = process.env.EXPO_PUBLIC_API_BASE_URL;
-      if (apiUrl && !apiUrl.includes('localhost') && !apiUrl.includes('127.0.0.1')) {
-        try {
-          await apiService.delete(`/courses/${courseId}/bookmarks/${lessonId}`);
-        } catch (error: any) {
-          if (error.code !== 'ERR_NETWORK' && error.message !== 'Network Error') {
-            logger.error('Error syncing bookmark removal:', error);
-          }
-        }
-      }
+      await applyEdit((current) => ({
+        ...current,
+        bookmarks: current.bookmarks.filter((id) => id !== lessonId),
+        bookmarkTombstones: {
+          ...current.bookmarkTombstones,
+          [lessonId]: new Date().toISOString(),
+        },
+      }), true);
     },
-    [courseId, progress, saveProgress]
+    [applyEdit]
   );
 
   // Add note
   const addNote = useCallback(
     async (lessonId: string, content: string, timestamp: number): Promise<Note> => {
-      if (!progress) throw new Error('Progress not loaded');
-
       const note: Note = {
         id: `note_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         lessonId,
@@ -272,127 +274,112 @@ export function useCourseProgress({
         updatedAt: new Date().toISOString(),
       };
 
-      const updated: CourseProgress = {
-        ...progress,
+      await applyEdit((current) => ({
+        ...current,
         notes: {
-          ...progress.notes,
-          [lessonId]: [...(progress.notes[lessonId] || []), note],
+          ...current.notes,
+          [lessonId]: [...(current.notes[lessonId] || []), note],
         },
-      };
-
-      await saveProgress(updated);
-      
-      // Sync note to server (only if API is available)
-      const apiUrl = process.env.EXPO_PUBLIC_API_BASE_URL;
-      if (apiUrl && !apiUrl.includes('localhost') && !apiUrl.includes('127.0.0.1')) {
-        try {
-          await apiService.post(`/courses/${courseId}/notes`, note);
-        } catch (error: any) {
-          if (error.code !== 'ERR_NETWORK' && error.message !== 'Network Error') {
-            logger.error('Error syncing note:', error);
-          }
-        }
-      }
+      }), true);
 
       return note;
     },
-    [courseId, progress, saveProgress]
+    [applyEdit]
   );
 
   // Update note
   const updateNote = useCallback(
     async (lessonId: string, noteId: string, content: string) => {
-      if (!progress) return;
-
-      const lessonNotes = progress.notes[lessonId] || [];
-      const updatedNotes = lessonNotes.map((note) =>
-        note.id === noteId
-          ? { ...note, content, updatedAt: new Date().toISOString() }
-          : note
-      );
-
-      const updated: CourseProgress = {
-        ...progress,
+      await applyEdit((current) => ({
+        ...current,
         notes: {
-          ...progress.notes,
-          [lessonId]: updatedNotes,
+          ...current.notes,
+          [lessonId]: (current.notes[lessonId] || []).map((note) =>
+            note.id === noteId
+              ? { ...note, content, updatedAt: new Date().toISOString() }
+              : note
+          ),
         },
-      };
-
-      await saveProgress(updated);
-      
-      // Sync note update to server (only if API is available)
-      const apiUrl = process.env.EXPO_PUBLIC_API_BASE_URL;
-      if (apiUrl && !apiUrl.includes('localhost') && !apiUrl.includes('127.0.0.1')) {
-        try {
-          await apiService.put(`/courses/${courseId}/notes/${noteId}`, { content });
-        } catch (error: any) {
-          if (error.code !== 'ERR_NETWORK' && error.message !== 'Network Error') {
-            logger.error('Error syncing note update:', error);
-          }
-        }
-      }
+      }), true);
     },
-    [courseId, progress, saveProgress]
+    [applyEdit]
   );
 
   // Delete note
   const deleteNote = useCallback(
     async (lessonId: string, noteId: string) => {
-      if (!progress) return;
-
-      const lessonNotes = progress.notes[lessonId] || [];
-      const updatedNotes = lessonNotes.filter((note) => note.id !== noteId);
-
-      const updated: CourseProgress = {
-        ...progress,
+      await applyEdit((current) => ({
+        ...current,
         notes: {
-          ...progress.notes,
-          [lessonId]: updatedNotes,
+          ...current.notes,
+          [lessonId]: (current.notes[lessonId] || []).filter((note) => note.id !== noteId),
         },
-      };
-
-      await saveProgress(updated);
-      
-      // Sync note deletion to server (only if API is available)
-      const apiUrl = process.env.EXPO_PUBLIC_API_BASE_URL;
-      if (apiUrl && !apiUrl.includes('localhost') && !apiUrl.includes('127.0.0.1')) {
-        try {
-          await apiService.delete(`/courses/${courseId}/notes/${noteId}`);
-        } catch (error: any) {
-          if (error.code !== 'ERR_NETWORK' && error.message !== 'Network Error') {
-            logger.error('Error syncing note deletion:', error);
-          }
-        }
-      }
+        noteTombstones: {
+          ...current.noteTombstones,
+          [noteId]: new Date().toISOString(),
+        },
+      }), true);
     },
-    [courseId, progress, saveProgress]
+    [applyEdit]
   );
 
-  // Load progress on mount
+  // Load progress on mount and whenever the signed-in account changes
   useEffect(() => {
     loadProgress();
-  }, [loadProgress]);
+  }, [loadProgress, userId]);
 
-  // Auto-sync with server
+  // Reload when a pull brought in progress made on another device, or an
+  // upload merged it in. This happens while a lesson plays, so it swaps the
+  // data in place instead of going back to the loading state.
   useEffect(() => {
-    if (!autoSync || !progress) return;
+    const handleSyncEvent = (event: SyncEvent) => {
+      if (
+        (event.type === 'changesPulled' && event.data?.courseIds?.includes(courseId)) ||
+        (event.type === 'progressSynced' && event.data?.courseId === courseId)
+      ) {
+        readProgress();
+      }
+    };
 
-    const interval = setInterval(() => {
-      syncProgress();
-    }, SYNC_INTERVAL);
+    syncService.addEventListener(handleSyncEvent);
+    return () => syncService.removeEventListener(handleSyncEvent);
+  }, [courseId, readProgress]);
 
-    return () => clearInterval(interval);
-  }, [autoSync, progress, syncProgress]);
+  // Show every write to the stored copy, whoever made it
+  useEffect(() => {
+    const handleProgressSaved = (savedCourseId: string, saved: CourseProgress) => {
+      if (savedCourseId === courseId) {
+        setProgress(saved);
+      }
+    };
 
-  // Sync on unmount
+    progressStore.addListener(handleProgressSaved);
+    return () => progressStore.removeListener(handleProgressSaved);
+  }, [courseId]);
+
+  // Sync on unmount; until then queued progress goes out with the regular sync
   useEffect(() => {
     return () => {
-      if (progress) {
-        syncProgress();
+      if (autoSync) {
+        syncService.requestSync();
       }
     };
-  }, []);
+  }, [autoSync]);
+
+  const progressSyncStatus = getStatus(progressResourceKey(courseId));
+
+  // A note shares the status of the progress it travels with, unless it is
+  // the same as in the last synced copy
+  const getNoteSyncStatus = useCallback(
+    (noteId: string): DataSyncStatus => {
+      const note = findNote(progress, noteId);
+      const syncedNote = findNote(syncedProgress, noteId);
+      const unchanged =
+        note?.content === syncedNote?.content && note?.updatedAt === syncedNote?.updatedAt;
+      return unchanged ? 'synced' : progressSyncStatus;
+    },
+    [progress, syncedProgress, progressSyncStatus]
+  );
 
   return {
     progress,
@@ -408,5 +395,7 @@ export function useCourseProgress({
     updateLastPosition,
     calculateOverallProgress,
     syncProgress,
+    progressSyncStatus,
+    getNoteSyncStatus,
   };
 }
@@ -1,6 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import { offlineStorage } from '../services/offlineStorage';
+import { TransportPolicy } from '../services/syncPolicy';
 import { useNetworkStatus } from './useNetworkStatus';
+import { useAppStore } from '../store';
 import logger from '../utils/logger';
 
 // Data sync status
@@ -21,6 +23,8 @@ interface UseOfflineDataOptions {
   autoSync?: boolean;
   maxSyncAttempts?: number;
   conflictResolutionStrategy?: 'serverWins' | 'clientWins' | 'merge';
+  // Connections this data may be uploaded over, e.g. 'unmetered' for large files
+  transportPolicy?: TransportPolicy;
 }
 
 /**
@@ -33,13 +37,15 @@ export function useOfflineData<T>(
   const {
     autoSync = true,
     maxSyncAttempts = 3,
-    conflictResolutionStrategy = 'serverWins'
+    conflictResolutionStrategy = 'serverWins',
+    transportPolicy
   } = options;
 
   const [data, setData] = useState<Record<string, OfflineDataItem<T>>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [isSyncing, setIsSyncing] = useState(false);
   const { isOnline, refresh: refreshNetworkStatus } = useNetworkStatus();
+  const userId = useAppStore((state) => state.user?.id);
 
   // Load data from offline storage
   const loadData = useCallback(async () => {
@@ -95,14 +101,15 @@ export function useOfflineData<T>(
           type: 'CREATE',
           endpoint: `/${dataType}/${id}`,
           data: itemData,
-          priority: 'high'
+          priority: 'high',
+          transportPolicy
         });
       }
     } catch (error) {
       logger.error(`Error adding ${dataType} item:`, error);
       throw error;
     }
-  }, [data, dataType, isOnline, saveData]);
+  }, [data, dataType, isOnline, saveData, transportPolicy]);
 
   // Update existing item
   const updateItem = useCallback(async (id: string, itemData: Partial<T>): Promise<void> => {
@@ -133,14 +140,15 @@ export function useOfflineData<T>(
           type: 'UPDATE',
           endpoint: `/${dataType}/${id}`,
           data: updatedItem.data,
-          priority: 'medium'
+          priority: 'medium',
+          transportPolicy
         });
       }
     } catch (error) {
       logger.error(`Error updating ${dataType} item:`, error);
       throw error;
     }
-  }, [data, dataType, isOnline, saveData]);
+  }, [data, dataType, isOnline, saveData, transportPolicy]);
 
   // Delete item
   const deleteItem = useCallback(async (id: string): Promise<void> => {
@@ -155,14 +163,15 @@ export function useOfflineData<T>(
         await offlineStorage.addToSyncQueue({
           type: 'DELETE',
           endpoint: `/${dataType}/${id}`,
-          priority: 'medium'
+          priority: 'medium',
+          transportPolicy
         });
       }
     } catch (error) {
       logger.error(`Error deleting ${dataType} item:`, error);
       throw error;
     }
-  }, [data, dataType, isOnline, saveData]);
+  }, [data, dataType, isOnline, saveData, transportPolicy]);
 
   // Get item by ID
   const getItem = useCallback((id: string): T | null => {
@@ -190,7 +199,8 @@ export function useOfflineData<T>(
         type: 'UPDATE',
         endpoint: `/${dataType}/${id}`,
         data: item.data,
-        priority: 'high'
+        priority: 'high',
+        transportPolicy
       });
 
       // Update local status
@@ -227,7 +237,7 @@ export function useOfflineData<T>(
     } finally {
       setIsSyncing(false);
     }
-  }, [data, dataType, saveData]);
+  }, [data, dataType, saveData, transportPolicy]);
 
   // Sync all pending items
   const syncAll = useCallback(async (): Promise<void> => {
@@ -329,10 +339,10 @@ export function useOfflineData<T>(
     }
   }, [autoSync, isOnline, data, getItemsByStatus, syncAll]);
 
-  // Load data on mount
+  // Load data on mount and whenever the signed-in account changes
   useEffect(() => {
     loadData();
-  }, [loadData]);
+  }, [loadData, userId]);
 
   return {
     // Data access
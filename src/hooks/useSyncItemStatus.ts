@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from 'react';
+import { offlineStorage, STORAGE_KEYS, getResourceKey } from '../services/offlineStorage';
+import { deadLetterQueue } from '../services/deadLetterQueue';
+import { DataSyncStatus } from './useOfflineData';
+import logger from '../utils/logger';
+
+/**
+ * Hook telling whether the change to an item (by the resource key its sync
+ * operations are queued under) is still waiting to sync, failed, or is synced
+ */
+export function useSyncItemStatus() {
+  const [pendingKeys, setPendingKeys] = useState<Set<string>>(new Set());
+  const [failedKeys, setFailedKeys] = useState<Set<string>>(new Set());
+
+  const refresh = useCallback(async () => {
+    try {
+      const [queue, failed] = await Promise.all([
+        offlineStorage.getSyncQueue(),
+        deadLetterQueue.getEntries(),
+      ]);
+      setPendingKeys(new Set(queue.map(getResourceKey)));
+      setFailedKeys(new Set(failed.map((entry) => getResourceKey(entry.operation))));
+    } catch (error) {
+      logger.error('Error loading sync item status:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+
+    const handleStorageChange = (keys: string[]) => {
+      if (keys.includes(STORAGE_KEYS.SYNC_QUEUE) || keys.includes(STORAGE_KEYS.DEAD_LETTER)) {
+        refresh();
+      }
+    };
+
+    offlineStorage.addChangeListener(handleStorageChange);
+    return () => offlineStorage.removeChangeListener(handleStorageChange);
+  }, [refresh]);
+
+  const getStatus = useCallback(
+    (resourceKey: string): DataSyncStatus => {
+      if (failedKeys.has(resourceKey)) return 'error';
+      if (pendingKeys.has(resourceKey)) return 'pending';
+      return 'synced';
+    },
+    [pendingKeys, failedKeys]
+  );
+
+  return { getStatus, refresh };
+}
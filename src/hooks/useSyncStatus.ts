@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback } from 'react';
+import { syncService, SyncEvent, SyncStats } from '../services/syncService';
+import { SyncRun } from '../services/syncHistory';
+import { deadLetterQueue } from '../services/deadLetterQueue';
+import { offlineStorage, STORAGE_KEYS } from '../services/offlineStorage';
+import logger from '../utils/logger';
+
+// Events after which the numbers may have changed
+const REFRESH_EVENTS: SyncEvent['type'][] = [
+  'syncCompleted',
+  'syncFailed',
+  'operationProcessed',
+  'operationBlocked',
+  'changesPulled',
+];
+
+export interface SyncStatus extends SyncStats {
+  history: SyncRun[];
+  lastRun: SyncRun | null;
+}
+
+const initialStatus: SyncStatus = {
+  pendingCount: 0,
+  failedCount: 0,
+  blockedCount: 0,
+  isSyncing: false,
+  history: [],
+  lastRun: null,
+};
+
+function formatElapsed(since: number, now: number): string {
+  const minutes = Math.floor((now - since) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? '' : 's'} ago`;
+}
+
+/**
+ * One-line summary such as "Last synced 3 min ago, 2 pending, 1 failed"
+ */
+export function formatSyncSummary(status: SyncStats, now: number = Date.now()): string {
+  const parts = [
+    status.lastSyncTime ? `Last synced ${formatElapsed(status.lastSyncTime, now)}` : 'Never synced',
+  ];
+  if (status.pendingCount > 0) parts.push(`${status.pendingCount} pending`);
+  if (status.failedCount > 0) parts.push(`${status.failedCount} failed`);
+  return parts.join(', ');
+}
+
+/**
+ * Hook exposing sync health: queue counts, last sync time and recent runs
+ */
+export function useSyncStatus() {
+  const [status, setStatus] = useState<SyncStatus>(initialStatus);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [stats, history] = await Promise.all([
+        syncService.getSyncStats(),
+        syncService.getSyncHistory(),
+      ]);
+      setStatus({ ...stats, history, lastRun: history[history.length - 1] || null });
+    } catch (error) {
+      logger.error('Error loading sync status:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+
+    const handleSyncEvent = (event: SyncEvent) => {
+      if (REFRESH_EVENTS.includes(event.type)) refresh();
+    };
+    const handleDeadLetterChange = () => refresh();
+    // Changes queued between syncs count as pending straight away
+    const handleStorageChange = (keys: string[]) => {
+      if (keys.includes(STORAGE_KEYS.SYNC_QUEUE)) refresh();
+    };
+
+    syncService.addEventListener(handleSyncEvent);
+    deadLetterQueue.addListener(handleDeadLetterChange);
+    offlineStorage.addChangeListener(handleStorageChange);
+    return () => {
+      syncService.removeEventListener(handleSyncEvent);
+      deadLetterQueue.removeListener(handleDeadLetterChange);
+      offlineStorage.removeChangeListener(handleStorageChange);
+    };
+  }, [refresh]);
+
+  return {
+    ...status,
+    summary: formatSyncSummary(status),
+    refresh,
+  };
+}
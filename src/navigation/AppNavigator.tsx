@@ -3,6 +3,8 @@ import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { RootStackParamList } from './types';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { ActivityIndicator, View } from 'react-native';
+import { useAppStore } from '../store';
 
 // Import screens
 import HomeScreen from '../screens/HomeScreen';
@@ -10,31 +12,74 @@ import ProfileScreen from '../screens/ProfileScreen';
 import SettingsScreen from '../screens/SettingsScreen';
 import CourseViewerScreen from '../screens/CourseViewerScreen';
 import QuizScreen from '../screens/QuizScreen';
+import FailedSyncScreen from '../screens/FailedSyncScreen';
+import BackupScreen from '../screens/BackupScreen';
+import WelcomeScreen from '../screens/WelcomeScreen';
+import SignInScreen from '../screens/SignInScreen';
+import SignUpScreen from '../screens/SignUpScreen';
+import ForgotPasswordScreen from '../screens/ForgotPasswordScreen';
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
 export default function AppNavigator() {
+    const isAuthenticated = useAppStore((state) => state.isAuthenticated);
+    const isSessionRestored = useAppStore((state) => state.isSessionRestored);
+
+    // Don't flash the welcome screen while a saved session is being restored
+    if (!isSessionRestored) {
+        return (
+            <View className="flex-1 items-center justify-center bg-white dark:bg-gray-900">
+                <ActivityIndicator />
+            </View>
+        );
+    }
+
     return (
         <NavigationContainer>
             <SafeAreaView style={{ flex: 1 }}>
-                <Stack.Navigator initialRouteName="Home" screenOptions={{ headerShown: false }}>
-                    <Stack.Screen
-                        name="Home"
-                        component={HomeScreen}
-                        options={{ title: 'TeachLink' }}
-                    />
-                    <Stack.Screen name="Profile" component={ProfileScreen} />
-                    <Stack.Screen name="Settings" component={SettingsScreen} />
-                    <Stack.Screen
-                        name="CourseViewer"
-                        component={CourseViewerScreen}
-                        options={{ title: 'Course', headerShown: false }}
-                    />
-                    <Stack.Screen
-                        name="Quiz"
-                        component={QuizScreen}
-                        options={{ title: 'Quiz', headerShown: false }}
-                    />
+                <Stack.Navigator screenOptions={{ headerShown: false }}>
+                    {isAuthenticated ? (
+                        <>
+                            <Stack.Screen
+                                name="Home"
+                                component={HomeScreen}
+                                options={{ title: 'TeachLink' }}
+                            />
+                            <Stack.Screen name="Profile" component={ProfileScreen} />
+                            <Stack.Screen name="Settings" component={SettingsScreen} />
+                            <Stack.Screen
+                                name="CourseViewer"
+                                component={CourseViewerScreen}
+                                options={{ title: 'Course', headerShown: false }}
+                            />
+                            <Stack.Screen
+                                name="Quiz"
+                                component={QuizScreen}
+                                options={{ title: 'Quiz', headerShown: false }}
+                            />
+                            <Stack.Screen
+                                name="FailedSync"
+                                component={FailedSyncScreen}
+                                options={{ title: 'Failed syncs' }}
+                            />
+                            <Stack.Screen
+                                name="Backup"
+                                component={BackupScreen}
+                                options={{ title: 'Backup & restore' }}
+                            />
+                        </>
+                    ) : (
+                        <>
+                            <Stack.Screen name="Welcome" component={WelcomeScreen} />
+                            <Stack.Screen name="SignIn" component={SignInScreen} options={{ title: 'Sign in' }} />
+                            <Stack.Screen name="SignUp" component={SignUpScreen} options={{ title: 'Create account' }} />
+                            <Stack.Screen
+                                name="ForgotPassword"
+                                component={ForgotPasswordScreen}
+                                options={{ title: 'Reset password' }}
+                            />
+                        </>
+                    )}
                 </Stack.Navigator>
             </SafeAreaView>
         </NavigationContainer>
@@ -23,6 +23,7 @@ export type RootStackParamList = {
   // Settings
   Settings: undefined;
   NotificationSettings: undefined;
+  FailedSync: undefined;
 };
 
 const prefix = Linking.createURL('/');
@@ -53,6 +54,7 @@ export const linking: LinkingOptions<RootStackParamList> = {
       // Settings
       Settings: 'settings',
       NotificationSettings: 'settings/notifications',
+      FailedSync: 'sync/failed',
     },
   },
 
@@ -129,6 +131,9 @@ function buildNotificationDeepLink(data: NotificationData): string | null {
     case NotificationType.COMMUNITY_ACTIVITY:
       return data.postId ? `teachlink://community/${data.postId}` : 'teachlink://community';
 
+    case NotificationType.SYNC_FAILURE:
+      return 'teachlink://sync/failed';
+
     default:
       return null;
   }
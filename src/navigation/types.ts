@@ -1,9 +1,17 @@
 import { Course, Quiz } from '../types/course';
 
 export type RootStackParamList = {
+  // Signed out
+  Welcome: undefined;
+  SignIn: undefined;
+  SignUp: undefined;
+  ForgotPassword: { email?: string };
+  // Signed in
   Home: undefined;
   Profile: { userId: string };
   Settings: undefined;
   CourseViewer: { course: Course; initialLessonId?: string; initialViewMode?: 'lesson' | 'syllabus' | 'notes' };
   Quiz: { quiz: Quiz; courseId: string; course?: Course };
+  FailedSync: undefined;
+  Backup: undefined;
 };
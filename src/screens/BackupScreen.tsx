@@ -0,0 +1,80 @@
+import React, { useCallback, useState } from 'react';
+import { Text, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../navigation/types';
+import { backupService } from '../services/backupService';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'Backup'>;
+
+export default function BackupScreen({ navigation }: Props) {
+    const [error, setError] = useState<string | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const handleExport = useCallback(async () => {
+        try {
+            setIsBusy(true);
+            await backupService.shareBackup();
+        } catch (exportError: any) {
+            Alert.alert('Backup failed', exportError?.message || 'Could not create a backup');
+        } finally {
+            setIsBusy(false);
+        }
+    }, []);
+
+    const handleRestore = useCallback(async () => {
+        try {
+            setIsBusy(true);
+            setError(null);
+            const json = await backupService.pickBackupFile();
+            if (json === null) return;
+            const { courses, quizzes } = await backupService.restoreBackup(json);
+            Alert.alert(
+                'Backup restored',
+                `Merged progress for ${courses} course${courses === 1 ? '' : 's'} and ${quizzes} quiz result${quizzes === 1 ? '' : 's'}.`
+            );
+        } catch (restoreError: any) {
+            setError(restoreError?.message || 'Could not restore the backup');
+        } finally {
+            setIsBusy(false);
+        }
+    }, []);
+
+    return (
+        <ScrollView className="flex-1 bg-white dark:bg-gray-900 p-4">
+            <TouchableOpacity onPress={() => navigation.goBack()} className="mb-4">
+                <Text className="text-blue-600 dark:text-blue-400">Back</Text>
+            </TouchableOpacity>
+
+            <Text className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+                Backup & restore
+            </Text>
+            <Text className="text-gray-600 dark:text-gray-300 mb-6">
+                Save your progress, notes, bookmarks, quiz results and settings before reinstalling
+                the app or moving to a new phone.
+            </Text>
+
+            <TouchableOpacity
+                onPress={handleExport}
+                disabled={isBusy}
+                className="bg-blue-600 rounded-lg py-3 mb-8"
+            >
+                <Text className="text-white text-center font-semibold">Export backup</Text>
+            </TouchableOpacity>
+
+            <Text className="text-gray-900 dark:text-white text-lg mb-1">Restore</Text>
+            <Text className="text-gray-600 dark:text-gray-300 text-sm mb-2">
+                Choose a backup you exported earlier. It is merged with what is already on this device.
+            </Text>
+            <TouchableOpacity
+                onPress={handleRestore}
+                disabled={isBusy}
+                className="border border-blue-600 rounded-lg py-3 mt-3"
+            >
+                <Text className="text-blue-600 dark:text-blue-400 text-center font-semibold">
+                    Restore from file
+                </Text>
+            </TouchableOpacity>
+            {error && <Text className="text-xs text-red-600 mt-1">{error}</Text>}
+        </ScrollView>
+    );
+}
@@ -1,16 +1,56 @@
-import React from 'react';
+import React, { useEffect, useMemo } from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/types';
 import MobileCourseViewer from '../components/mobile/MobileCourseViewer';
+import { useApiQuery } from '../hooks/useApiQuery';
+import { api } from '../services/api/client';
+import { courseSchema } from '../services/api/contracts';
+import { safeParse } from '../services/api/schema';
+import logger from '../utils/logger';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'CourseViewer'>;
 
 export default function CourseViewerScreen({ route, navigation }: Props) {
   const { course, initialLessonId, initialViewMode } = route.params;
+  const courseId = course?.id;
+  // The course passed in shows until the latest published version arrives
+  const { data: latestCourse } = useApiQuery(
+    (signal) => api.getCourse({ params: { courseId }, signal }),
+    [courseId],
+    { enabled: !!courseId }
+  );
+  // Course payloads come from the server; check them before the viewer renders them
+  const validation = useMemo(
+    () => safeParse(courseSchema, latestCourse ?? course),
+    [latestCourse, course]
+  );
+
+  useEffect(() => {
+    if (!validation.success) {
+      logger.error(`Invalid course ${course?.id ?? ''}:`, validation.issues);
+    }
+  }, [validation, course]);
+
+  if (!validation.success) {
+    return (
+      <View className="flex-1 items-center justify-center bg-white dark:bg-gray-900 p-6">
+        <Text className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+          This course could not be opened
+        </Text>
+        <Text className="text-gray-600 dark:text-gray-300 text-center mb-6">
+          Some of its content is missing or damaged. Please try again later.
+        </Text>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text className="text-blue-600 dark:text-blue-400">Go back</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
 
   return (
     <MobileCourseViewer
-      course={course}
+      course={validation.data}
       initialLessonId={initialLessonId}
       initialViewMode={initialViewMode}
       onBack={() => navigation.goBack()}
@@ -0,0 +1,232 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, TextInput, Alert } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../navigation/types';
+import { deadLetterQueue, DeadLetterEntry } from '../services/deadLetterQueue';
+import { syncService } from '../services/syncService';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'FailedSync'>;
+
+function formatFailedAt(timestamp: number): string {
+    return new Date(timestamp).toLocaleString();
+}
+
+function describeOperation({ operation }: DeadLetterEntry): string {
+    return `${operation.type.toLowerCase()} of ${operation.endpoint}`;
+}
+
+// Progress uploads send the course progress as stored on the device, not the
+// queued payload, so editing their payload would have no effect
+function canEditPayload({ operation }: DeadLetterEntry): boolean {
+    return operation.type !== 'DELETE' && operation.entity !== 'progress';
+}
+
+function showError(title: string, error: any, fallback: string) {
+    Alert.alert(title, error?.message || fallback);
+}
+
+// Send the retried changes right away; failures land back in the list
+function syncNow() {
+    syncService.manualSync().catch(() => undefined);
+}
+
+export default function FailedSyncScreen({ navigation }: Props) {
+    const [entries, setEntries] = useState<DeadLetterEntry[]>([]);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draft, setDraft] = useState('');
+    const [draftError, setDraftError] = useState<string | null>(null);
+
+    useEffect(() => {
+        deadLetterQueue.getEntries().then(setEntries);
+        deadLetterQueue.addListener(setEntries);
+        return () => deadLetterQueue.removeListener(setEntries);
+    }, []);
+
+    const retryOperation = useCallback(async (operationId: string) => {
+        try {
+            await deadLetterQueue.retry(operationId);
+            syncNow();
+        } catch (retryError) {
+            showError('Retry failed', retryError, 'Could not retry the change');
+        }
+    }, []);
+
+    const handleRetry = useCallback(async (entry: DeadLetterEntry) => {
+        let blocker: DeadLetterEntry | null;
+        try {
+            blocker = await deadLetterQueue.getBlocker(entry.operation.id);
+        } catch (lookupError) {
+            showError('Retry failed', lookupError, 'Could not retry the change');
+            return;
+        }
+
+        if (!blocker) {
+            await retryOperation(entry.operation.id);
+            return;
+        }
+
+        // On its own it would only be blocked again
+        const blockerId = blocker.operation.id;
+        Alert.alert(
+            'Retry together?',
+            `This change depends on the ${describeOperation(blocker)}, which also failed. It can only be retried together with it.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Retry together', onPress: () => retryOperation(blockerId) },
+            ]
+        );
+    }, [retryOperation]);
+
+    const handleRetryAll = useCallback(async () => {
+        try {
+            await deadLetterQueue.retryAll();
+            syncNow();
+        } catch (retryError) {
+            showError('Retry failed', retryError, 'Could not retry the changes');
+        }
+    }, []);
+
+    const discard = useCallback(async (operationId: string) => {
+        try {
+            await deadLetterQueue.discard(operationId);
+        } catch (discardError) {
+            showError('Discard failed', discardError, 'Could not discard the change');
+        }
+    }, []);
+
+    const handleDiscard = useCallback((entry: DeadLetterEntry) => {
+        Alert.alert(
+            'Discard change?',
+            `This ${describeOperation(entry)} will not be saved to your account.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Discard',
+                    style: 'destructive',
+                    onPress: () => discard(entry.operation.id),
+                },
+            ]
+        );
+    }, [discard]);
+
+    const startEditing = useCallback((entry: DeadLetterEntry) => {
+        setEditingId(entry.operation.id);
+        setDraft(JSON.stringify(entry.operation.data ?? null, null, 2));
+        setDraftError(null);
+    }, []);
+
+    const saveDraft = useCallback(async () => {
+        if (!editingId) return;
+
+        let payload: any;
+        try {
+            payload = JSON.parse(draft);
+        } catch {
+            setDraftError('Payload must be valid JSON');
+            return;
+        }
+
+        try {
+            await deadLetterQueue.updatePayload(editingId, payload);
+            setEditingId(null);
+        } catch (saveError: any) {
+            setDraftError(saveError?.message || 'Could not save the payload');
+        }
+    }, [editingId, draft]);
+
+    return (
+        <ScrollView className="flex-1 bg-white dark:bg-gray-900 p-4">
+            <TouchableOpacity onPress={() => navigation.goBack()} className="mb-4">
+                <Text className="text-blue-600 dark:text-blue-400">Back</Text>
+            </TouchableOpacity>
+
+            <Text className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+                Failed syncs
+            </Text>
+            <Text className="text-gray-600 dark:text-gray-300 mb-6">
+                These changes could not be saved to your account. Retry them, fix the data, or
+                discard them.
+            </Text>
+
+            {entries.length === 0 ? (
+                <Text className="text-gray-500 dark:text-gray-400">Nothing waiting for review.</Text>
+            ) : (
+                <TouchableOpacity
+                    onPress={handleRetryAll}
+                    className="bg-blue-600 rounded-lg py-3 mb-4"
+                >
+                    <Text className="text-white text-center font-semibold">
+                        Retry all ({entries.length})
+                    </Text>
+                </TouchableOpacity>
+            )}
+
+            {entries.map((entry) => {
+                const { operation } = entry;
+                const isEditing = editingId === operation.id;
+
+                return (
+                    <View
+                        key={operation.id}
+                        className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 mb-4"
+                    >
+                        <Text className="text-gray-900 dark:text-white font-semibold">
+                            {operation.type} {operation.endpoint}
+                        </Text>
+                        <Text className="text-red-600 dark:text-red-400 mt-1">
+                            {entry.status ? `${entry.status}: ` : ''}
+                            {entry.lastError}
+                        </Text>
+                        <Text className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            {entry.attempts.length} attempt{entry.attempts.length === 1 ? '' : 's'} ·
+                            failed {formatFailedAt(entry.failedAt)}
+                        </Text>
+                        {entry.blockedBy && (
+                            <Text className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+                                Retried together with the change it depends on
+                            </Text>
+                        )}
+
+                        {isEditing ? (
+                            <View className="mt-3">
+                                <TextInput
+                                    value={draft}
+                                    onChangeText={setDraft}
+                                    multiline
+                                    autoCapitalize="none"
+                                    autoCorrect={false}
+                                    className="border border-gray-300 dark:border-gray-600 rounded p-2 text-gray-900 dark:text-white font-mono"
+                                />
+                                {draftError && (
+                                    <Text className="text-xs text-red-600 mt-1">{draftError}</Text>
+                                )}
+                                <View className="flex-row justify-end mt-2">
+                                    <TouchableOpacity onPress={() => setEditingId(null)} className="px-3 py-2">
+                                        <Text className="text-gray-600 dark:text-gray-300">Cancel</Text>
+                                    </TouchableOpacity>
+                                    <TouchableOpacity onPress={saveDraft} className="px-3 py-2">
+                                        <Text className="text-blue-600 dark:text-blue-400 font-semibold">Save</Text>
+                                    </TouchableOpacity>
+                                </View>
+                            </View>
+                        ) : (
+                            <View className="flex-row justify-end mt-3">
+                                <TouchableOpacity onPress={() => handleRetry(entry)} className="px-3 py-2">
+                                    <Text className="text-blue-600 dark:text-blue-400 font-semibold">Retry</Text>
+                                </TouchableOpacity>
+                                {canEditPayload(entry) && (
+                                    <TouchableOpacity onPress={() => startEditing(entry)} className="px-3 py-2">
+                                        <Text className="text-gray-700 dark:text-gray-200">Edit</Text>
+                                    </TouchableOpacity>
+                                )}
+                                <TouchableOpacity onPress={() => handleDiscard(entry)} className="px-3 py-2">
+                                    <Text className="text-red-600 dark:text-red-400">Discard</Text>
+                                </TouchableOpacity>
+                            </View>
+                        )}
+                    </View>
+                );
+            })}
+        </ScrollView>
+    );
+}
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Text, TouchableOpacity, ScrollView } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../navigation/types';
+import { MobileFormInput } from '../components/mobile/MobileFormInput';
+import PrimaryButton from '../components/common/PrimaryButton';
+import { useAppStore } from '../store';
+import { getAuthErrorMessage, validateEmail } from '../utils/authValidation';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'ForgotPassword'>;
+
+export default function ForgotPasswordScreen({ route, navigation }: Props) {
+    const requestPasswordReset = useAppStore((state) => state.requestPasswordReset);
+    const [email, setEmail] = useState(route.params?.email ?? '');
+    const [emailError, setEmailError] = useState<string | undefined>();
+    const [error, setError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [isSent, setIsSent] = useState(false);
+
+    const handleSubmit = async () => {
+        const validationError = validateEmail(email);
+        setEmailError(validationError);
+        setError(null);
+        if (validationError) return;
+
+        try {
+            setIsSubmitting(true);
+            await requestPasswordReset(email);
+            setIsSent(true);
+        } catch (resetError) {
+            const { message, fieldErrors } = getAuthErrorMessage(resetError);
+            setError(message);
+            setEmailError(fieldErrors.email);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <ScrollView
+            className="flex-1 bg-white dark:bg-gray-900 p-6"
+            keyboardShouldPersistTaps="handled"
+        >
+            <TouchableOpacity onPress={() => navigation.goBack()} className="mb-6">
+                <Text className="text-blue-600 dark:text-blue-400">Back</Text>
+            </TouchableOpacity>
+
+            <Text className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+                Reset your password
+            </Text>
+
+            {isSent ? (
+                <>
+                    <Text className="text-gray-600 dark:text-gray-300 mb-6">
+                        If an account exists for {email.trim()}, we&apos;ve sent it a link to choose a
+                        new password.
+                    </Text>
+                    <PrimaryButton title="Back to sign in" onPress={() => navigation.navigate('SignIn')} />
+                </>
+            ) : (
+                <>
+                    <Text className="text-gray-600 dark:text-gray-300 mb-6">
+                        Enter the email you signed up with and we&apos;ll send you a reset link.
+                    </Text>
+                    <MobileFormInput
+                        label="Email"
+                        value={email}
+                        onChangeText={setEmail}
+                        keyboardType="email-address"
+                        autoCapitalize="none"
+                        autoComplete="email"
+                        textContentType="emailAddress"
+                        onSubmitEditing={handleSubmit}
+                        error={emailError}
+                    />
+                    {error && <Text className="text-red-600 mb-3">{error}</Text>}
+                    <PrimaryButton title="Send reset link" onPress={handleSubmit} loading={isSubmitting} />
+                </>
+            )}
+        </ScrollView>
+    );
+}
@@ -3,10 +3,13 @@ import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-nati
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/types';
 import { sampleCourse } from '../data/sampleCourse';
+import { useAppStore } from '../store';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'Home'>;
 
 export default function HomeScreen({ navigation }: Props) {
+    const user = useAppStore((state) => state.user);
+
     return (
         <ScrollView 
             className="flex-1 bg-gray-50 dark:bg-slate-800"
@@ -43,7 +46,7 @@ export default function HomeScreen({ navigation }: Props) {
                 {/* Profile Button */}
                 <TouchableOpacity
                     style={styles.secondaryButton}
-                    onPress={() => navigation.navigate('Profile', { userId: '123' })}
+                    onPress={() => user && navigation.navigate('Profile', { userId: user.id })}
                 >
                     <View style={styles.secondaryButtonContent}>
                         <Text style={styles.secondaryIcon}>👤</Text>
@@ -1,12 +1,24 @@
-import React from 'react';
-import { View, Text } from 'react-native';
+import React, { useCallback } from 'react';
+import { View, Text, TouchableOpacity, Alert } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../navigation/types';
+import { useCachedProfile } from '../hooks/useCachedResource';
+import { useAppStore } from '../store';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'Profile'>;
 
 export default function ProfileScreen({ route }: Props) {
     const { userId } = route.params;
+    const { data: profile, status } = useCachedProfile(userId);
+    const logout = useAppStore((state) => state.logout);
+
+    const handleLogout = useCallback(async () => {
+        try {
+            await logout();
+        } catch (error: any) {
+            Alert.alert('Could not sign out', error?.message || 'Please try again.');
+        }
+    }, [logout]);
 
     return (
         <View className="flex-1 items-center justify-center bg-white dark:bg-gray-900">
@@ -16,6 +28,24 @@ export default function ProfileScreen({ route }: Props) {
             <Text className="text-gray-600 dark:text-gray-300 mt-2">
                 User ID: {userId}
             </Text>
+            {profile?.name && (
+                <Text className="text-gray-900 dark:text-white text-lg mt-4">
+                    {profile.name}
+                </Text>
+            )}
+            {profile?.email && (
+                <Text className="text-gray-600 dark:text-gray-300 mt-1">
+                    {profile.email}
+                </Text>
+            )}
+            {status === 'stale' || status === 'expired' ? (
+                <Text className="text-xs text-amber-600 dark:text-amber-400 mt-2">
+                    Showing saved profile, updating when online
+                </Text>
+            ) : null}
+            <TouchableOpacity onPress={handleLogout} className="mt-8">
+                <Text className="text-red-600 dark:text-red-400">Sign out</Text>
+            </TouchableOpacity>
         </View>
     );
 }
\ No newline at end of file
@@ -1,13 +1,31 @@
-import React from 'react';
-import { View, Text, Switch } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, Text, Switch, ScrollView, TouchableOpacity } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../navigation/types';
 import { useAppStore } from '../store';
+import { StorageSettings } from '../components/mobile/StorageSettings';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { syncService } from '../services/syncService';
 
-export default function SettingsScreen() {
+type Props = NativeStackScreenProps<RootStackParamList, 'Settings'>;
+
+export default function SettingsScreen({ navigation }: Props) {
     const { theme, setTheme } = useAppStore();
     const isDark = theme === 'dark';
+    const { failedCount, summary } = useSyncStatus();
+    const [dataSaver, setDataSaver] = useState(false);
+
+    useEffect(() => {
+        syncService.getSyncSettings().then((settings) => setDataSaver(settings.dataSaver));
+    }, []);
+
+    const handleDataSaverChange = async (value: boolean) => {
+        setDataSaver(value);
+        await syncService.updateSyncSettings({ dataSaver: value });
+    };
 
     return (
-        <View className="flex-1 bg-white dark:bg-gray-900 p-4">
+        <ScrollView className="flex-1 bg-white dark:bg-gray-900 p-4">
             <Text className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
                 Settings
             </Text>
@@ -21,6 +39,50 @@ export default function SettingsScreen() {
                     onValueChange={(value) => setTheme(value ? 'dark' : 'light')}
                 />
             </View>
-        </View>
+
+            <View className="mb-4">
+                <Text className="text-gray-900 dark:text-white text-lg">
+                    Sync
+                </Text>
+                <Text className="text-gray-600 dark:text-gray-300 mt-1">
+                    {summary}
+                </Text>
+            </View>
+
+            <View className="flex-row items-center justify-between mb-4">
+                <View className="flex-1 mr-4">
+                    <Text className="text-gray-900 dark:text-white text-lg">
+                        Data saver
+                    </Text>
+                    <Text className="text-gray-600 dark:text-gray-300 text-sm">
+                        Upload large files only on Wi-Fi
+                    </Text>
+                </View>
+                <Switch value={dataSaver} onValueChange={handleDataSaverChange} />
+            </View>
+
+            <TouchableOpacity
+                onPress={() => navigation.navigate('FailedSync')}
+                className="flex-row items-center justify-between mb-4"
+            >
+                <Text className="text-gray-900 dark:text-white text-lg">
+                    Failed syncs
+                </Text>
+                <Text className={failedCount > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}>
+                    {failedCount}
+                </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+                onPress={() => navigation.navigate('Backup')}
+                className="mb-4"
+            >
+                <Text className="text-gray-900 dark:text-white text-lg">
+                    Backup & restore
+                </Text>
+            </TouchableOpacity>
+
+            <StorageSettings />
+        </ScrollView>
     );
 }
\ No newline at end of file
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Text, TouchableOpacity, ScrollView } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../navigation/types';
+import { MobileFormInput } from '../components/mobile/MobileFormInput';
+import PrimaryButton from '../components/common/PrimaryButton';
+import { useAppStore } from '../store';
+import { FieldErrors, getAuthErrorMessage, validateSignIn } from '../utils/authValidation';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'SignIn'>;
+
+export default function SignInScreen({ navigation }: Props) {
+    const signIn = useAppStore((state) => state.signIn);
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+    const [error, setError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleSubmit = async () => {
+        const errors = validateSignIn({ email, password });
+        setFieldErrors(errors);
+        setError(null);
+        if (Object.keys(errors).length > 0) return;
+
+        try {
+            setIsSubmitting(true);
+            // Navigation switches to Home once the store has the user
+            await signIn(email, password);
+        } catch (signInError) {
+            const { message, fieldErrors: serverErrors } = getAuthErrorMessage(signInError);
+            setError(message);
+            setFieldErrors(serverErrors);
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <ScrollView
+            className="flex-1 bg-white dark:bg-gray-900 p-6"
+            keyboardShouldPersistTaps="handled"
+        >
+            <TouchableOpacity onPress={() => navigation.goBack()} className="mb-6">
+                <Text className="text-blue-600 dark:text-blue-400">Back</Text>
+            </TouchableOpacity>
+
+            <Text className="text-2xl font-bold text-gray-900 dark:text-white mb-6">Sign in</Text>
+
+            <MobileFormInput
+                label="Email"
+                value={email}
+                onChangeText={setEmail}
+                keyboardType="email-address"
+                autoCapitalize="none"
+                autoComplete="email"
+                textContentType="emailAddress"
+                error={fieldErrors.email}
+            />
+            <MobileFormInput
+                label="Password"
+                value={password}
+                onChangeText={setPassword}
+                secureTextEntry
+                autoComplete="password"
+                textContentType="password"
+                onSubmitEditing={handleSubmit}
+                error={fieldErrors.password}
+            />
+
+            {error && <Text className="text-red-600 mb-3">{error}</Text>}
+
+            <PrimaryButton title="Sign in" onPress={handleSubmit} loading={isSubmitting} />
+
+            <TouchableOpacity
+                onPress={() => navigation.navigate('ForgotPassword', { email })}
+                className="mt-4"
+            >
+                <Text className="text-blue-600 dark:text-blue-400 text-center">Forgot your password?</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => navigation.replace('SignUp')} className="mt-3">
+                <Text className="text-gray-600 dark:text-gray-300 text-center">
+                    New to TeachLink? Create an account
+                </Text>
+            </TouchableOpacity>
+        </ScrollView>
+    );
+}
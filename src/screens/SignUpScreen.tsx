@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Text, TouchableOpacity, ScrollView } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../navigation/types';
+import { MobileFormInput } from '../components/mobile/MobileFormInput';
+import PrimaryButton from '../components/common/PrimaryButton';
+import { useAppStore } from '../store';
+import {
+    FieldErrors,
+    getAuthErrorMessage,
+    MIN_PASSWORD_LENGTH,
+    validateSignUp,
+} from '../utils/authValidation';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'SignUp'>;
+
+export default function SignUpScreen({ navigation }: Props) {
+    const signUp = useAppStore((state) => state.signUp);
+    const [name, setName] = useState('');
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+    const [error, setError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleSubmit = async () => {
+        const errors = validateSignUp({ name, email, password, confirmPassword });
+        setFieldErrors(errors);
+        setError(null);
+        if (Object.keys(errors).length > 0) return;
+
+        try {
+            setIsSubmitting(true);
+            // Navigation switches to Home once the store has the user
+            await signUp(name, email, password);
+        } catch (signUpError) {
+            const { message, fieldErrors: serverErrors } = getAuthErrorMessage(signUpError);
+            setError(message);
+            setFieldErrors(serverErrors);
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <ScrollView
+            className="flex-1 bg-white dark:bg-gray-900 p-6"
+            keyboardShouldPersistTaps="handled"
+        >
+            <TouchableOpacity onPress={() => navigation.goBack()} className="mb-6">
+                <Text className="text-blue-600 dark:text-blue-400">Back</Text>
+            </TouchableOpacity>
+
+            <Text className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+                Create your account
+            </Text>
+
+            <MobileFormInput
+                label="Name"
+                value={name}
+                onChangeText={setName}
+                autoComplete="name"
+                textContentType="name"
+                error={fieldErrors.name}
+            />
+            <MobileFormInput
+                label="Email"
+                value={email}
+                onChangeText={setEmail}
+                keyboardType="email-address"
+                autoCapitalize="none"
+                autoComplete="email"
+                textContentType="emailAddress"
+                error={fieldErrors.email}
+            />
+            <MobileFormInput
+                label="Password"
+                placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                value={password}
+                onChangeText={setPassword}
+                secureTextEntry
+                autoComplete="new-password"
+                textContentType="newPassword"
+                error={fieldErrors.password}
+            />
+            <MobileFormInput
+                label="Confirm password"
+                value={confirmPassword}
+                onChangeText={setConfirmPassword}
+                secureTextEntry
+                textContentType="newPassword"
+                onSubmitEditing={handleSubmit}
+                error={fieldErrors.confirmPassword}
+            />
+
+            {error && <Text className="text-red-600 mb-3">{error}</Text>}
+
+            <PrimaryButton title="Create account" onPress={handleSubmit} loading={isSubmitting} />
+
+            <TouchableOpacity onPress={() => navigation.replace('SignIn')} className="mt-4">
+                <Text className="text-gray-600 dark:text-gray-300 text-center">
+                    Already have an account? Sign in
+                </Text>
+            </TouchableOpacity>
+        </ScrollView>
+    );
+}
@@ -0,0 +1,43 @@
+import React from 'react';
+import { View, Text } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../navigation/types';
+import PrimaryButton from '../components/common/PrimaryButton';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'Welcome'>;
+
+const HIGHLIGHTS = [
+    { icon: '📚', text: 'Courses that keep working offline' },
+    { icon: '📝', text: 'Notes and bookmarks on every lesson' },
+    { icon: '🔄', text: 'Progress synced across your devices' },
+];
+
+export default function WelcomeScreen({ navigation }: Props) {
+    return (
+        <View className="flex-1 bg-white dark:bg-gray-900 px-6 justify-center">
+            <Text className="text-6xl text-center mb-4">📚</Text>
+            <Text className="text-3xl font-bold text-gray-900 dark:text-white text-center mb-2">
+                Welcome to TeachLink
+            </Text>
+            <Text className="text-gray-600 dark:text-gray-300 text-center mb-8">
+                Share and consume knowledge on the go
+            </Text>
+
+            {HIGHLIGHTS.map(({ icon, text }) => (
+                <View key={text} className="flex-row items-center mb-3">
+                    <Text className="text-2xl mr-3">{icon}</Text>
+                    <Text className="text-gray-800 dark:text-gray-100">{text}</Text>
+                </View>
+            ))}
+
+            <View className="mt-10 gap-3">
+                <PrimaryButton title="Create an account" onPress={() => navigation.navigate('SignUp')} />
+                <PrimaryButton
+                    title="I already have an account"
+                    variant="outline"
+                    onPress={() => navigation.navigate('SignIn')}
+                />
+            </View>
+        </View>
+    );
+}
@@ -0,0 +1,82 @@
+import { offlineStorage } from './offlineStorage';
+import { syncService } from './syncService';
+import { useQuizStore } from '../store/quizStore';
+import { useNotificationStore } from '../store/notificationStore';
+import logger from '../utils/logger';
+
+/**
+ * Swaps the local dataset when a different learner signs in or out.
+ *
+ * The outgoing account's queued sync operations are flushed if possible;
+ * whatever cannot be sent stays parked in that account's storage namespace
+ * and is synced the next time the account signs in on this device.
+ */
+class AccountManager {
+  private switching: Promise<void> | null = null;
+
+  getCurrentUserId(): string | null {
+    return offlineStorage.getUserScope();
+  }
+
+  /**
+   * Make `userId` the active account (null when signing out)
+   */
+  async switchAccount(userId: string | null): Promise<void> {
+    // Serialize switches so a quick logout/login can't interleave
+    while (this.switching) {
+      await this.switching;
+    }
+    if (userId === offlineStorage.getUserScope()) return;
+
+    this.switching = this.performSwitch(userId).finally(() => {
+      this.switching = null;
+    });
+    return this.switching;
+  }
+
+  private async performSwitch(userId: string | null): Promise<void> {
+    const previousUserId = offlineStorage.getUserScope();
+
+    try {
+      const parkedCount = await syncService.flush();
+      if (parkedCount > 0) {
+        logger.info(`Parked ${parkedCount} pending sync operations for ${previousUserId ?? 'signed-out user'}`);
+      }
+    } catch (error) {
+      // Anything not sent stays queued under the previous account
+      logger.error('Error flushing sync queue before account switch:', error);
+    }
+
+    // A sync in the middle of this would mix the two accounts' data
+    await syncService.runPaused(async () => {
+      await offlineStorage.setUserScope(userId);
+
+      // Signing out ends the session the storage key was used in; what stays
+      // on the device is sealed again under a fresh one
+      if (!userId) {
+        try {
+          await offlineStorage.rotateEncryptionKey();
+        } catch (error) {
+          logger.error('Error rotating storage encryption key on sign out:', error);
+        }
+      }
+
+      // Drop the previous account's in-memory state, then load the new account's
+      useQuizStore.getState().clearLocalState();
+      await useNotificationStore.persist.rehydrate();
+      await offlineStorage.runMigrations();
+    });
+
+    logger.info(`Switched account to ${userId ?? 'signed out'}`);
+
+    // Send anything this account parked on a previous session
+    syncService.manualSync().catch((error) => {
+      logger.error('Error syncing after account switch:', error);
+    });
+  }
+}
+
+// Export singleton instance
+export const accountManager = new AccountManager();
+
+export default accountManager;
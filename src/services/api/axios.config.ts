@@ -1,4 +1,16 @@
-import axios from "axios";
+import axios, { AxiosError, InternalAxiosRequestConfig } from "axios";
+import { authSession, RefreshedTokens } from "../authSession";
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // Send without the access token and never refresh on 401 (sign-in, refresh)
+    skipAuth?: boolean;
+    // Set once a request has been replayed after a refresh
+    authRetried?: boolean;
+  }
+}
+
+export const REFRESH_ENDPOINT = "/auth/refresh";
 
 const apiClient = axios.create({
   baseURL: process.env.EXPO_PUBLIC_API_BASE_URL || "http://localhost:3000",
@@ -8,12 +20,21 @@ const apiClient = axios.create({
   },
 });
 
+const bearer = (token: string) => `Bearer ${token}`;
+
+const requestRefresh = async (refreshToken: string): Promise<RefreshedTokens> => {
+  const response = await apiClient.post(REFRESH_ENDPOINT, { refreshToken }, { skipAuth: true });
+  return response.data;
+};
+
 // Request interceptor
 apiClient.interceptors.request.use(
-  (config) => {
-    // Add auth token here when available
-    // const token = getAuthToken();
-    // if (token) config.headers.Authorization = `Bearer ${token}`;
+  async (config) => {
+    if (!config.skipAuth) {
+      // Waits for a refresh in progress, so requests made meanwhile get the new token
+      const token = await authSession.getAccessToken();
+      if (token) config.headers.Authorization = bearer(token);
+    }
     return config;
   },
   (error) => Promise.reject(error),
@@ -22,7 +43,33 @@ apiClient.interceptors.request.use(
 // Response interceptor
 apiClient.interceptors.response.use(
   (response) => response,
-  (error) => {
+  async (error: AxiosError) => {
+    const config = error.config as InternalAxiosRequestConfig | undefined;
+
+    // Renew an expired access token once and replay the request with it
+    if (
+      error.response?.status === 401 &&
+      config &&
+      !config.skipAuth &&
+      !config.authRetried &&
+      (await authSession.hasSession())
+    ) {
+      config.authRetried = true;
+      try {
+        const current = await authSession.getAccessToken();
+        // Another request may already have refreshed since this one was sent
+        const token =
+          current && bearer(current) !== config.headers.Authorization
+            ? current
+            : await authSession.refreshAccessToken(requestRefresh);
+        config.headers.Authorization = bearer(token);
+        return apiClient(config);
+      } catch {
+        // The session is cleared if the server refused the refresh
+        return Promise.reject(error);
+      }
+    }
+
     // Only log API errors in development, and make network errors less noisy
     if (__DEV__) {
       if (error.code === 'ERR_NETWORK' || error.message === 'Network Error') {
@@ -0,0 +1,81 @@
+import { apiService, GetOptions, RequestOptions } from '.';
+import { Endpoint, EndpointRegistry, endpoints } from './endpoints';
+import { parseResponse } from './schema';
+import { isStaleResponse } from './responseCache';
+
+export interface ApiResponse<T> {
+  data: T;
+  status: number;
+  headers: Record<string, any>;
+  // A cached copy, served because the server couldn't be reached
+  stale: boolean;
+}
+
+type EndpointRequest<Params, Body> = RequestOptions &
+  ([Params] extends [void] ? { params?: undefined } : { params: Params }) &
+  ([Body] extends [void] ? { body?: undefined } : { body: Body });
+
+type ClientMethod<E> =
+  E extends Endpoint<infer Params, infer Body, infer Response>
+    ? [Params, Body] extends [void, void]
+      ? (request?: EndpointRequest<Params, Body>) => Promise<ApiResponse<Response>>
+      : (request: EndpointRequest<Params, Body>) => Promise<ApiResponse<Response>>
+    : never;
+
+export type ApiClient<R extends EndpointRegistry> = { [K in keyof R]: ClientMethod<R[K]> };
+
+/**
+ * Build a typed client from an endpoint registry. Requests go through
+ * apiService, and every response is checked against its endpoint's schema:
+ * a payload that doesn't match rejects with an ApiValidationError rather
+ * than reaching the app.
+ */
+export function createApiClient<R extends EndpointRegistry>(registry: R): ApiClient<R> {
+  const client: Record<string, unknown> = {};
+
+  Object.entries(registry).forEach(([name, endpoint]) => {
+    client[name] = async (request: EndpointRequest<any, any> = {}): Promise<ApiResponse<unknown>> => {
+      const { params, body, ...requestOptions } = request;
+      const url = endpoint.path(params);
+      const options = endpoint.skipAuth ? { ...requestOptions, skipAuth: true } : requestOptions;
+
+      let response;
+      switch (endpoint.method) {
+        case 'GET': {
+          const getOptions: GetOptions = {};
+          if (endpoint.cache) getOptions.cache = true;
+          if (options.signal) getOptions.signal = options.signal;
+          response = Object.keys(getOptions).length > 0
+            ? await apiService.get(url, endpoint.query?.(params), getOptions)
+            : await apiService.get(url, endpoint.query?.(params));
+          break;
+        }
+        case 'POST':
+          response = await apiService.post(url, body, options);
+          break;
+        case 'PUT':
+          response = await apiService.put(url, body, options);
+          break;
+        case 'DELETE':
+          response = await apiService.delete(url, options);
+          break;
+      }
+
+      // axios reports an empty body (204 No Content) as ''
+      const payload = response.data === '' ? undefined : response.data;
+      return {
+        data: parseResponse(endpoint.response, payload, `${name} (${endpoint.method} ${url})`),
+        status: response.status,
+        headers: response.headers ?? {},
+        stale: isStaleResponse(response),
+      };
+    };
+  });
+
+  return client as ApiClient<R>;
+}
+
+// Typed client for the app's endpoints
+export const api = createApiClient(endpoints);
+
+export default api;
@@ -0,0 +1,189 @@
+import {
+  array,
+  boolean,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  Schema,
+  string,
+  union,
+  unknown,
+} from './schema';
+import {
+  Course,
+  CourseProgress,
+  Lesson,
+  LessonProgress,
+  Note,
+  Question,
+  Quiz,
+  QuizProgress,
+  Resource,
+  Section,
+} from '../../types/course';
+import { NotificationData, NotificationType, StoredNotification } from '../../types/notifications';
+import { AuthResponse, User } from '../../types/user';
+import { RemoteChange, RemoteChangesPage } from '../remoteChanges';
+
+// Response schemas for the server's resources, checked against the app's types
+
+export const resourceSchema: Schema<Resource> = object<Resource>({
+  id: string(),
+  title: string(),
+  url: string(),
+  type: oneOf('pdf', 'link', 'code', 'image'),
+});
+
+export const lessonSchema: Schema<Lesson> = object<Lesson>({
+  id: string(),
+  title: string(),
+  content: string(),
+  duration: number(),
+  videoUrl: optional(string()),
+  resources: optional(array(resourceSchema)),
+  order: number(),
+});
+
+const answerSchema = union(union(string(), number()), array(union(string(), number())));
+
+export const questionSchema: Schema<Question> = object<Question>({
+  id: string(),
+  type: oneOf('multiple-choice', 'true-false', 'short-answer'),
+  question: string(),
+  options: optional(array(string())),
+  multiple: optional(boolean()),
+  correctAnswer: answerSchema,
+  explanation: optional(string()),
+  points: number(),
+});
+
+export const quizSchema: Schema<Quiz> = object<Quiz>({
+  id: string(),
+  sectionId: string(),
+  title: string(),
+  questions: array(questionSchema),
+  order: number(),
+  passingScore: optional(number()),
+});
+
+export const sectionSchema: Schema<Section> = object<Section>({
+  id: string(),
+  title: string(),
+  lessons: array(lessonSchema),
+  quizzes: optional(array(quizSchema)),
+  order: number(),
+});
+
+export const courseSchema: Schema<Course> = object<Course>({
+  id: string(),
+  title: string(),
+  description: string(),
+  instructor: object<Course['instructor']>({
+    id: string(),
+    name: string(),
+    avatar: optional(string()),
+  }),
+  thumbnail: optional(string()),
+  sections: array(sectionSchema),
+  totalLessons: number(),
+  totalDuration: number(),
+  level: oneOf('beginner', 'intermediate', 'advanced'),
+  category: string(),
+});
+
+export const lessonProgressSchema: Schema<LessonProgress> = object<LessonProgress>({
+  lessonId: string(),
+  completed: boolean(),
+  lastPosition: number(),
+  completedAt: optional(string()),
+  timeSpent: number(),
+});
+
+export const quizProgressSchema: Schema<QuizProgress> = object<QuizProgress>({
+  quizId: string(),
+  sectionId: string(),
+  completed: boolean(),
+  score: optional(number()),
+  answers: record(answerSchema),
+  completedAt: optional(string()),
+  attempts: number(),
+});
+
+export const noteSchema: Schema<Note> = object<Note>({
+  id: string(),
+  lessonId: string(),
+  content: string(),
+  timestamp: number(),
+  createdAt: string(),
+  updatedAt: string(),
+});
+
+export const courseProgressSchema: Schema<CourseProgress> = object<CourseProgress>({
+  courseId: string(),
+  currentLessonId: string(),
+  currentSectionId: string(),
+  lessons: record(lessonProgressSchema),
+  quizzes: record(quizProgressSchema),
+  overallProgress: number(),
+  lastAccessed: string(),
+  bookmarks: array(string()),
+  notes: record(array(noteSchema)),
+  lastSyncedAt: optional(string()),
+  revision: optional(string()),
+  bookmarkTombstones: optional(record(string())),
+  noteTombstones: optional(record(string())),
+});
+
+const notificationTypeSchema = oneOf(...Object.values(NotificationType));
+
+export const storedNotificationSchema: Schema<StoredNotification> = object<StoredNotification>({
+  id: string(),
+  type: notificationTypeSchema,
+  title: string(),
+  body: string(),
+  data: optional(
+    object<NotificationData>({
+      type: notificationTypeSchema,
+      courseId: optional(string()),
+      conversationId: optional(string()),
+      achievementId: optional(string()),
+      postId: optional(string()),
+      deepLink: optional(string()),
+    })
+  ),
+  receivedAt: string(),
+  read: boolean(),
+});
+
+export const userSchema: Schema<User> = object<User>({
+  id: string(),
+  name: string(),
+  email: string(),
+  avatar: optional(string()),
+});
+
+export const authResponseSchema: Schema<AuthResponse> = object<AuthResponse>({
+  user: userSchema,
+  accessToken: string(),
+  refreshToken: string(),
+  expiresIn: optional(number()),
+});
+
+export const remoteChangeSchema: Schema<RemoteChange> = object<RemoteChange>({
+  entity: oneOf('course', 'progress', 'note', 'bookmark', 'notification'),
+  id: string(),
+  courseId: optional(string()),
+  lessonId: optional(string()),
+  deleted: optional(boolean()),
+  data: unknown(),
+  revision: optional(string()),
+  changedAt: string(),
+});
+
+export const remoteChangesPageSchema: Schema<RemoteChangesPage> = object<RemoteChangesPage>({
+  changes: array(remoteChangeSchema),
+  cursor: string(),
+  hasMore: optional(boolean()),
+});
@@ -0,0 +1,129 @@
+import { array, optional, Schema, unknown } from './schema';
+import {
+  authResponseSchema,
+  courseProgressSchema,
+  courseSchema,
+  remoteChangesPageSchema,
+  storedNotificationSchema,
+  userSchema,
+} from './contracts';
+import { CourseProgress, QuizProgress } from '../../types/course';
+import { User } from '../../types/user';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface Endpoint<Params, Body, Response> {
+  method: HttpMethod;
+  path: (params: Params) => string;
+  // Query string parameters, for GET requests
+  query?: (params: Params) => Record<string, any> | undefined;
+  response: Schema<Response>;
+  // Sent without the access token, for calls made before there is a session
+  skipAuth?: boolean;
+  // GET through the persistent response cache (see responseCache)
+  cache?: boolean;
+  // Never set; carries the request body type
+  readonly body?: Body;
+}
+
+/**
+ * Declare an endpoint. Params and Body are given explicitly, the response type
+ * is taken from the schema:
+ *
+ *   defineEndpoint<{ courseId: string }>()({ method: 'GET', path: ..., response: courseSchema })
+ */
+export const defineEndpoint =
+  <Params = void, Body = void>() =>
+  <Response>(endpoint: Omit<Endpoint<Params, Body, Response>, 'body'>): Endpoint<Params, Body, Response> =>
+    endpoint;
+
+type CourseParams = { courseId: string };
+
+export const endpoints = {
+  // Courses
+  getCourses: defineEndpoint()({
+    method: 'GET',
+    path: () => '/courses',
+    response: array(courseSchema),
+    cache: true,
+  }),
+  getCourse: defineEndpoint<CourseParams>()({
+    method: 'GET',
+    path: ({ courseId }) => `/courses/${courseId}`,
+    response: courseSchema,
+    cache: true,
+  }),
+
+  // Progress
+  getProgress: defineEndpoint<CourseParams>()({
+    method: 'GET',
+    path: ({ courseId }) => `/courses/${courseId}/progress`,
+    response: courseProgressSchema,
+  }),
+  putProgress: defineEndpoint<CourseParams, CourseProgress>()({
+    method: 'PUT',
+    path: ({ courseId }) => `/courses/${courseId}/progress`,
+    response: optional(courseProgressSchema),
+  }),
+
+  // Quizzes
+  submitQuizAttempt: defineEndpoint<CourseParams & { quizId: string }, QuizProgress>()({
+    method: 'POST',
+    path: ({ courseId, quizId }) => `/courses/${courseId}/quizzes/${quizId}/attempts`,
+    response: unknown(),
+  }),
+
+  // Notifications
+  getNotifications: defineEndpoint()({
+    method: 'GET',
+    path: () => '/notifications',
+    response: array(storedNotificationSchema),
+  }),
+  markNotificationRead: defineEndpoint<{ notificationId: string }>()({
+    method: 'PUT',
+    path: ({ notificationId }) => `/notifications/${notificationId}/read`,
+    response: unknown(),
+  }),
+
+  // Auth
+  signIn: defineEndpoint<void, { email: string; password: string }>()({
+    method: 'POST',
+    path: () => '/auth/login',
+    response: authResponseSchema,
+    skipAuth: true,
+  }),
+  signUp: defineEndpoint<void, { name: string; email: string; password: string }>()({
+    method: 'POST',
+    path: () => '/auth/signup',
+    response: authResponseSchema,
+    skipAuth: true,
+  }),
+  requestPasswordReset: defineEndpoint<void, { email: string }>()({
+    method: 'POST',
+    path: () => '/auth/password-reset',
+    response: unknown(),
+    skipAuth: true,
+  }),
+
+  // Users
+  getUser: defineEndpoint<{ userId: string }>()({
+    method: 'GET',
+    path: ({ userId }) => `/users/${userId}`,
+    response: userSchema,
+  }),
+  updateUser: defineEndpoint<{ userId: string }, Partial<Omit<User, 'id'>>>()({
+    method: 'PUT',
+    path: ({ userId }) => `/users/${userId}`,
+    response: userSchema,
+  }),
+
+  // Sync
+  getSyncChanges: defineEndpoint<{ since?: string | null }>()({
+    method: 'GET',
+    path: () => '/sync/changes',
+    query: ({ since }) => (since ? { since } : undefined),
+    response: remoteChangesPageSchema,
+  }),
+};
+
+export type EndpointRegistry = Record<string, Endpoint<any, any, any>>;
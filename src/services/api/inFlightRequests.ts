@@ -0,0 +1,78 @@
+import { AxiosResponse, CanceledError } from 'axios';
+
+interface SharedRequest {
+  promise: Promise<AxiosResponse>;
+  controller: AbortController;
+  // Callers that can still cancel; the request is aborted when all of them have
+  cancellable: number;
+  // Callers that can't cancel keep the request alive
+  pinned: boolean;
+}
+
+/**
+ * Coalesces identical requests that are in flight at the same time, so two
+ * components mounting together share one GET.
+ *
+ * Every caller can cancel with its own signal without affecting the others;
+ * the underlying request is only aborted once nobody is waiting for it.
+ */
+class InFlightRequests {
+  private requests = new Map<string, SharedRequest>();
+
+  share(
+    key: string,
+    signal: AbortSignal | undefined,
+    start: (signal: AbortSignal) => Promise<AxiosResponse>
+  ): Promise<AxiosResponse> {
+    if (signal?.aborted) {
+      return Promise.reject(new CanceledError());
+    }
+
+    let request = this.requests.get(key);
+    if (!request) {
+      const controller = new AbortController();
+      const created: SharedRequest = {
+        promise: start(controller.signal).finally(() => {
+          if (this.requests.get(key) === created) this.requests.delete(key);
+        }),
+        controller,
+        cancellable: 0,
+        pinned: false,
+      };
+      this.requests.set(key, created);
+      request = created;
+    }
+
+    const shared = request;
+    if (!signal) {
+      shared.pinned = true;
+      return shared.promise;
+    }
+
+    shared.cancellable++;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        shared.cancellable--;
+        if (shared.cancellable === 0 && !shared.pinned) {
+          // Nobody wants the reply any more; a later identical call starts afresh
+          if (this.requests.get(key) === shared) this.requests.delete(key);
+          shared.controller.abort();
+        }
+        reject(new CanceledError());
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      shared.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  get size(): number {
+    return this.requests.size;
+  }
+}
+
+// Export singleton instance
+export const inFlightRequests = new InFlightRequests();
+
+export default inFlightRequests;
@@ -1,11 +1,73 @@
+import { AxiosRequestConfig } from "axios";
 import apiClient from "./axios.config";
+import { responseCache, serializeParams } from "./responseCache";
+import { inFlightRequests } from "./inFlightRequests";
+import { offlineStorage } from "../offlineStorage";
+
+// Header letting the server recognize a retried request it has already applied
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+// Per-request options understood by apiService
+export interface RequestOptions {
+  idempotencyKey?: string;
+  // Only apply the write if the server copy is still at this revision (ETag)
+  ifMatch?: string;
+  // Only apply the write if the server has no copy yet
+  ifNoneMatch?: boolean;
+  // Send without the access token, for requests made before there is a session
+  skipAuth?: boolean;
+  // Abort the request, e.g. when the screen that made it goes away
+  signal?: AbortSignal;
+}
+
+const toConfig = (options?: RequestOptions) => {
+  const headers: Record<string, string> = {};
+  if (options?.idempotencyKey) headers[IDEMPOTENCY_KEY_HEADER] = options.idempotencyKey;
+  if (options?.ifMatch) headers["If-Match"] = options.ifMatch;
+  if (options?.ifNoneMatch) headers["If-None-Match"] = "*";
+
+  const config: AxiosRequestConfig = {};
+  if (Object.keys(headers).length > 0) config.headers = headers;
+  if (options?.skipAuth) config.skipAuth = true;
+  if (options?.signal) config.signal = options.signal;
+  return Object.keys(config).length > 0 ? config : undefined;
+};
+
+// Options for GET requests
+export interface GetOptions {
+  // Revalidate through the persistent response cache, and fall back to it offline
+  cache?: boolean;
+  // Stop waiting for the reply; the request itself is aborted once no caller
+  // sharing it is waiting any more
+  signal?: AbortSignal;
+}
+
+// 304 replies are answered from the response cache
+const acceptNotModified = (status: number) => (status >= 200 && status < 300) || status === 304;
+
+// Requests are only shared within the signed-in account, so a reply fetched
+// with one user's token never reaches a caller signed in as another
+const inFlightKey = (url: string, params?: any, options?: GetOptions) =>
+  `${offlineStorage.getUserScope() ?? ""} ${options?.cache ? "cached " : ""}${url}${serializeParams(params)}`;
 
 export const apiService = {
-  // Example API methods
-  get: (url: string, params?: any) => apiClient.get(url, { params }),
-  post: (url: string, data: any) => apiClient.post(url, data),
-  put: (url: string, data: any) => apiClient.put(url, data),
-  delete: (url: string) => apiClient.delete(url),
+  // Identical GETs made while one is in flight share its reply
+  get: (url: string, params?: any, options?: GetOptions) =>
+    inFlightRequests.share(
+      inFlightKey(url, params, options),
+      options?.signal,
+      (signal) =>
+        options?.cache
+          ? responseCache.fetch(url, params, (config) =>
+              apiClient.get(url, { ...config, params, signal, validateStatus: acceptNotModified }),
+            )
+          : apiClient.get(url, { params, signal }),
+    ),
+  post: (url: string, data: any, options?: RequestOptions) =>
+    apiClient.post(url, data, toConfig(options)),
+  put: (url: string, data: any, options?: RequestOptions) =>
+    apiClient.put(url, data, toConfig(options)),
+  delete: (url: string, options?: RequestOptions) => apiClient.delete(url, toConfig(options)),
 };
 
 export default apiService;
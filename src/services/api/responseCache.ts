@@ -0,0 +1,177 @@
+import { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { offlineStorage, STORAGE_KEYS } from '../offlineStorage';
+import { cachePolicies } from '../storage/cachePolicies';
+import { Mutex } from '../storage/mutex';
+import { entryByteLength } from '../storage/utils';
+import logger from '../../utils/logger';
+
+// Set on every response that went through the cache
+export const CACHE_STATUS_HEADER = 'x-cache-status';
+
+// MISS: new data from the server. REVALIDATED: the server confirmed the cached
+// copy (304). STALE: the server couldn't be reached, so the cached copy is shown.
+export type CacheStatus = 'MISS' | 'REVALIDATED' | 'STALE';
+
+// With a copy to fall back on there's no point waiting out a bad connection
+const CACHED_REQUEST_TIMEOUT_MS = 4000;
+
+interface CachedResponse {
+  data: any;
+  etag?: string;
+  lastModified?: string;
+}
+
+// Size and last confirmation of each cached response, so the cache can be
+// trimmed without reading the responses themselves
+interface IndexEntry {
+  bytes: number;
+  storedAt: number;
+}
+
+export interface ResponseCacheConfig {
+  // Byte budget for all cached responses; the least recently confirmed go first
+  maxBytes: number;
+}
+
+// Params in a fixed order, so the same request always has the same key
+export const serializeParams = (params?: Record<string, any>): string => {
+  if (!params) return '';
+  const sorted = Object.keys(params)
+    .filter((name) => params[name] !== undefined)
+    .sort()
+    .map((name) => [name, params[name]]);
+  return sorted.length > 0 ? JSON.stringify(sorted) : '';
+};
+
+export function getCacheStatus(response: { headers?: any }): CacheStatus | undefined {
+  return response.headers?.[CACHE_STATUS_HEADER];
+}
+
+/**
+ * Whether a response is a cached copy served because the server couldn't be reached
+ */
+export function isStaleResponse(response: { headers?: any }): boolean {
+  return getCacheStatus(response) === 'STALE';
+}
+
+/**
+ * Persistent HTTP cache for GET requests that opt in.
+ *
+ * Every request is still sent, conditionally (If-None-Match/If-Modified-Since),
+ * so unchanged data costs a 304 instead of a full body. When there is no reply
+ * at all the cached copy is returned, marked STALE in CACHE_STATUS_HEADER.
+ *
+ * Copies expire under the HTTP cache policy, counted from when the server last
+ * confirmed them, and the cache is trimmed to its byte budget on every write.
+ */
+class ResponseCache {
+  private config: ResponseCacheConfig = {
+    maxBytes: 5 * 1024 * 1024, // 5 MB
+  };
+  // Index updates are read-modify-write
+  private indexMutex = new Mutex();
+
+  setConfig(config: Partial<ResponseCacheConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getKey(method: string, url: string, params?: Record<string, any>): string {
+    return `${STORAGE_KEYS.HTTP_CACHE}_${method} ${url}${serializeParams(params)}`;
+  }
+
+  /**
+   * Send a GET through the cache. `send` makes the request with the given
+   * extra config, and must accept 304 replies.
+   */
+  async fetch(
+    url: string,
+    params: Record<string, any> | undefined,
+    send: (config: AxiosRequestConfig) => Promise<AxiosResponse>
+  ): Promise<AxiosResponse> {
+    const key = this.getKey('GET', url, params);
+    const stored = await offlineStorage.retrieveWithFreshness<CachedResponse>(key);
+    const cached = stored && stored.status !== 'expired' ? stored.data : null;
+
+    const headers: Record<string, string> = {};
+    if (cached?.etag) headers['If-None-Match'] = cached.etag;
+    if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+    let response: AxiosResponse;
+    try {
+      response = await send(cached ? { headers, timeout: CACHED_REQUEST_TIMEOUT_MS } : {});
+    } catch (error: any) {
+      // Only a missing reply falls back; an error from the server is real
+      if (cached && !error?.response) {
+        logger.debug(`Serving cached ${url}, server unreachable`);
+        return {
+          data: cached.data,
+          status: 200,
+          statusText: 'OK',
+          headers: { [CACHE_STATUS_HEADER]: 'STALE' },
+          config: error?.config,
+        };
+      }
+      throw error;
+    }
+
+    if (response.status === 304 && cached) {
+      // Stored again so its age counts from this confirmation
+      await this.save(key, cached);
+      response.data = cached.data;
+      response.status = 200;
+      response.headers[CACHE_STATUS_HEADER] = 'REVALIDATED';
+      return response;
+    }
+
+    await this.save(key, {
+      data: response.data,
+      etag: response.headers?.etag,
+      lastModified: response.headers?.['last-modified'],
+    });
+    response.headers[CACHE_STATUS_HEADER] = 'MISS';
+    return response;
+  }
+
+  private save(key: string, cached: CachedResponse): Promise<void> {
+    return this.indexMutex.runExclusive(async () => {
+      await offlineStorage.store<CachedResponse>(key, cached);
+
+      const index =
+        (await offlineStorage.retrieve<Record<string, IndexEntry>>(STORAGE_KEYS.HTTP_CACHE_INDEX)) ?? {};
+      index[key] = { bytes: entryByteLength(key, JSON.stringify(cached)), storedAt: Date.now() };
+
+      const evicted = this.selectEvictions(index);
+      evicted.forEach((evictedKey) => delete index[evictedKey]);
+      if (evicted.length > 0) {
+        await offlineStorage.removeMany(evicted);
+        logger.debug(`Evicted ${evicted.length} cached responses`);
+      }
+      await offlineStorage.store(STORAGE_KEYS.HTTP_CACHE_INDEX, index);
+    });
+  }
+
+  // Expired copies, then the least recently confirmed until within budget
+  private selectEvictions(index: Record<string, IndexEntry>): string[] {
+    const now = Date.now();
+    const evicted: string[] = [];
+    let usedBytes = 0;
+
+    const entries = Object.entries(index).sort(([, a], [, b]) => b.storedAt - a.storedAt);
+    for (const [key, entry] of entries) {
+      const policy = cachePolicies.getPolicy(key);
+      const expired = cachePolicies.evaluate(entry.storedAt, policy, now) === 'expired';
+      if (expired || usedBytes + entry.bytes > this.config.maxBytes) {
+        evicted.push(key);
+      } else {
+        usedBytes += entry.bytes;
+      }
+    }
+
+    return evicted;
+  }
+}
+
+// Export singleton instance
+export const responseCache = new ResponseCache();
+
+export default responseCache;
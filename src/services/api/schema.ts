@@ -0,0 +1,175 @@
+/**
+ * Minimal runtime schemas for validating server payloads.
+ *
+ * A schema checks an unknown value and returns it typed, recording every
+ * mismatch with the path it was found at instead of stopping at the first.
+ * Unknown object properties are kept, so newer servers can add fields.
+ */
+
+export interface ValidationIssue {
+  // Location in the payload, e.g. "sections[0].lessons[2].title"
+  path: string;
+  message: string;
+}
+
+export interface Schema<T> {
+  // Human-readable expected type, used in issue messages
+  readonly description: string;
+  check(value: unknown, path: string, issues: ValidationIssue[]): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/**
+ * A payload that did not match the schema of the endpoint it came from
+ */
+export class ApiValidationError extends Error {
+  readonly endpoint: string;
+  readonly issues: ValidationIssue[];
+
+  constructor(endpoint: string, issues: ValidationIssue[]) {
+    const [first] = issues;
+    super(
+      `Invalid response from ${endpoint}: ${first.path || 'response'} ${first.message}` +
+        (issues.length > 1 ? ` (and ${issues.length - 1} more)` : '')
+    );
+    this.name = 'ApiValidationError';
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+export function isApiValidationError(error: unknown): error is ApiValidationError {
+  return error instanceof ApiValidationError;
+}
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: ValidationIssue[] };
+
+export function safeParse<T>(schema: Schema<T>, value: unknown): ValidationResult<T> {
+  const issues: ValidationIssue[] = [];
+  const data = schema.check(value, '', issues);
+  return issues.length === 0 ? { success: true, data } : { success: false, issues };
+}
+
+/**
+ * Validate a response, throwing an ApiValidationError naming the endpoint
+ */
+export function parseResponse<T>(schema: Schema<T>, value: unknown, endpoint: string): T {
+  const result = safeParse(schema, value);
+  if (!result.success) {
+    throw new ApiValidationError(endpoint, result.issues);
+  }
+  return result.data;
+}
+
+const describeValue = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const joinPath = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+function primitive<T>(description: string, test: (value: unknown) => boolean): Schema<T> {
+  return {
+    description,
+    check(value, path, issues) {
+      if (!test(value)) {
+        issues.push({ path, message: `should be ${description}, got ${describeValue(value)}` });
+      }
+      return value as T;
+    },
+  };
+}
+
+export const string = () => primitive<string>('a string', (value) => typeof value === 'string');
+
+export const number = () =>
+  primitive<number>('a number', (value) => typeof value === 'number' && !isNaN(value));
+
+export const boolean = () => primitive<boolean>('a boolean', (value) => typeof value === 'boolean');
+
+export const unknown = () => primitive<unknown>('anything', () => true);
+
+export function oneOf<T extends string | number>(...values: T[]): Schema<T> {
+  return primitive<T>(
+    `one of ${values.map((value) => JSON.stringify(value)).join(', ')}`,
+    (value) => values.includes(value as T)
+  );
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    description: `${schema.description} or nothing`,
+    check(value, path, issues) {
+      return value === undefined || value === null ? undefined : schema.check(value, path, issues);
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    description: `an array of ${item.description}`,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `should be an array, got ${describeValue(value)}` });
+        return value as T[];
+      }
+      return value.map((entry, index) => item.check(entry, joinPath(path, index), issues));
+    },
+  };
+}
+
+export function record<T>(entry: Schema<T>): Schema<Record<string, T>> {
+  return {
+    description: `an object of ${entry.description}`,
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: `should be an object, got ${describeValue(value)}` });
+        return value as Record<string, T>;
+      }
+      const result: Record<string, T> = {};
+      Object.entries(value).forEach(([key, item]) => {
+        result[key] = entry.check(item, joinPath(path, key), issues);
+      });
+      return result;
+    },
+  };
+}
+
+export function object<T extends object>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+  return {
+    description: 'an object',
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: `should be an object, got ${describeValue(value)}` });
+        return value as T;
+      }
+      const result: Record<string, unknown> = { ...value };
+      (Object.keys(shape) as (keyof T & string)[]).forEach((key) => {
+        const checked = shape[key].check((value as Record<string, unknown>)[key], joinPath(path, key), issues);
+        if (checked === undefined) {
+          delete result[key];
+        } else {
+          result[key] = checked;
+        }
+      });
+      return result as T;
+    },
+  };
+}
+
+export function union<A, B>(a: Schema<A>, b: Schema<B>): Schema<A | B> {
+  return {
+    description: `${a.description} or ${b.description}`,
+    check(value, path, issues) {
+      for (const schema of [a, b] as Schema<A | B>[]) {
+        const attempt: ValidationIssue[] = [];
+        const checked = schema.check(value, path, attempt);
+        if (attempt.length === 0) return checked;
+      }
+      issues.push({ path, message: `should be ${a.description} or ${b.description}, got ${describeValue(value)}` });
+      return value as A | B;
+    },
+  };
+}
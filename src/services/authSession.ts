@@ -0,0 +1,181 @@
+import * as SecureStore from 'expo-secure-store';
+import { User } from '../types/user';
+import logger from '../utils/logger';
+
+const SESSION_STORE_KEY = 'teachlink_auth_session';
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  // Epoch ms the access token stops being accepted, if the server said
+  expiresAt?: number;
+}
+
+// What the refresh endpoint returns; the refresh token is only rotated sometimes
+export type RefreshedTokens = Pick<AuthTokens, 'accessToken'> & Partial<AuthTokens>;
+
+// Kept together in the keychain so a restart can restore who is signed in
+interface StoredSession extends AuthTokens {
+  user?: User;
+}
+
+export type AuthEventType =
+  | 'signedIn'
+  | 'refreshed'
+  | 'signedOut'
+  // The server rejected the refresh token, so the session is gone
+  | 'expired';
+
+export interface AuthEvent {
+  type: AuthEventType;
+  timestamp: number;
+}
+
+/**
+ * Holds the access and refresh tokens, and the signed-in user, in the device
+ * keychain and renews the access token. Only one refresh runs at a time:
+ * everyone asking while it is in flight waits for the same result.
+ */
+class AuthSession {
+  private tokens: Promise<StoredSession | null> | null = null;
+  private refreshing: Promise<string> | null = null;
+  private eventListeners: ((event: AuthEvent) => void)[] = [];
+
+  /**
+   * Current access token, waiting for a refresh in progress
+   */
+  async getAccessToken(): Promise<string | null> {
+    if (this.refreshing) {
+      await this.refreshing.catch(() => undefined);
+    }
+    return (await this.loadTokens())?.accessToken ?? null;
+  }
+
+  async hasSession(): Promise<boolean> {
+    return (await this.loadTokens()) !== null;
+  }
+
+  /**
+   * The user the stored session belongs to
+   */
+  async getUser(): Promise<User | null> {
+    return (await this.loadTokens())?.user ?? null;
+  }
+
+  /**
+   * Start a session with tokens from a sign-in. `prepare` runs once they are
+   * kept and before anyone hears of the sign-in, e.g. to switch to the
+   * account's local data first.
+   */
+  async start(tokens: AuthTokens, user?: User, prepare?: () => Promise<void>): Promise<void> {
+    await this.saveTokens({ ...tokens, user });
+    await prepare?.();
+    this.emitEvent('signedIn');
+  }
+
+  /**
+   * Forget the tokens, e.g. on sign-out
+   */
+  async clear(): Promise<void> {
+    if (!(await this.loadTokens())) return;
+    await this.saveTokens(null);
+    this.emitEvent('signedOut');
+  }
+
+  /**
+   * Exchange the refresh token for a new access token using `request`. Calls
+   * made while a refresh is running share it. If the server rejects the
+   * refresh token the session is cleared and an 'expired' event is emitted;
+   * network failures leave the session alone so it can be retried.
+   */
+  refreshAccessToken(request: (refreshToken: string) => Promise<RefreshedTokens>): Promise<string> {
+    if (!this.refreshing) {
+      this.refreshing = this.performRefresh(request).finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async performRefresh(
+    request: (refreshToken: string) => Promise<RefreshedTokens>
+  ): Promise<string> {
+    const current = await this.loadTokens();
+    if (!current) {
+      throw new Error('No session to refresh');
+    }
+
+    let refreshed: RefreshedTokens;
+    try {
+      refreshed = await request(current.refreshToken);
+    } catch (error: any) {
+      if (error?.response) {
+        logger.warn('Session refresh rejected, signing out');
+        await this.saveTokens(null);
+        this.emitEvent('expired');
+      }
+      throw error;
+    }
+
+    await this.saveTokens({ ...current, ...refreshed });
+    logger.debug('Access token refreshed');
+    this.emitEvent('refreshed');
+    return refreshed.accessToken;
+  }
+
+  private loadTokens(): Promise<StoredSession | null> {
+    if (!this.tokens) {
+      this.tokens = SecureStore.getItemAsync(SESSION_STORE_KEY).then((stored) =>
+        stored ? (JSON.parse(stored) as StoredSession) : null
+      );
+      // Allow a retry if the keychain was temporarily unavailable
+      this.tokens.catch((error) => {
+        logger.error('Error loading auth session:', error);
+        this.tokens = null;
+      });
+    }
+    return this.tokens;
+  }
+
+  private async saveTokens(tokens: StoredSession | null): Promise<void> {
+    if (tokens) {
+      await SecureStore.setItemAsync(SESSION_STORE_KEY, JSON.stringify(tokens));
+    } else {
+      await SecureStore.deleteItemAsync(SESSION_STORE_KEY);
+    }
+    this.tokens = Promise.resolve(tokens);
+  }
+
+  /**
+   * Add event listener
+   */
+  addEventListener(listener: (event: AuthEvent) => void): void {
+    this.eventListeners.push(listener);
+  }
+
+  /**
+   * Remove event listener
+   */
+  removeEventListener(listener: (event: AuthEvent) => void): void {
+    const index = this.eventListeners.indexOf(listener);
+    if (index > -1) {
+      this.eventListeners.splice(index, 1);
+    }
+  }
+
+  private emitEvent(type: AuthEventType): void {
+    const event = { type, timestamp: Date.now() };
+    this.eventListeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error('Error in auth event listener:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const authSession = new AuthSession();
+
+export default authSession;
@@ -0,0 +1,269 @@
+import { Share } from 'react-native';
+import * as Crypto from 'expo-crypto';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { offlineStorage, STORAGE_KEYS } from './offlineStorage';
+import { migrationRegistry, SCHEMA_FAMILIES } from './storage';
+import { isCourseProgress, isQuizProgress, mergeCourseProgress, mergeQuiz } from './progressMerge';
+import { learnerSync } from './learnerSync';
+import { progressStore } from './progressStore';
+import { SyncSettings } from './syncPolicy';
+import { useNotificationStore } from '../store/notificationStore';
+import { CourseProgress, QuizProgress } from '../types/course';
+import { DEFAULT_NOTIFICATION_PREFERENCES, NotificationPreferences } from '../types/notifications';
+import logger from '../utils/logger';
+
+const BACKUP_FORMAT = 'teachlink-backup';
+// Version of the archive layout itself; stored data carries its own schema versions
+const BACKUP_VERSION = 1;
+
+export interface BackupData {
+  // courseId -> progress, including the course's notes and bookmarks
+  courseProgress: Record<string, CourseProgress>;
+  // courseId -> quizId -> result
+  quizProgress: Record<string, Record<string, QuizProgress>>;
+  notificationPreferences: NotificationPreferences;
+  settings: Record<string, any>;
+  syncSettings: Partial<SyncSettings>;
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  // Schema version of each key family when the backup was made
+  schemaVersions: Record<string, number>;
+  data: BackupData;
+  // SHA-256 of the version, schema versions and data
+  checksum: string;
+}
+
+export interface RestoreSummary {
+  courses: number;
+  quizzes: number;
+}
+
+const quizProgressKey = (courseId: string) => `${STORAGE_KEYS.QUIZ_PROGRESS}_${courseId}`;
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function computeChecksum(archive: Pick<BackupArchive, 'version' | 'schemaVersions' | 'data'>): Promise<string> {
+  return Crypto.digestStringAsync(
+    Crypto.CryptoDigestAlgorithm.SHA256,
+    JSON.stringify([archive.version, archive.schemaVersions, archive.data])
+  );
+}
+
+/**
+ * Exports the learner's local data as one JSON archive and restores it, so
+ * nothing is lost when the app is reinstalled or the learner changes phones
+ * before everything synced.
+ *
+ * A restore merges into what is already on the device rather than replacing
+ * it: progress is merged like a sync conflict, and settings changed on this
+ * device are kept.
+ */
+class BackupService {
+  async createBackup(): Promise<BackupArchive> {
+    const [progressByKey, quizzesByKey, settings, syncSettings] = await Promise.all([
+      offlineStorage.retrieveByPrefix<CourseProgress>(`${STORAGE_KEYS.COURSE_PROGRESS}_`),
+      offlineStorage.retrieveByPrefix<Record<string, QuizProgress>>(`${STORAGE_KEYS.QUIZ_PROGRESS}_`),
+      offlineStorage.retrieve<Record<string, any>>(STORAGE_KEYS.SETTINGS),
+      offlineStorage.retrieve<Partial<SyncSettings>>(STORAGE_KEYS.SYNC_SETTINGS),
+    ]);
+
+    const courseProgress: Record<string, CourseProgress> = {};
+    Object.values(progressByKey).forEach((progress) => {
+      courseProgress[progress.courseId] = progress;
+    });
+    const quizProgress: Record<string, Record<string, QuizProgress>> = {};
+    Object.entries(quizzesByKey).forEach(([key, quizzes]) => {
+      quizProgress[key.slice(`${STORAGE_KEYS.QUIZ_PROGRESS}_`.length)] = quizzes;
+    });
+
+    const archive = {
+      version: BACKUP_VERSION,
+      // Read data is always at the current schema versions
+      schemaVersions: Object.values(SCHEMA_FAMILIES).reduce<Record<string, number>>((acc, name) => {
+        acc[name] = migrationRegistry.getFamily(name)?.version ?? 0;
+        return acc;
+      }, {}),
+      data: {
+        courseProgress,
+        quizProgress,
+        notificationPreferences: useNotificationStore.getState().preferences,
+        settings: settings ?? {},
+        syncSettings: syncSettings ?? {},
+      },
+    };
+
+    return {
+      format: BACKUP_FORMAT,
+      createdAt: new Date().toISOString(),
+      ...archive,
+      checksum: await computeChecksum(archive),
+    };
+  }
+
+  /**
+   * Hand a backup to the system share sheet (save to files, email, ...)
+   */
+  async shareBackup(): Promise<void> {
+    const archive = await this.createBackup();
+    await Share.share({
+      title: 'TeachLink backup',
+      message: JSON.stringify(archive),
+    });
+    logger.info(`Shared backup of ${Object.keys(archive.data.courseProgress).length} courses`);
+  }
+
+  /**
+   * Let the learner pick a backup they saved from the share sheet, and read
+   * it. Resolves to null when they cancel.
+   */
+  async pickBackupFile(): Promise<string | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      // Saved from a shared message, a backup may come back as plain text
+      type: ['application/json', 'text/plain'],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled || result.assets.length === 0) return null;
+
+    const [asset] = result.assets;
+    logger.info(`Reading backup ${asset.name}`);
+    return new File(asset.uri).text();
+  }
+
+  /**
+   * Validate a backup and merge it into the data on this device
+   */
+  async restoreBackup(json: string): Promise<RestoreSummary> {
+    const data = await this.parseBackup(json);
+
+    // Merged into the stored progress like any other edit, which also shows
+    // the result on a screen that has the course open
+    for (const imported of Object.values(data.courseProgress)) {
+      const merged = await progressStore.update(imported.courseId, (local) =>
+        local
+          ? mergeCourseProgress(null, imported, local)
+          : // The revision belongs to the device the backup came from
+            { ...imported, revision: undefined, lastSyncedAt: undefined }
+      );
+      await learnerSync.queueProgress(merged);
+    }
+
+    let quizzes = 0;
+    for (const [courseId, imported] of Object.entries(data.quizProgress)) {
+      const key = quizProgressKey(courseId);
+      const local = (await offlineStorage.retrieve<Record<string, QuizProgress>>(key)) ?? {};
+      const merged = { ...local };
+      Object.entries(imported).forEach(([quizId, result]) => {
+        merged[quizId] = local[quizId] ? mergeQuiz(local[quizId], result) : result;
+      });
+      await offlineStorage.store(key, merged);
+      quizzes += Object.keys(imported).length;
+
+      // Results this device hadn't seen go to the server like a finished quiz
+      for (const quizId of Object.keys(imported)) {
+        if (JSON.stringify(merged[quizId]) !== JSON.stringify(local[quizId])) {
+          await learnerSync.recordQuizAttempt(courseId, merged[quizId]);
+        }
+      }
+    }
+
+    // Preferences still at their defaults were never changed on this device
+    const { preferences, setAllPreferences } = useNotificationStore.getState();
+    const restoredPreferences = { ...preferences };
+    (Object.keys(DEFAULT_NOTIFICATION_PREFERENCES) as (keyof NotificationPreferences)[]).forEach((name) => {
+      const value = data.notificationPreferences[name];
+      if (preferences[name] === DEFAULT_NOTIFICATION_PREFERENCES[name] && typeof value === 'boolean') {
+        restoredPreferences[name] = value;
+      }
+    });
+    setAllPreferences(restoredPreferences);
+
+    const [settings, syncSettings] = await Promise.all([
+      offlineStorage.retrieve<Record<string, any>>(STORAGE_KEYS.SETTINGS),
+      offlineStorage.retrieve<Partial<SyncSettings>>(STORAGE_KEYS.SYNC_SETTINGS),
+    ]);
+    await offlineStorage.store(STORAGE_KEYS.SETTINGS, { ...data.settings, ...settings });
+    await offlineStorage.store(STORAGE_KEYS.SYNC_SETTINGS, { ...data.syncSettings, ...syncSettings });
+
+    const summary = { courses: Object.keys(data.courseProgress).length, quizzes };
+    logger.info(`Restored backup of ${summary.courses} courses and ${summary.quizzes} quiz results`);
+    return summary;
+  }
+
+  /**
+   * Check a backup's format and checksum, and upgrade its data to the
+   * current schema versions
+   */
+  async parseBackup(json: string): Promise<BackupData> {
+    let archive: BackupArchive;
+    try {
+      archive = JSON.parse(json);
+    } catch {
+      throw new Error('Backup is not valid JSON');
+    }
+
+    if (!isRecord(archive) || archive.format !== BACKUP_FORMAT) {
+      throw new Error('Not a TeachLink backup');
+    }
+    if (typeof archive.version !== 'number' || archive.version > BACKUP_VERSION) {
+      throw new Error('Backup was made by a newer version of the app');
+    }
+    if (!isRecord(archive.data) || !isRecord(archive.schemaVersions)) {
+      throw new Error('Backup is incomplete');
+    }
+    if ((await computeChecksum(archive)) !== archive.checksum) {
+      throw new Error('Backup is damaged (checksum mismatch)');
+    }
+
+    const { data, schemaVersions } = archive;
+    const migrate = <T>(family: string, value: any): T =>
+      migrationRegistry.migrate<T>(family, value, schemaVersions[family] ?? 0).data;
+
+    const courseProgress: Record<string, CourseProgress> = {};
+    Object.entries(isRecord(data.courseProgress) ? data.courseProgress : {}).forEach(([courseId, progress]) => {
+      const migrated = migrate<CourseProgress>(SCHEMA_FAMILIES.COURSE_PROGRESS, progress);
+      if (!isCourseProgress(migrated) || migrated.courseId !== courseId) {
+        throw new Error(`Backup has invalid progress for course ${courseId}`);
+      }
+      courseProgress[courseId] = migrated;
+    });
+
+    const quizProgress: Record<string, Record<string, QuizProgress>> = {};
+    Object.entries(isRecord(data.quizProgress) ? data.quizProgress : {}).forEach(([courseId, quizzes]) => {
+      const migrated = isRecord(quizzes)
+        ? migrate<Record<string, QuizProgress>>(SCHEMA_FAMILIES.QUIZ_PROGRESS, quizzes)
+        : null;
+      const valid =
+        isRecord(migrated) &&
+        Object.entries(migrated).every(([quizId, result]) => isQuizProgress(result) && result.quizId === quizId);
+      if (!valid) {
+        throw new Error(`Backup has invalid quiz results for course ${courseId}`);
+      }
+      quizProgress[courseId] = migrated;
+    });
+
+    // Preferences are persisted as part of the notification store's state
+    const notificationState = migrate<{ preferences: NotificationPreferences }>(
+      SCHEMA_FAMILIES.NOTIFICATIONS,
+      { preferences: isRecord(data.notificationPreferences) ? data.notificationPreferences : {} }
+    );
+
+    return {
+      courseProgress,
+      quizProgress,
+      notificationPreferences: notificationState.preferences,
+      settings: isRecord(data.settings) ? data.settings : {},
+      syncSettings: isRecord(data.syncSettings) ? data.syncSettings : {},
+    };
+  }
+}
+
+// Export singleton instance
+export const backupService = new BackupService();
+
+export default backupService;
@@ -0,0 +1,202 @@
+import { offlineStorage, STORAGE_KEYS, SyncAttempt, SyncOperation } from './offlineStorage';
+import { Mutex } from './storage/mutex';
+import logger from '../utils/logger';
+
+// Operation that failed permanently, kept for the learner to review
+export interface DeadLetterEntry {
+  operation: SyncOperation;
+  lastError: string;
+  status?: number;
+  attempts: SyncAttempt[];
+  failedAt: number;
+  // Set when the operation never ran because one it depends on failed
+  blockedBy?: string;
+}
+
+export interface DeadLetterFailure {
+  message: string;
+  status?: number;
+  blockedBy?: string;
+}
+
+// Listener notified whenever dead-letter entries change
+export type DeadLetterListener = (entries: DeadLetterEntry[]) => void;
+
+/**
+ * Persisted store of sync operations that failed permanently.
+ *
+ * Operations land here instead of staying in the sync queue forever, and only
+ * leave when the learner retries or explicitly discards them.
+ */
+class DeadLetterQueue {
+  private listeners: DeadLetterListener[] = [];
+  private mutex = new Mutex();
+
+  async getEntries(): Promise<DeadLetterEntry[]> {
+    const entries = await offlineStorage.retrieve<DeadLetterEntry[]>(STORAGE_KEYS.DEAD_LETTER);
+    return entries || [];
+  }
+
+  async getEntry(operationId: string): Promise<DeadLetterEntry | null> {
+    const entries = await this.getEntries();
+    return entries.find((entry) => entry.operation.id === operationId) || null;
+  }
+
+  async count(): Promise<number> {
+    return (await this.getEntries()).length;
+  }
+
+  /**
+   * Record an operation that will not be retried automatically
+   */
+  async add(operation: SyncOperation, failure: DeadLetterFailure): Promise<void> {
+    await this.update((entries) => [
+      ...entries.filter((entry) => entry.operation.id !== operation.id),
+      {
+        operation,
+        lastError: failure.message,
+        status: failure.status,
+        attempts: operation.attemptHistory || [],
+        failedAt: Date.now(),
+        blockedBy: failure.blockedBy,
+      },
+    ]);
+    logger.warn(`Moved operation to dead-letter queue: ${operation.type} ${operation.endpoint}`);
+  }
+
+  /**
+   * Replace the body an operation will be retried with
+   */
+  async updatePayload(operationId: string, data: any): Promise<void> {
+    await this.update((entries) => {
+      if (!entries.some((entry) => entry.operation.id === operationId)) {
+        throw new Error(`Dead-letter entry not found: ${operationId}`);
+      }
+      return entries.map((entry) =>
+        entry.operation.id === operationId
+          ? { ...entry, operation: { ...entry.operation, data } }
+          : entry
+      );
+    });
+  }
+
+  /**
+   * Send an operation back to the sync queue, together with any operations
+   * that were only dead-lettered because they were waiting on it
+   */
+  async retry(operationId: string): Promise<boolean> {
+    let found = false;
+    await this.update(async (entries) => {
+      found = entries.some((entry) => entry.operation.id === operationId);
+      if (!found) return entries;
+
+      const retryIds = new Set([operationId]);
+      let added = true;
+      while (added) {
+        added = false;
+        entries.forEach((entry) => {
+          if (entry.blockedBy && retryIds.has(entry.blockedBy) && !retryIds.has(entry.operation.id)) {
+            retryIds.add(entry.operation.id);
+            added = true;
+          }
+        });
+      }
+
+      return this.requeue(entries, (entry) => retryIds.has(entry.operation.id));
+    });
+    return found;
+  }
+
+  /**
+   * The dead-lettered operation at the root of what keeps `operationId` from
+   * running, or null when nothing it waits on is still dead-lettered. Retried
+   * on its own, the operation would be blocked again right away; retrying the
+   * blocker brings it along.
+   */
+  async getBlocker(operationId: string): Promise<DeadLetterEntry | null> {
+    const entries = await this.getEntries();
+    const byId = new Map(entries.map((entry) => [entry.operation.id, entry]));
+    const seen = new Set([operationId]);
+    let blocker: DeadLetterEntry | null = null;
+    let current = byId.get(operationId);
+
+    while (current?.blockedBy && !seen.has(current.blockedBy)) {
+      seen.add(current.blockedBy);
+      const next = byId.get(current.blockedBy);
+      if (!next) break;
+      blocker = next;
+      current = next;
+    }
+    return blocker;
+  }
+
+  async retryAll(): Promise<number> {
+    let count = 0;
+    await this.update((entries) => {
+      count = entries.length;
+      return this.requeue(entries, () => true);
+    });
+    return count;
+  }
+
+  /**
+   * Drop an operation for good. The change it carried is lost.
+   */
+  async discard(operationId: string): Promise<void> {
+    await this.update((entries) => entries.filter((entry) => entry.operation.id !== operationId));
+    logger.info(`Discarded failed operation: ${operationId}`);
+  }
+
+  async discardAll(): Promise<number> {
+    let count = 0;
+    await this.update((entries) => {
+      count = entries.length;
+      return [];
+    });
+    logger.info(`Discarded ${count} failed operations`);
+    return count;
+  }
+
+  addListener(listener: DeadLetterListener): void {
+    this.listeners.push(listener);
+  }
+
+  removeListener(listener: DeadLetterListener): void {
+    const index = this.listeners.indexOf(listener);
+    if (index > -1) {
+      this.listeners.splice(index, 1);
+    }
+  }
+
+  // Move matching entries back to the sync queue in one write; returns the
+  // rest. If that write fails, every entry stays here.
+  private async requeue(
+    entries: DeadLetterEntry[],
+    matches: (entry: DeadLetterEntry) => boolean
+  ): Promise<DeadLetterEntry[]> {
+    await offlineStorage.requeueOperations(entries.filter(matches).map((entry) => entry.operation));
+    return entries.filter((entry) => !matches(entry));
+  }
+
+  // Read-modify-write of the stored entries, serialized across callers
+  private update(
+    mutate: (entries: DeadLetterEntry[]) => DeadLetterEntry[] | Promise<DeadLetterEntry[]>
+  ): Promise<void> {
+    return this.mutex.runExclusive(async () => {
+      const entries = await mutate(await this.getEntries());
+      await offlineStorage.store(STORAGE_KEYS.DEAD_LETTER, entries);
+      this.listeners.forEach((listener) => {
+        try {
+          listener(entries);
+        } catch (error) {
+          logger.error('Error in dead-letter listener:', error);
+        }
+      });
+    });
+  }
+}
+
+// Export singleton instance
+export const deadLetterQueue = new DeadLetterQueue();
+
+export default deadLetterQueue;
@@ -0,0 +1,56 @@
+import { offlineStorage, SyncOperationInput } from './offlineStorage';
+import { syncService } from './syncService';
+import { CourseProgress, QuizProgress } from '../types/course';
+
+// Resources learner operations are coalesced and ordered by
+export const progressResourceKey = (courseId: string) => `progress:${courseId}`;
+export const quizAttemptResourceKey = (quizId: string, attempt: number) =>
+  `quizAttempt:${quizId}:${attempt}`;
+
+/**
+ * Queues the learner's changes (progress and quiz results) as sync
+ * operations, so every change reaches the server through the one durable
+ * path, whether or not the device is online right now.
+ *
+ * Bookmarks and notes are part of the course progress and travel with it,
+ * merged field by field against the last synced copy.
+ *
+ * Quiz results ask for a sync straight away. Progress changes constantly
+ * while a lesson plays, so it waits for the next regular sync unless the
+ * caller asks for one.
+ */
+class LearnerSync {
+  async queueProgress(progress: CourseProgress, { syncNow = false } = {}): Promise<string> {
+    const operation: SyncOperationInput = {
+      type: 'UPDATE',
+      entity: 'progress',
+      endpoint: `/courses/${progress.courseId}/progress`,
+      resourceKey: progressResourceKey(progress.courseId),
+      data: progress,
+      priority: 'low',
+    };
+    return syncNow ? this.queue(operation) : offlineStorage.addToSyncQueue(operation);
+  }
+
+  async recordQuizAttempt(courseId: string, result: QuizProgress): Promise<string> {
+    return this.queue({
+      type: 'CREATE',
+      entity: 'quizAttempt',
+      endpoint: `/courses/${courseId}/quizzes/${result.quizId}/attempts`,
+      resourceKey: quizAttemptResourceKey(result.quizId, result.attempts),
+      data: result,
+      priority: 'high',
+    });
+  }
+
+  private async queue(operation: SyncOperationInput): Promise<string> {
+    const id = await offlineStorage.addToSyncQueue(operation);
+    syncService.requestSync();
+    return id;
+  }
+}
+
+// Export singleton instance
+export const learnerSync = new LearnerSync();
+
+export default learnerSync;
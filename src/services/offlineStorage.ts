@@ -1,16 +1,16 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
 import logger from '../utils/logger';
-
-// Storage keys
-const STORAGE_KEYS = {
-  COURSE_DATA: '@teachlink_courses',
-  USER_DATA: '@teachlink_user',
-  SYNC_QUEUE: '@teachlink_sync_queue',
-  SETTINGS: '@teachlink_settings',
-  PROGRESS_DATA: '@teachlink_progress',
-  BOOKMARKS: '@teachlink_bookmarks',
-  NOTES: '@teachlink_notes',
-};
+import { StorageAdapter, StorageWriteEntry } from './storage/types';
+import { asyncStorageAdapter } from './storage/asyncStorageAdapter';
+import { ScopedStorageAdapter } from './storage/scopedStorageAdapter';
+import { entryByteLength } from './storage/utils';
+import { migrationRegistry } from './storage/migrations';
+import { cachePolicies, CachePolicy, Freshness } from './storage/cachePolicies';
+import { STORAGE_KEYS } from './storage/keys';
+import { storageEncryption } from './storage/encryption';
+import { Mutex } from './storage/mutex';
+import './storage/schemas';
+import type { TransportPolicy } from './syncPolicy';
 
 // Generic storage interface
 interface StorageItem<T> {
@@ -19,9 +19,23 @@ interface StorageItem<T> {
   version: number;
 }
 
+// Version given to values written before items carried a version envelope
+const LEGACY_VERSION = 0;
+
 // Sync operation types
 export type SyncOperationType = 'CREATE' | 'UPDATE' | 'DELETE' | 'READ';
 
+// Kind of learner data an operation carries, for operations that need more
+// than a plain request (e.g. conditional progress uploads)
+export type SyncEntity = 'progress' | 'bookmark' | 'note' | 'quizAttempt';
+
+// Outcome of one failed attempt to send an operation
+export interface SyncAttempt {
+  attemptedAt: number;
+  status?: number;
+  message: string;
+}
+
 // Sync operation interface
 export interface SyncOperation {
   id: string;
@@ -32,27 +46,126 @@ export interface SyncOperation {
   retries: number;
   maxRetries: number;
   priority: 'high' | 'medium' | 'low';
+  // Operations on the same resource are coalesced and replayed in order.
+  // Defaults to the endpoint without its query string.
+  resourceKey?: string;
+  // Ids of operations (on other resources) that must be applied first
+  dependsOn?: string[];
+  // Sent with every attempt so the server applies the operation at most once.
+  // Missing on operations queued by older app versions.
+  idempotencyKey?: string;
+  // Failed attempts so far, oldest first
+  attemptHistory?: SyncAttempt[];
+  // Not sent again before this time (ms since epoch) after a failed attempt
+  nextAttemptAt?: number;
+  // Which connections the operation may be sent over; defaults to 'any'
+  transportPolicy?: TransportPolicy;
+  entity?: SyncEntity;
 }
 
 // Input type for addToSyncQueue (without auto-generated fields)
 export type SyncOperationInput = Omit<SyncOperation, 'id' | 'timestamp' | 'retries' | 'maxRetries'>;
 
-class OfflineStorage {
+const PRIORITY_ORDER: Record<SyncOperation['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Resource an operation applies to
+ */
+export function getResourceKey(operation: Pick<SyncOperation, 'endpoint' | 'resourceKey'>): string {
+  return operation.resourceKey ?? operation.endpoint.split('?')[0];
+}
+
+// Listener notified with the keys written or removed by OfflineStorage
+export type StorageChangeListener = (keys: string[]) => void;
+
+// Size and owning course of a cached course or media entry, recorded when it is written
+export interface CacheEntryInfo {
+  courseId: string;
+  bytes: number;
+}
+
+const COURSE_PREFIX = `${STORAGE_KEYS.COURSE_DATA}_`;
+const MEDIA_PREFIX = `${STORAGE_KEYS.MEDIA_CACHE}_`;
+
+const isCacheKey = (key: string) => key.startsWith(COURSE_PREFIX) || key.startsWith(MEDIA_PREFIX);
+
+// The course id is encoded so the `/` after it is the only one: ids containing
+// `_` can't run into each other's media
+const mediaKey = (courseId: string, mediaId: string) =>
+  `${MEDIA_PREFIX}${encodeURIComponent(courseId)}/${mediaId}`;
+
+// Stored data together with how fresh it is
+export interface FreshnessResult<T> {
+  data: T;
+  status: Freshness;
+  storedAt: number;
+  age: number;
+}
+
+export class OfflineStorage {
   private readonly MAX_RETRIES = 3;
   private readonly HIGH_PRIORITY_OPERATIONS: SyncOperationType[] = ['CREATE', 'UPDATE'];
+  private adapter: ScopedStorageAdapter;
+  private changeListeners: StorageChangeListener[] = [];
+  private accessTimes: Promise<Record<string, number>> | null = null;
+  private cacheEntries: Promise<Record<string, CacheEntryInfo>> | null = null;
+  private inFlightOperations = new Set<string>();
+  // Every read-modify-write of the sync queue runs under this lock, so
+  // concurrent completions and enqueues can't overwrite each other
+  private syncQueueMutex = new Mutex();
+
+  constructor(adapter: StorageAdapter = asyncStorageAdapter) {
+    this.adapter = new ScopedStorageAdapter(adapter);
+  }
 
   /**
-   * Store data locally with metadata
+   * Swap the storage backend (e.g. in-memory adapter for tests)
    */
-  async store<T>(key: string, data: T, version: number = 1): Promise<void> {
+  setAdapter(adapter: StorageAdapter): void {
+    const scope = this.adapter.getScope();
+    this.adapter = new ScopedStorageAdapter(adapter);
+    this.adapter.setScope(scope);
+    this.accessTimes = null;
+    this.cacheEntries = null;
+    logger.info(`Offline storage adapter set to: ${adapter.name}`);
+  }
+
+  /**
+   * Adapter resolving keys in the current account's scope
+   */
+  getAdapter(): StorageAdapter {
+    return this.adapter;
+  }
+
+  /**
+   * Switch the account that user-scoped keys belong to (null when signed out).
+   * Data written while signed out is handed to the next account that signs in.
+   */
+  async setUserScope(userId: string | null): Promise<void> {
+    this.adapter.setScope(userId);
+
+    if (userId) {
+      const adopted = await this.adapter.adoptUnscopedData();
+      if (adopted > 0) {
+        logger.info(`Moved ${adopted} signed-out items into the current account`);
+      }
+    }
+    logger.info(`Offline storage scope set to: ${userId ?? 'signed out'}`);
+  }
+
+  getUserScope(): string | null {
+    return this.adapter.getScope();
+  }
+
+  /**
+   * Store data locally with metadata.
+   * The version defaults to the current schema version of the key's family.
+   */
+  async store<T>(key: string, data: T, version?: number): Promise<void> {
     try {
-      const item: StorageItem<T> = {
-        data,
-        timestamp: Date.now(),
-        version,
-      };
-      await AsyncStorage.setItem(key, JSON.stringify(item));
+      await this.adapter.setItem(key, await this.encode(key, data, version));
       logger.info(`Stored data for key: ${key}`);
+      this.notifyChange([key]);
     } catch (error) {
       logger.error(`Error storing data for key ${key}:`, error);
       throw error;
@@ -60,27 +173,222 @@ class OfflineStorage {
   }
 
   /**
-   * Retrieve data from local storage
+   * Retrieve data from local storage, upgrading it to the current schema version
    */
   async retrieve<T>(key: string): Promise<T | null> {
     try {
-      const itemStr = await AsyncStorage.getItem(key);
-      if (!itemStr) return null;
-      
-      const item: StorageItem<T> = JSON.parse(itemStr);
-      return item.data;
+      const item = await this.readItem<T>(key);
+      return item ? item.data : null;
+    } catch (error) {
+      logger.error(`Error retrieving data for key ${key}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Retrieve data along with its freshness under the key's cache policy.
+   * Pass a policy to override the family policy for this key.
+   */
+  async retrieveWithFreshness<T>(
+    key: string,
+    policy?: CachePolicy
+  ): Promise<FreshnessResult<T> | null> {
+    try {
+      const item = await this.readItem<T>(key);
+      if (!item) return null;
+
+      const now = Date.now();
+      return {
+        data: item.data,
+        status: cachePolicies.evaluate(item.timestamp, policy ?? cachePolicies.getPolicy(key), now),
+        storedAt: item.timestamp,
+        age: now - item.timestamp,
+      };
     } catch (error) {
       logger.error(`Error retrieving data for key ${key}:`, error);
       return null;
     }
   }
 
+  /**
+   * Store several items in a single adapter write
+   */
+  async storeMany<T>(items: Record<string, T>, version?: number): Promise<void> {
+    try {
+      const timestamp = Date.now();
+      const entries: StorageWriteEntry[] = await Promise.all(
+        Object.entries(items).map(async ([key, data]): Promise<StorageWriteEntry> => [
+          key,
+          await this.encode(key, data, version, timestamp),
+        ])
+      );
+      await this.adapter.multiSet(entries);
+      logger.info(`Stored data for ${entries.length} keys`);
+      this.notifyChange(entries.map(([key]) => key));
+    } catch (error) {
+      logger.error('Error storing multiple items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieve several items in a single adapter read (missing keys are omitted)
+   */
+  async retrieveMany<T>(keys: string[]): Promise<Record<string, T>> {
+    try {
+      const entries = await this.adapter.multiGet(keys);
+      return await this.decodeEntries<T>(entries);
+    } catch (error) {
+      logger.error('Error retrieving multiple items:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Retrieve every item whose key starts with the given prefix
+   */
+  async retrieveByPrefix<T>(prefix: string): Promise<Record<string, T>> {
+    try {
+      const entries = await this.adapter.query({ prefix });
+      return await this.decodeEntries<T>(entries);
+    } catch (error) {
+      logger.error(`Error retrieving data for prefix ${prefix}:`, error);
+      return {};
+    }
+  }
+
+  /**
+   * Read a user-scoped key in every account on the device, and as stored
+   * while signed out, rather than only in the current account. Read-only:
+   * values are upgraded in memory but not written back.
+   */
+  async retrieveFromEveryAccount<T>(key: string): Promise<T[]> {
+    const base = this.adapter.getBaseAdapter();
+    const physicalKeys = (await base.getAllKeys()).filter(
+      physicalKey => this.adapter.toLogicalKey(physicalKey) === key
+    );
+    const values: T[] = [];
+
+    for (const [physicalKey, value] of await base.multiGet(physicalKeys)) {
+      if (!value) continue;
+      try {
+        const { item } = await this.decode<T>(key, value);
+        values.push(item.data);
+      } catch (error) {
+        logger.error(`Error parsing data for key ${physicalKey}:`, error);
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Upgrade every stored item of every registered key family, and seal any
+   * protected values still stored in plaintext.
+   * Run at app start so later reads never pay the migration cost.
+   */
+  async runMigrations(): Promise<number> {
+    let migratedCount = 0;
+    const prefixes = new Set<string>(storageEncryption.getProtectedPrefixes());
+    migrationRegistry.getFamilies().forEach(family => {
+      if (family.prefix !== undefined) prefixes.add(family.prefix);
+    });
+
+    for (const prefix of Array.from(prefixes)) {
+      try {
+        const entries = await this.adapter.query({ prefix });
+        const updates: StorageWriteEntry[] = [];
+
+        for (const [key, value] of entries) {
+          try {
+            const { item, migrated } = await this.decode(key, value);
+            if (migrated) {
+              updates.push([key, await this.serialize(key, item)]);
+            }
+          } catch (error) {
+            logger.error(`Error migrating data for key ${key}:`, error);
+          }
+        }
+
+        await this.writeBack(updates);
+        migratedCount += updates.length;
+      } catch (error) {
+        logger.error(`Error running migrations for ${prefix}:`, error);
+      }
+    }
+
+    if (migratedCount > 0) {
+      logger.info(`Migrated ${migratedCount} stored items`);
+    }
+    return migratedCount;
+  }
+
+  /**
+   * Seal every protected entry with a freshly generated key.
+   * The previous key is only discarded once every entry was re-encrypted,
+   * so nothing becomes unreadable if the rotation is interrupted.
+   */
+  async rotateEncryptionKey(): Promise<number> {
+    // The queue is only ever written under its lock
+    return this.syncQueueMutex.runExclusive(() => this.reencryptProtectedEntries());
+  }
+
+  private async reencryptProtectedEntries(): Promise<number> {
+    const previousKid = await storageEncryption.rotateKey();
+    // Every account's data is re-sealed, not just the signed-in one
+    const base = this.adapter.getBaseAdapter();
+    let reencryptedCount = 0;
+    let failedCount = 0;
+
+    try {
+      const physicalKeys = (await base.getAllKeys()).filter(key =>
+        storageEncryption.isProtected(this.adapter.toLogicalKey(key))
+      );
+      const entries = await base.multiGet(physicalKeys);
+      const read = new Map(entries);
+      const updates: StorageWriteEntry[] = [];
+
+      for (const [physicalKey, value] of entries) {
+        if (!value) continue;
+        const key = this.adapter.toLogicalKey(physicalKey);
+        try {
+          const { item } = await this.decode(key, value);
+          updates.push([physicalKey, await this.serialize(key, item)]);
+        } catch (error) {
+          failedCount++;
+          logger.error(`Error re-encrypting data for key ${physicalKey}:`, error);
+        }
+      }
+
+      // Anything written since is already sealed with the new key; writing
+      // the copy read above would lose that change
+      const current = new Map(await base.multiGet(updates.map(([physicalKey]) => physicalKey)));
+      const resealed = updates.filter(
+        ([physicalKey]) => current.get(physicalKey) === read.get(physicalKey)
+      );
+
+      await base.multiSet(resealed);
+      reencryptedCount = resealed.length;
+    } catch (error) {
+      failedCount++;
+      logger.error('Error re-encrypting stored data:', error);
+    }
+
+    if (failedCount === 0) {
+      await storageEncryption.retireKey(previousKid);
+    } else {
+      logger.warn(`Keeping previous storage key: ${failedCount} entries were not re-encrypted`);
+    }
+
+    logger.info(`Re-encrypted ${reencryptedCount} stored items`);
+    return reencryptedCount;
+  }
+
   /**
    * Check if data exists locally
    */
   async exists(key: string): Promise<boolean> {
     try {
-      const item = await AsyncStorage.getItem(key);
+      const item = await this.adapter.getItem(key);
       return item !== null;
     } catch (error) {
       logger.error(`Error checking existence for key ${key}:`, error);
@@ -93,8 +401,10 @@ class OfflineStorage {
    */
   async remove(key: string): Promise<void> {
     try {
-      await AsyncStorage.removeItem(key);
+      await this.adapter.removeItem(key);
+      await this.forgetCacheEntries([key]);
       logger.info(`Removed data for key: ${key}`);
+      this.notifyChange([key]);
     } catch (error) {
       logger.error(`Error removing data for key ${key}:`, error);
       throw error;
@@ -102,11 +412,28 @@ class OfflineStorage {
   }
 
   /**
-   * Clear all stored data
+   * Remove several keys in a single adapter call
+   */
+  async removeMany(keys: string[]): Promise<void> {
+    try {
+      await this.adapter.multiRemove(keys);
+      await this.forgetCacheEntries(keys);
+      logger.info(`Removed data for ${keys.length} keys`);
+      this.notifyChange(keys);
+    } catch (error) {
+      logger.error('Error removing multiple items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Clear all stored data of the current account and the shared course cache
    */
   async clearAll(): Promise<void> {
     try {
-      await AsyncStorage.clear();
+      await this.adapter.clear();
+      this.accessTimes = null;
+      this.cacheEntries = null;
       logger.info('Cleared all local storage');
     } catch (error) {
       logger.error('Error clearing local storage:', error);
@@ -115,57 +442,226 @@ class OfflineStorage {
   }
 
   /**
-   * Get storage size estimation
+   * Get storage size in bytes, optionally limited to keys under a prefix
    */
-  async getStorageSize(): Promise<number> {
+  async getStorageSize(prefix?: string): Promise<number> {
     try {
-      const keys = await AsyncStorage.getAllKeys();
-      let totalSize = 0;
-      
-      for (const key of keys) {
-        const value = await AsyncStorage.getItem(key);
-        if (value) {
-          totalSize += value.length;
-        }
-      }
-      
-      return totalSize;
+      return await this.adapter.getByteSize(prefix !== undefined ? { prefix } : undefined);
     } catch (error) {
       logger.error('Error getting storage size:', error);
       return 0;
     }
   }
 
+  /**
+   * Get the byte size of every key under a prefix
+   */
+  async getEntrySizes(prefix: string): Promise<Record<string, number>> {
+    try {
+      const entries = await this.adapter.query({ prefix });
+      return entries.reduce<Record<string, number>>((sizes, [key, value]) => {
+        sizes[key] = entryByteLength(key, value);
+        return sizes;
+      }, {});
+    } catch (error) {
+      logger.error(`Error getting entry sizes for prefix ${prefix}:`, error);
+      return {};
+    }
+  }
+
+  // === Change Listeners ===
+
+  addChangeListener(listener: StorageChangeListener): void {
+    this.changeListeners.push(listener);
+  }
+
+  removeChangeListener(listener: StorageChangeListener): void {
+    const index = this.changeListeners.indexOf(listener);
+    if (index > -1) {
+      this.changeListeners.splice(index, 1);
+    }
+  }
+
+  private notifyChange(keys: string[]): void {
+    this.changeListeners.forEach(listener => {
+      try {
+        listener(keys);
+      } catch (error) {
+        logger.error('Error in storage change listener:', error);
+      }
+    });
+  }
+
+  // === Access Tracking ===
+
+  /**
+   * Record that a key was just read or written (used for LRU eviction)
+   */
+  async touch(key: string): Promise<void> {
+    try {
+      const accessTimes = await this.loadAccessTimes();
+      accessTimes[key] = Date.now();
+      await this.saveBookkeeping(STORAGE_KEYS.ACCESS_TIMES, accessTimes);
+    } catch (error) {
+      logger.error(`Error recording access for key ${key}:`, error);
+    }
+  }
+
+  /**
+   * Last access time per tracked key
+   */
+  async getAccessTimes(): Promise<Record<string, number>> {
+    return { ...(await this.loadAccessTimes()) };
+  }
+
+  /**
+   * Drop access records for keys that no longer exist
+   */
+  async forgetAccess(keys: string[]): Promise<void> {
+    const accessTimes = await this.loadAccessTimes();
+    keys.forEach(key => delete accessTimes[key]);
+    await this.saveBookkeeping(STORAGE_KEYS.ACCESS_TIMES, accessTimes);
+  }
+
+  private loadAccessTimes(): Promise<Record<string, number>> {
+    if (!this.accessTimes) {
+      this.accessTimes = this.retrieve<Record<string, number>>(STORAGE_KEYS.ACCESS_TIMES)
+        .then(stored => stored || {});
+    }
+    return this.accessTimes;
+  }
+
+  // Written directly to the adapter: bookkeeping is not a data change
+  private async saveBookkeeping<T>(key: string, data: T): Promise<void> {
+    const item: StorageItem<T> = {
+      data,
+      timestamp: Date.now(),
+      version: migrationRegistry.getVersionForKey(key),
+    };
+    await this.adapter.setItem(key, JSON.stringify(item));
+  }
+
+  // === Cache Entry Tracking ===
+
+  /**
+   * Size and course of every cached course and media entry. Recorded when an
+   * entry is written, so checking the cache budgets never reads the values.
+   */
+  async getCacheEntries(): Promise<Record<string, CacheEntryInfo>> {
+    return { ...(await this.loadCacheEntries()) };
+  }
+
+  /**
+   * Write a course or media entry and record its size
+   */
+  private async storeCacheEntry<T>(key: string, courseId: string, data: T): Promise<void> {
+    try {
+      const value = await this.encode(key, data);
+      await this.adapter.setItem(key, value);
+
+      // Recorded before listeners hear of the write, so quota checks see it
+      const entries = await this.loadCacheEntries();
+      entries[key] = { courseId, bytes: entryByteLength(key, value) };
+      await this.saveBookkeeping(STORAGE_KEYS.CACHE_ENTRIES, entries);
+
+      logger.info(`Stored data for key: ${key}`);
+      this.notifyChange([key]);
+    } catch (error) {
+      logger.error(`Error storing data for key ${key}:`, error);
+      throw error;
+    }
+  }
+
+  private async forgetCacheEntries(keys: string[]): Promise<void> {
+    const cacheKeys = keys.filter(isCacheKey);
+    if (cacheKeys.length === 0) return;
+
+    const entries = await this.loadCacheEntries();
+    const known = cacheKeys.filter(key => key in entries);
+    if (known.length === 0) return;
+    known.forEach(key => delete entries[key]);
+    await this.saveBookkeeping(STORAGE_KEYS.CACHE_ENTRIES, entries);
+  }
+
+  private loadCacheEntries(): Promise<Record<string, CacheEntryInfo>> {
+    if (!this.cacheEntries) {
+      this.cacheEntries = this.retrieve<Record<string, CacheEntryInfo>>(STORAGE_KEYS.CACHE_ENTRIES)
+        .then(stored => stored || this.indexCacheEntries());
+    }
+    return this.cacheEntries;
+  }
+
+  /**
+   * One-off scan of entries cached before their sizes were recorded
+   */
+  private async indexCacheEntries(): Promise<Record<string, CacheEntryInfo>> {
+    const [courseSizes, mediaSizes] = await Promise.all([
+      this.getEntrySizes(COURSE_PREFIX),
+      this.getEntrySizes(MEDIA_PREFIX),
+    ]);
+    const entries: Record<string, CacheEntryInfo> = {};
+
+    Object.entries(courseSizes).forEach(([key, bytes]) => {
+      entries[key] = { courseId: key.slice(COURSE_PREFIX.length), bytes };
+    });
+
+    // Media cached by older versions is keyed `<courseId>_<mediaId>`, which
+    // can't be told apart when ids contain `_`; the longest cached course the
+    // key starts with is the best guess
+    const courseIds = Object.values(entries)
+      .map(entry => entry.courseId)
+      .sort((a, b) => b.length - a.length);
+    Object.entries(mediaSizes).forEach(([key, bytes]) => {
+      const rest = key.slice(MEDIA_PREFIX.length);
+      const separator = rest.indexOf('/');
+      const courseId = separator > -1
+        ? decodeURIComponent(rest.slice(0, separator))
+        : courseIds.find(id => rest.startsWith(`${id}_`)) ?? rest.split('_')[0];
+      entries[key] = { courseId, bytes };
+    });
+
+    await this.saveBookkeeping(STORAGE_KEYS.CACHE_ENTRIES, entries);
+    return entries;
+  }
+
   // === Course Data Methods ===
 
   async storeCourse(courseId: string, courseData: any): Promise<void> {
     const key = `${STORAGE_KEYS.COURSE_DATA}_${courseId}`;
-    await this.store(key, courseData);
+    // Touch first so quota enforcement triggered by the write sees it as recent
+    await this.touch(key);
+    await this.storeCacheEntry(key, courseId, courseData);
   }
 
   async getCourse(courseId: string): Promise<any | null> {
     const key = `${STORAGE_KEYS.COURSE_DATA}_${courseId}`;
-    return await this.retrieve(key);
+    const course = await this.retrieve(key);
+    if (course) {
+      await this.touch(key);
+    }
+    return course;
   }
 
   async getAllCourses(): Promise<any[]> {
-    try {
-      const keys = await AsyncStorage.getAllKeys();
-      const courseKeys = keys.filter(key => key.startsWith(STORAGE_KEYS.COURSE_DATA));
-      
-      const courses = [];
-      for (const key of courseKeys) {
-        const course = await this.retrieve(key);
-        if (course) {
-          courses.push(course);
-        }
-      }
-      
-      return courses;
-    } catch (error) {
-      logger.error('Error getting all courses:', error);
-      return [];
+    const courses = await this.retrieveByPrefix<any>(`${STORAGE_KEYS.COURSE_DATA}_`);
+    return Object.values(courses);
+  }
+
+  // === Media Cache Methods ===
+
+  async storeMedia(courseId: string, mediaId: string, mediaData: any): Promise<void> {
+    const key = mediaKey(courseId, mediaId);
+    await this.touch(key);
+    await this.storeCacheEntry(key, courseId, mediaData);
+  }
+
+  async getMedia(courseId: string, mediaId: string): Promise<any | null> {
+    const key = mediaKey(courseId, mediaId);
+    const media = await this.retrieve(key);
+    if (media) {
+      await this.touch(key);
     }
+    return media;
   }
 
   // === Progress Data Methods ===
@@ -208,30 +704,24 @@ class OfflineStorage {
 
   // === Sync Queue Methods ===
 
+  /**
+   * Queue an operation, coalescing it with the pending operation on the same
+   * resource: consecutive UPDATEs collapse to the last, CREATE then DELETE
+   * cancels out. Returns the id the change is queued under (cancelled changes
+   * get an id that is no longer in the queue).
+   */
   async addToSyncQueue(operation: SyncOperationInput): Promise<string> {
     try {
-      const queue = await this.getSyncQueue();
-      
       const syncOp: SyncOperation = {
         id: this.generateOperationId(),
+        idempotencyKey: Crypto.randomUUID(),
         ...operation,
         timestamp: Date.now(),
         retries: 0,
         maxRetries: this.MAX_RETRIES,
       };
 
-      queue.push(syncOp);
-      
-      // Sort by priority and timestamp
-      queue.sort((a, b) => {
-        const priorityOrder = { high: 0, medium: 1, low: 2 };
-        if (priorityOrder[a.priority] !== priorityOrder[b.priority]) {
-          return priorityOrder[a.priority] - priorityOrder[b.priority];
-        }
-        return a.timestamp - b.timestamp;
-      });
-
-      await this.store(STORAGE_KEYS.SYNC_QUEUE, queue);
+      await this.updateSyncQueue(queue => this.coalesce(queue, syncOp));
       logger.info(`Added operation to sync queue: ${syncOp.type} ${syncOp.endpoint}`);
       
       return syncOp.id;
@@ -241,38 +731,105 @@ class OfflineStorage {
     }
   }
 
+  /**
+   * Operations being sent right now are left alone by coalescing
+   */
+  markOperationInFlight(operationId: string, inFlight: boolean): void {
+    if (inFlight) {
+      this.inFlightOperations.add(operationId);
+    } else {
+      this.inFlightOperations.delete(operationId);
+    }
+  }
+
   async getSyncQueue(): Promise<SyncOperation[]> {
-    const queue = await this.retrieve<SyncOperation[]>(STORAGE_KEYS.SYNC_QUEUE);
-    return queue || [];
+    return this.syncQueueMutex.runExclusive(() => this.readSyncQueue());
+  }
+
+  // Only called under the sync queue lock, so the queue can be written back
+  // migrated or resealed
+  private async readSyncQueue(): Promise<SyncOperation[]> {
+    try {
+      const item = await this.readItem<SyncOperation[]>(STORAGE_KEYS.SYNC_QUEUE, true);
+      return item?.data || [];
+    } catch (error) {
+      logger.error(`Error retrieving data for key ${STORAGE_KEYS.SYNC_QUEUE}:`, error);
+      return [];
+    }
   }
 
   async removeFromSyncQueue(operationId: string): Promise<void> {
     try {
-      const queue = await this.getSyncQueue();
-      const filteredQueue = queue.filter(op => op.id !== operationId);
-      await this.store(STORAGE_KEYS.SYNC_QUEUE, filteredQueue);
+      await this.updateSyncQueue(queue => queue.filter(op => op.id !== operationId));
       logger.info(`Removed operation from sync queue: ${operationId}`);
     } catch (error) {
       logger.error(`Error removing operation ${operationId} from sync queue:`, error);
     }
   }
 
-  async incrementRetryCount(operationId: string): Promise<void> {
+  /**
+   * Count a failed attempt, recording what went wrong and when to try again
+   * when given
+   */
+  async incrementRetryCount(
+    operationId: string,
+    attempt?: SyncAttempt,
+    nextAttemptAt?: number
+  ): Promise<void> {
     try {
-      const queue = await this.getSyncQueue();
-      const operation = queue.find(op => op.id === operationId);
-      
-      if (operation) {
-        operation.retries += 1;
-        await this.store(STORAGE_KEYS.SYNC_QUEUE, queue);
-      }
+      await this.updateSyncQueue(queue =>
+        queue.map(op =>
+          op.id === operationId
+            ? {
+                ...op,
+                retries: op.retries + 1,
+                attemptHistory: attempt ? [...(op.attemptHistory || []), attempt] : op.attemptHistory,
+                nextAttemptAt,
+              }
+            : op
+        )
+      );
     } catch (error) {
       logger.error(`Error incrementing retry count for operation ${operationId}:`, error);
     }
   }
 
+  /**
+   * Put previously failed operations back in the queue as they are, keeping
+   * their ids and idempotency keys so the server can still recognize them.
+   * All of them go back in one write, or none do.
+   */
+  async requeueOperations(operations: SyncOperation[]): Promise<void> {
+    if (operations.length === 0) return;
+
+    const ids = new Set(operations.map(op => op.id));
+    try {
+      await this.updateSyncQueue(queue => [
+        ...queue.filter(op => !ids.has(op.id)),
+        ...operations.map(op => ({ ...op, retries: 0, nextAttemptAt: undefined })),
+      ]);
+      logger.info(`Requeued ${operations.length} operations`);
+    } catch (error) {
+      logger.error('Error requeueing operations:', error);
+      throw error;
+    }
+  }
+
   async clearSyncQueue(): Promise<void> {
-    await this.store(STORAGE_KEYS.SYNC_QUEUE, []);
+    await this.updateSyncQueue(() => []);
+  }
+
+  /**
+   * Atomically replace the sync queue with `update(queue)`, kept sorted
+   */
+  async updateSyncQueue(
+    update: (queue: SyncOperation[]) => SyncOperation[]
+  ): Promise<SyncOperation[]> {
+    return this.syncQueueMutex.runExclusive(async () => {
+      const queue = this.sortQueue(update(await this.readSyncQueue()));
+      await this.store(STORAGE_KEYS.SYNC_QUEUE, queue);
+      return queue;
+    });
   }
 
   async getPendingOperationsCount(): Promise<number> {
@@ -287,17 +844,217 @@ class OfflineStorage {
 
   // === Utility Methods ===
 
+  // Sort by priority and timestamp
+  private sortQueue(queue: SyncOperation[]): SyncOperation[] {
+    return queue.sort((a, b) => {
+      if (PRIORITY_ORDER[a.priority] !== PRIORITY_ORDER[b.priority]) {
+        return PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority];
+      }
+      return a.timestamp - b.timestamp;
+    });
+  }
+
+  /**
+   * Merge a new operation into the queue.
+   * Only the latest pending operation on the resource is merged with, and only
+   * if it has never been sent: once attempted, the server may already have
+   * applied it, so it has to be replayed as is.
+   */
+  private coalesce(queue: SyncOperation[], operation: SyncOperation): SyncOperation[] {
+    const resourceKey = getResourceKey(operation);
+    const sameResource = queue.filter(op => getResourceKey(op) === resourceKey);
+    const previous = sameResource[sameResource.length - 1];
+
+    // Earlier operations on the resource must not be overtaken by a higher priority one
+    const promote = (op: SyncOperation): SyncOperation =>
+      getResourceKey(op) === resourceKey &&
+      PRIORITY_ORDER[op.priority] > PRIORITY_ORDER[operation.priority]
+        ? { ...op, priority: operation.priority }
+        : op;
+
+    if (!previous || previous.retries > 0 || this.inFlightOperations.has(previous.id)) {
+      return [...queue.map(promote), operation];
+    }
+
+    // Operations that depended on the replaced one now depend on its replacement
+    const rest = queue
+      .filter(op => op.id !== previous.id)
+      .map(promote)
+      .map(op =>
+        op.dependsOn?.includes(previous.id)
+          ? { ...op, dependsOn: op.dependsOn.map(id => (id === previous.id ? operation.id : id)) }
+          : op
+      );
+    const priority =
+      PRIORITY_ORDER[previous.priority] < PRIORITY_ORDER[operation.priority]
+        ? previous.priority
+        : operation.priority;
+    const dependencies = Array.from(
+      new Set([...(previous.dependsOn || []), ...(operation.dependsOn || [])])
+    );
+    const dependsOn = dependencies.length > 0 ? dependencies : undefined;
+
+    switch (`${previous.type}:${operation.type}`) {
+      case 'UPDATE:UPDATE':
+      case 'UPDATE:DELETE':
+        // The last write wins
+        return [...rest, { ...operation, priority, dependsOn }];
+      case 'CREATE:UPDATE':
+        // Still a create, now carrying the latest data
+        return [
+          ...rest,
+          {
+            ...operation,
+            type: 'CREATE',
+            endpoint: previous.endpoint,
+            data: { ...previous.data, ...operation.data },
+            priority,
+            dependsOn,
+          },
+        ];
+      case 'CREATE:DELETE':
+        // The server never saw the resource
+        logger.info(`Cancelled queued create for ${resourceKey}`);
+        return rest;
+      case 'READ:READ':
+        return queue;
+      default:
+        return [...queue.map(promote), operation];
+    }
+  }
+
+  /**
+   * Read and decode a stored item, writing it back if it had to be migrated.
+   * The sync queue is only written back by a read under its lock.
+   */
+  private async readItem<T>(key: string, holdsQueueLock = false): Promise<StorageItem<T> | null> {
+    const itemStr = await this.adapter.getItem(key);
+    if (!itemStr) return null;
+
+    const { item, migrated } = await this.decode<T>(key, itemStr);
+    if (migrated && (key !== STORAGE_KEYS.SYNC_QUEUE || holdsQueueLock)) {
+      await this.adapter.setItem(key, await this.serialize(key, item));
+      logger.info(`Migrated data for key: ${key} to v${item.version}`);
+    }
+    return item;
+  }
+
+  /**
+   * Wrap data in the metadata envelope and encode it for the adapter.
+   * The version defaults to the current schema version of the key's family.
+   */
+  private encode<T>(key: string, data: T, version?: number, timestamp = Date.now()): Promise<string> {
+    return this.serialize(key, {
+      data,
+      timestamp,
+      version: version ?? migrationRegistry.getVersionForKey(key),
+    });
+  }
+
+  /**
+   * Store values that were migrated or resealed on read. The sync queue is
+   * read again and written back under its lock instead, so a stale copy can't
+   * overwrite a queue change made in the meantime.
+   */
+  private async writeBack(updates: StorageWriteEntry[]): Promise<void> {
+    const others = updates.filter(([key]) => key !== STORAGE_KEYS.SYNC_QUEUE);
+    await this.adapter.multiSet(others);
+    if (others.length < updates.length) {
+      await this.getSyncQueue();
+    }
+  }
+
+  /**
+   * Encode an item for the adapter, encrypting it if its key is protected
+   */
+  private async serialize(key: string, item: StorageItem<unknown>): Promise<string> {
+    const json = JSON.stringify(item);
+    if (!storageEncryption.isProtected(key)) {
+      return json;
+    }
+    return JSON.stringify(await storageEncryption.encrypt(json));
+  }
+
+  /**
+   * Parse a raw stored value and upgrade it to its family's current version.
+   * Values without the metadata envelope are treated as legacy (v0) data.
+   * `migrated` is also set when the value has to be re-sealed: protected data
+   * in plaintext or sealed with an old key.
+   */
+  private async decode<T>(
+    key: string,
+    raw: string
+  ): Promise<{ item: StorageItem<T>; migrated: boolean }> {
+    let parsed = JSON.parse(raw);
+    const isProtected = storageEncryption.isProtected(key);
+    let needsReseal = isProtected;
+
+    if (storageEncryption.isEncryptedPayload(parsed)) {
+      needsReseal = !isProtected || !(await storageEncryption.isActiveKey(parsed.kid));
+      parsed = JSON.parse(await storageEncryption.decrypt(parsed));
+    }
+
+    const item: StorageItem<any> = this.isStorageItem(parsed)
+      ? parsed
+      : { data: parsed, timestamp: Date.now(), version: LEGACY_VERSION };
+
+    const family = migrationRegistry.getFamilyForKey(key);
+    if (!family) {
+      return { item, migrated: needsReseal };
+    }
+
+    const result = migrationRegistry.migrate<T>(family.name, item.data, item.version);
+    return {
+      item: { data: result.data, timestamp: item.timestamp, version: result.version },
+      migrated: result.migrated || needsReseal,
+    };
+  }
+
+  private async decodeEntries<T>(entries: [string, string | null][]): Promise<Record<string, T>> {
+    const result: Record<string, T> = {};
+    const updates: StorageWriteEntry[] = [];
+
+    for (const [key, value] of entries) {
+      if (!value) continue;
+      try {
+        const { item, migrated } = await this.decode<T>(key, value);
+        result[key] = item.data;
+        if (migrated) {
+          updates.push([key, await this.serialize(key, item)]);
+        }
+      } catch (error) {
+        logger.error(`Error parsing data for key ${key}:`, error);
+      }
+    }
+
+    if (updates.length > 0) {
+      await this.writeBack(updates);
+    }
+    return result;
+  }
+
+  private isStorageItem(value: any): value is StorageItem<unknown> {
+    return (
+      value !== null &&
+      typeof value === 'object' &&
+      'data' in value &&
+      typeof value.timestamp === 'number' &&
+      typeof value.version === 'number'
+    );
+  }
+
   private generateOperationId(): string {
     return `op_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
   /**
-   * Get all storage keys for debugging
+   * Get all storage keys, optionally limited to a prefix
    */
-  async getAllKeys(): Promise<string[]> {
+  async getAllKeys(prefix?: string): Promise<string[]> {
     try {
-      const keys = await AsyncStorage.getAllKeys();
-      return [...keys]; // Convert readonly array to mutable array
+      return prefix !== undefined
+        ? await this.adapter.queryKeys({ prefix })
+        : await this.adapter.getAllKeys();
     } catch (error) {
       logger.error('Error getting all keys:', error);
       return [];
@@ -0,0 +1,179 @@
+import { CourseProgress, LessonProgress, Note, QuizProgress } from '../types/course';
+
+/**
+ * Three-way merge of CourseProgress edited on more than one device.
+ *
+ * `base` is the snapshot both sides last agreed on (the last successful sync),
+ * or null when there is none. Rules per field:
+ * - lesson completion is a monotonic OR, `timeSpent` takes the max
+ * - `lastPosition` and the current lesson follow the later `lastAccessed`
+ * - notes merge by id, the later `updatedAt` wins; deletes win over older edits
+ * - bookmarks are a set union, minus anything either side removed
+ */
+export function mergeCourseProgress(
+  base: CourseProgress | null,
+  local: CourseProgress,
+  server: CourseProgress
+): CourseProgress {
+  const localIsLatest = local.lastAccessed >= server.lastAccessed;
+  const latest = localIsLatest ? local : server;
+  const other = localIsLatest ? server : local;
+
+  const noteTombstones = mergeTombstones(local.noteTombstones, server.noteTombstones);
+  const bookmarkTombstones = mergeTombstones(local.bookmarkTombstones, server.bookmarkTombstones);
+  const bookmarks = mergeBookmarks(base, local, server);
+
+  // Tombstones of bookmarks that exist again are no longer needed
+  bookmarks.forEach((lessonId) => delete bookmarkTombstones[lessonId]);
+
+  return {
+    ...other,
+    ...latest,
+    lessons: mergeRecords(local.lessons, server.lessons, (a, b) =>
+      mergeLesson(a, b, latest.lessons[a.lessonId])
+    ),
+    quizzes: mergeRecords(local.quizzes, server.quizzes, mergeQuiz),
+    overallProgress: Math.max(local.overallProgress, server.overallProgress),
+    lastAccessed: latest.lastAccessed,
+    revision: server.revision,
+    bookmarks,
+    bookmarkTombstones,
+    notes: mergeNotes(base, local, server, noteTombstones),
+    noteTombstones,
+  };
+}
+
+export function isCourseProgress(value: any): value is CourseProgress {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof value.courseId === 'string' &&
+    typeof value.lessons === 'object' &&
+    Array.isArray(value.bookmarks)
+  );
+}
+
+export function isQuizProgress(value: any): value is QuizProgress {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof value.quizId === 'string' &&
+    typeof value.completed === 'boolean' &&
+    typeof value.attempts === 'number' &&
+    (value.score === undefined || typeof value.score === 'number') &&
+    value.answers !== null &&
+    typeof value.answers === 'object'
+  );
+}
+
+function mergeRecords<T>(
+  local: Record<string, T> = {},
+  server: Record<string, T> = {},
+  merge: (local: T, server: T) => T
+): Record<string, T> {
+  const merged: Record<string, T> = { ...server, ...local };
+  Object.keys(local).forEach((id) => {
+    if (server[id]) merged[id] = merge(local[id], server[id]);
+  });
+  return merged;
+}
+
+function mergeLesson(
+  local: LessonProgress,
+  server: LessonProgress,
+  latest: LessonProgress | undefined
+): LessonProgress {
+  const completedAt = [local.completedAt, server.completedAt].filter(Boolean).sort()[0];
+
+  return {
+    ...local,
+    completed: local.completed || server.completed,
+    completedAt,
+    timeSpent: Math.max(local.timeSpent, server.timeSpent),
+    lastPosition: (latest ?? local).lastPosition,
+  };
+}
+
+export function mergeQuiz(local: QuizProgress, server: QuizProgress): QuizProgress {
+  // The device that attempted the quiz more often has the latest answers
+  const winner = local.attempts >= server.attempts ? local : server;
+  const scores = [local.score, server.score].filter((score): score is number => score !== undefined);
+
+  return {
+    ...winner,
+    completed: local.completed || server.completed,
+    score: scores.length > 0 ? Math.max(...scores) : undefined,
+    attempts: Math.max(local.attempts, server.attempts),
+  };
+}
+
+function mergeTombstones(
+  local: Record<string, string> = {},
+  server: Record<string, string> = {}
+): Record<string, string> {
+  const merged = { ...server };
+  Object.entries(local).forEach(([id, removedAt]) => {
+    if (!merged[id] || merged[id] < removedAt) merged[id] = removedAt;
+  });
+  return merged;
+}
+
+function mergeBookmarks(
+  base: CourseProgress | null,
+  local: CourseProgress,
+  server: CourseProgress
+): string[] {
+  const baseBookmarks = new Set(base?.bookmarks || []);
+
+  // A side removed a bookmark if it lacks one it had at the base, or tombstoned
+  // it since the base. Tombstones already in the base were merged before.
+  const removedBy = (side: CourseProgress, lessonId: string) => {
+    if (side.bookmarks.includes(lessonId)) return false;
+    if (baseBookmarks.has(lessonId)) return true;
+    const removedAt = side.bookmarkTombstones?.[lessonId];
+    return !!removedAt && removedAt !== base?.bookmarkTombstones?.[lessonId];
+  };
+
+  const union = Array.from(new Set([...local.bookmarks, ...server.bookmarks]));
+  return union.filter((lessonId) => !removedBy(local, lessonId) && !removedBy(server, lessonId));
+}
+
+function mergeNotes(
+  base: CourseProgress | null,
+  local: CourseProgress,
+  server: CourseProgress,
+  tombstones: Record<string, string>
+): Record<string, Note[]> {
+  const lessonIds = new Set([...Object.keys(local.notes), ...Object.keys(server.notes)]);
+  const merged: Record<string, Note[]> = {};
+
+  lessonIds.forEach((lessonId) => {
+    const localNotes = local.notes[lessonId] || [];
+    const serverNotes = server.notes[lessonId] || [];
+    const baseNotes = new Map((base?.notes[lessonId] || []).map((note) => [note.id, note]));
+    const byId = new Map<string, Note>();
+
+    [...serverNotes, ...localNotes].forEach((note) => {
+      const existing = byId.get(note.id);
+      if (!existing || existing.updatedAt < note.updatedAt) byId.set(note.id, note);
+    });
+
+    const notes = Array.from(byId.values()).filter((note) => {
+      const deletedAt = tombstones[note.id];
+      if (deletedAt) return note.updatedAt > deletedAt;
+
+      // Missing on one side without a tombstone: deleted there, unless edited since the base
+      const baseNote = baseNotes.get(note.id);
+      const onBothSides =
+        localNotes.some((item) => item.id === note.id) &&
+        serverNotes.some((item) => item.id === note.id);
+      return onBothSides || !baseNote || note.updatedAt > baseNote.updatedAt;
+    });
+
+    if (notes.length > 0) {
+      merged[lessonId] = notes.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+  });
+
+  return merged;
+}
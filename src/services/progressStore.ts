@@ -0,0 +1,92 @@
+import { offlineStorage, STORAGE_KEYS } from './offlineStorage';
+import { Mutex } from './storage/mutex';
+import { CourseProgress } from '../types/course';
+import logger from '../utils/logger';
+
+export type ProgressListener = (courseId: string, progress: CourseProgress) => void;
+
+const progressKey = (courseId: string) => `${STORAGE_KEYS.COURSE_PROGRESS}_${courseId}`;
+
+/**
+ * Single writer for a course's stored progress. The learner's edits, pulled
+ * server changes, upload results and restored backups all read, merge and
+ * write the same record; running them one at a time per course keeps any of
+ * them from writing back a copy that misses what another just merged in.
+ *
+ * Listeners hear of every write, so screens can show the stored copy rather
+ * than edit one they read earlier.
+ */
+class ProgressStore {
+  private locks = new Map<string, Mutex>();
+  private listeners: ProgressListener[] = [];
+
+  /**
+   * Run a read-modify-write of the course's local and synced progress while
+   * no other runs for that course. Not reentrant: the task must write through
+   * `save`, not `update`.
+   */
+  runExclusive<T>(courseId: string, task: () => Promise<T>): Promise<T> {
+    let lock = this.locks.get(courseId);
+    if (!lock) {
+      lock = new Mutex();
+      this.locks.set(courseId, lock);
+    }
+    return lock.runExclusive(task);
+  }
+
+  async get(courseId: string): Promise<CourseProgress | null> {
+    return offlineStorage.retrieve<CourseProgress>(progressKey(courseId));
+  }
+
+  /**
+   * Write the course's local progress. Only call from within `runExclusive`.
+   */
+  async save(courseId: string, progress: CourseProgress): Promise<void> {
+    await offlineStorage.store(progressKey(courseId), progress);
+    this.notifyListeners(courseId, progress);
+  }
+
+  /**
+   * Apply an edit to the stored progress (null when there is none yet) and
+   * resolve to the result. Returning the stored copy unchanged skips the write.
+   */
+  update(
+    courseId: string,
+    edit: (stored: CourseProgress | null) => CourseProgress
+  ): Promise<CourseProgress> {
+    return this.runExclusive(courseId, async () => {
+      const stored = await this.get(courseId);
+      const updated = edit(stored);
+      if (updated !== stored) {
+        await this.save(courseId, updated);
+      }
+      return updated;
+    });
+  }
+
+  addListener(listener: ProgressListener): void {
+    this.listeners.push(listener);
+  }
+
+  removeListener(listener: ProgressListener): void {
+    const index = this.listeners.indexOf(listener);
+    if (index > -1) {
+      this.listeners.splice(index, 1);
+    }
+  }
+
+  private notifyListeners(courseId: string, progress: CourseProgress): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(courseId, progress);
+      } catch (error) {
+        logger.error('Error in progress listener:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const progressStore = new ProgressStore();
+
+export default progressStore;
@@ -112,6 +112,15 @@ async function setupAndroidNotificationChannels(): Promise<void> {
     vibrationPattern: [0, 250],
     lightColor: '#EC4899',
   });
+
+  // Sync problem channel
+  await Notifications.setNotificationChannelAsync('sync', {
+    name: 'Sync Problems',
+    description: 'Changes that could not be saved to your account',
+    importance: Notifications.AndroidImportance.DEFAULT,
+    vibrationPattern: [0, 250],
+    lightColor: '#EF4444',
+  });
 }
 
 /**
@@ -129,6 +138,8 @@ export function getChannelId(type: NotificationType): string {
       return 'achievements';
     case NotificationType.COMMUNITY_ACTIVITY:
       return 'community';
+    case NotificationType.SYNC_FAILURE:
+      return 'sync';
     default:
       return 'default';
   }
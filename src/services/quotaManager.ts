@@ -0,0 +1,329 @@
+import { offlineStorage, STORAGE_KEYS, SyncOperation } from './offlineStorage';
+import { CourseProgress } from '../types/course';
+import logger from '../utils/logger';
+
+// Storage budgets in bytes
+export interface QuotaConfig {
+  courseBudget: number;
+  mediaBudget: number;
+}
+
+// Rule deciding whether a course's cached data must be kept
+export type ProtectionRule = (courseId: string) => Promise<boolean>;
+
+export interface CourseStorageUsage {
+  courseId: string;
+  title?: string;
+  courseBytes: number;
+  mediaBytes: number;
+  totalBytes: number;
+  lastAccessed?: number;
+  isProtected: boolean;
+}
+
+export interface StorageUsage {
+  totalBytes: number;
+  courseBytes: number;
+  mediaBytes: number;
+  config: QuotaConfig;
+  courses: CourseStorageUsage[];
+}
+
+// Cached entry considered for eviction
+interface CacheEntry {
+  key: string;
+  courseId: string;
+  bytes: number;
+  lastAccessed: number;
+}
+
+const COURSE_PREFIX = `${STORAGE_KEYS.COURSE_DATA}_`;
+const MEDIA_PREFIX = `${STORAGE_KEYS.MEDIA_CACHE}_`;
+const PROGRESS_PREFIX = `${STORAGE_KEYS.COURSE_PROGRESS}_`;
+
+/**
+ * Keeps downloaded course and media caches within their byte budgets by
+ * evicting least-recently-used entries. Courses with pending sync operations
+ * or unsynced progress are never evicted. The caches are shared by every
+ * account on the device, so that goes for other accounts' work as well.
+ */
+class QuotaManager {
+  private config: QuotaConfig;
+  private protectionRules: ProtectionRule[] = [];
+  private isEnforcing = false;
+  private pendingEnforce = false;
+  private isStarted = false;
+
+  constructor(config?: Partial<QuotaConfig>) {
+    this.config = {
+      courseBudget: 50 * 1024 * 1024, // 50 MB
+      mediaBudget: 200 * 1024 * 1024, // 200 MB
+      ...config,
+    };
+
+    this.protectionRules = [
+      (courseId) => this.hasPendingSync(courseId),
+      (courseId) => this.hasUnsyncedProgress(courseId),
+    ];
+  }
+
+  /**
+   * Enforce budgets whenever course or media caches are written
+   */
+  start(): void {
+    if (this.isStarted) return;
+    offlineStorage.addChangeListener(this.handleStorageChange);
+    this.isStarted = true;
+    this.enforceQuota();
+  }
+
+  stop(): void {
+    offlineStorage.removeChangeListener(this.handleStorageChange);
+    this.isStarted = false;
+  }
+
+  setConfig(config: Partial<QuotaConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): QuotaConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Register an extra rule that can veto eviction of a course
+   */
+  addProtectionRule(rule: ProtectionRule): void {
+    this.protectionRules.push(rule);
+  }
+
+  async isCourseProtected(courseId: string): Promise<boolean> {
+    for (const rule of this.protectionRules) {
+      try {
+        if (await rule(courseId)) return true;
+      } catch (error) {
+        // Err on the side of keeping data when a rule cannot decide
+        logger.error(`Error checking protection for course ${courseId}:`, error);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Usage broken down per course
+   */
+  async getUsage(): Promise<StorageUsage> {
+    const [courseEntries, mediaEntries, courses] = await Promise.all([
+      this.getEntries(COURSE_PREFIX),
+      this.getEntries(MEDIA_PREFIX),
+      offlineStorage.retrieveByPrefix<any>(COURSE_PREFIX),
+    ]);
+
+    const usage = new Map<string, CourseStorageUsage>();
+    const getCourseUsage = (courseId: string): CourseStorageUsage => {
+      let entry = usage.get(courseId);
+      if (!entry) {
+        entry = {
+          courseId,
+          title: courses[`${COURSE_PREFIX}${courseId}`]?.title,
+          courseBytes: 0,
+          mediaBytes: 0,
+          totalBytes: 0,
+          isProtected: false,
+        };
+        usage.set(courseId, entry);
+      }
+      return entry;
+    };
+
+    courseEntries.forEach((entry) => {
+      const course = getCourseUsage(entry.courseId);
+      course.courseBytes += entry.bytes;
+      course.lastAccessed = Math.max(course.lastAccessed ?? 0, entry.lastAccessed);
+    });
+    mediaEntries.forEach((entry) => {
+      const course = getCourseUsage(entry.courseId);
+      course.mediaBytes += entry.bytes;
+      course.lastAccessed = Math.max(course.lastAccessed ?? 0, entry.lastAccessed);
+    });
+
+    const courseUsage = Array.from(usage.values());
+    for (const course of courseUsage) {
+      course.totalBytes = course.courseBytes + course.mediaBytes;
+      course.isProtected = await this.isCourseProtected(course.courseId);
+    }
+    courseUsage.sort((a, b) => b.totalBytes - a.totalBytes);
+
+    const courseBytes = courseEntries.reduce((total, entry) => total + entry.bytes, 0);
+    const mediaBytes = mediaEntries.reduce((total, entry) => total + entry.bytes, 0);
+
+    return {
+      totalBytes: courseBytes + mediaBytes,
+      courseBytes,
+      mediaBytes,
+      config: this.getConfig(),
+      courses: courseUsage,
+    };
+  }
+
+  /**
+   * Evict least-recently-used entries until every cache fits its budget.
+   * Returns the evicted keys.
+   */
+  async enforceQuota(): Promise<string[]> {
+    if (this.isEnforcing) {
+      this.pendingEnforce = true;
+      return [];
+    }
+
+    this.isEnforcing = true;
+    const evicted: string[] = [];
+
+    try {
+      evicted.push(...(await this.evict(COURSE_PREFIX, this.config.courseBudget)));
+      evicted.push(...(await this.evict(MEDIA_PREFIX, this.config.mediaBudget)));
+
+      if (evicted.length > 0) {
+        logger.info(`Quota enforcement evicted ${evicted.length} cached items`);
+      }
+    } catch (error) {
+      logger.error('Error enforcing storage quota:', error);
+    } finally {
+      this.isEnforcing = false;
+    }
+
+    if (this.pendingEnforce) {
+      this.pendingEnforce = false;
+      evicted.push(...(await this.enforceQuota()));
+    }
+
+    return evicted;
+  }
+
+  /**
+   * Remove a course's cached content and media.
+   * Protected courses are kept unless `force` is set.
+   */
+  async purgeCourse(courseId: string, force: boolean = false): Promise<boolean> {
+    if (!force && (await this.isCourseProtected(courseId))) {
+      logger.warn(`Not purging course ${courseId}: it has unsynced data`);
+      return false;
+    }
+
+    const mediaKeys = (await this.getEntries(MEDIA_PREFIX))
+      .filter((entry) => entry.courseId === courseId)
+      .map((entry) => entry.key);
+    const keys = [`${COURSE_PREFIX}${courseId}`, ...mediaKeys];
+
+    await offlineStorage.removeMany(keys);
+    await offlineStorage.forgetAccess(keys);
+    logger.info(`Purged cached data for course ${courseId}`);
+    return true;
+  }
+
+  /**
+   * Remove every unprotected course from the cache
+   */
+  async purgeAll(): Promise<number> {
+    const usage = await this.getUsage();
+    let purged = 0;
+
+    for (const course of usage.courses) {
+      if (!course.isProtected && (await this.purgeCourse(course.courseId))) {
+        purged++;
+      }
+    }
+
+    return purged;
+  }
+
+  private handleStorageChange = (keys: string[]): void => {
+    // Ignore the removals made by enforcement itself
+    if (this.isEnforcing) return;
+    if (keys.some((key) => key.startsWith(COURSE_PREFIX) || key.startsWith(MEDIA_PREFIX))) {
+      this.enforceQuota();
+    }
+  };
+
+  private async evict(prefix: string, budget: number): Promise<string[]> {
+    const entries = await this.getEntries(prefix);
+    let usedBytes = entries.reduce((total, entry) => total + entry.bytes, 0);
+    if (usedBytes <= budget) return [];
+
+    // Oldest access first
+    entries.sort((a, b) => a.lastAccessed - b.lastAccessed);
+
+    const evicted: string[] = [];
+    const protectedCourses = new Map<string, boolean>();
+
+    for (const entry of entries) {
+      if (usedBytes <= budget) break;
+
+      if (!protectedCourses.has(entry.courseId)) {
+        protectedCourses.set(entry.courseId, await this.isCourseProtected(entry.courseId));
+      }
+      if (protectedCourses.get(entry.courseId)) continue;
+
+      evicted.push(entry.key);
+      usedBytes -= entry.bytes;
+    }
+
+    if (evicted.length > 0) {
+      await offlineStorage.removeMany(evicted);
+      await offlineStorage.forgetAccess(evicted);
+    }
+
+    if (usedBytes > budget) {
+      logger.warn(`Cache under ${prefix} is over budget but remaining entries are protected`);
+    }
+
+    return evicted;
+  }
+
+  // Sizes come from what was recorded at write time; the values aren't read
+  private async getEntries(prefix: string): Promise<CacheEntry[]> {
+    const [cacheEntries, accessTimes] = await Promise.all([
+      offlineStorage.getCacheEntries(),
+      offlineStorage.getAccessTimes(),
+    ]);
+
+    return Object.entries(cacheEntries)
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, { courseId, bytes }]) => ({
+        key,
+        courseId,
+        bytes,
+        // Entries never accessed through the tracker are treated as oldest
+        lastAccessed: accessTimes[key] ?? 0,
+      }));
+  }
+
+  private async hasPendingSync(courseId: string): Promise<boolean> {
+    const queues = await offlineStorage.retrieveFromEveryAccount<SyncOperation[]>(STORAGE_KEYS.SYNC_QUEUE);
+    return queues.some((queue) =>
+      queue.some((op: SyncOperation) => this.operationTouchesCourse(op, courseId))
+    );
+  }
+
+  private operationTouchesCourse(operation: SyncOperation, courseId: string): boolean {
+    const segments = operation.endpoint.split(/[/?]/);
+    const courseIndex = segments.indexOf('courses');
+    return (
+      (courseIndex > -1 && segments[courseIndex + 1] === courseId) ||
+      operation.data?.courseId === courseId
+    );
+  }
+
+  private async hasUnsyncedProgress(courseId: string): Promise<boolean> {
+    const copies = await offlineStorage.retrieveFromEveryAccount<CourseProgress>(`${PROGRESS_PREFIX}${courseId}`);
+    return copies.some(
+      (progress) => !progress.lastSyncedAt || progress.lastSyncedAt < progress.lastAccessed
+    );
+  }
+}
+
+// Export singleton instance
+export const quotaManager = new QuotaManager();
+
+export default quotaManager;
@@ -0,0 +1,166 @@
+import { offlineStorage, STORAGE_KEYS } from './offlineStorage';
+import { mergeCourseProgress } from './progressMerge';
+import { progressStore } from './progressStore';
+import { useNotificationStore } from '../store/notificationStore';
+import { CourseProgress, Note } from '../types/course';
+import logger from '../utils/logger';
+
+export type RemoteEntity = 'course' | 'progress' | 'note' | 'bookmark' | 'notification';
+
+// One change reported by GET /sync/changes
+export interface RemoteChange {
+  entity: RemoteEntity;
+  // Course id for course/progress, note id, bookmarked lesson id or notification id
+  id: string;
+  courseId?: string;
+  lessonId?: string;
+  deleted?: boolean;
+  data?: any;
+  revision?: string;
+  changedAt: string;
+}
+
+export interface RemoteChangesPage {
+  changes: RemoteChange[];
+  cursor: string;
+  hasMore?: boolean;
+}
+
+const syncedProgressKey = (courseId: string) => `${STORAGE_KEYS.SYNCED_PROGRESS}_${courseId}`;
+
+/**
+ * Apply a page of server changes to local storage. Progress, notes and
+ * bookmarks are folded into the server's copy of the course progress and
+ * merged with local edits the same way an upload conflict is.
+ *
+ * Returns the ids of courses whose progress changed.
+ */
+export async function applyRemoteChanges(changes: RemoteChange[]): Promise<string[]> {
+  const progressChanges = new Map<string, RemoteChange[]>();
+
+  for (const change of changes) {
+    switch (change.entity) {
+      case 'course':
+        await applyCourseChange(change);
+        break;
+      case 'notification':
+        applyNotificationChange(change);
+        break;
+      case 'progress':
+      case 'note':
+      case 'bookmark': {
+        const courseId = change.entity === 'progress' ? change.id : change.courseId;
+        if (!courseId) {
+          logger.warn(`Ignoring ${change.entity} change without a course: ${change.id}`);
+          break;
+        }
+        progressChanges.set(courseId, [...(progressChanges.get(courseId) || []), change]);
+        break;
+      }
+      default:
+        logger.warn(`Ignoring change for unknown entity: ${change.entity}`);
+    }
+  }
+
+  for (const [courseId, courseChanges] of Array.from(progressChanges.entries())) {
+    await applyProgressChanges(courseId, courseChanges);
+  }
+  return Array.from(progressChanges.keys());
+}
+
+async function applyCourseChange(change: RemoteChange): Promise<void> {
+  if (change.deleted) {
+    await offlineStorage.remove(`${STORAGE_KEYS.COURSE_DATA}_${change.id}`);
+  } else {
+    await offlineStorage.storeCourse(change.id, change.data);
+  }
+}
+
+function applyNotificationChange(change: RemoteChange): void {
+  if (change.deleted || !change.data) return;
+  useNotificationStore.getState().addNotification(change.data);
+}
+
+// Runs under the course's progress lock, so an edit made meanwhile is neither
+// lost nor overwritten
+function applyProgressChanges(courseId: string, changes: RemoteChange[]): Promise<void> {
+  return progressStore.runExclusive(courseId, async () => {
+    const local = await progressStore.get(courseId);
+    const base = await offlineStorage.retrieve<CourseProgress>(syncedProgressKey(courseId));
+
+    // Rebuild the server's copy from the last one we saw plus the changes.
+    // Without one, note and bookmark changes only tell us part of it.
+    let server = base ?? (local ? partialServerCopy(local) : null);
+    let isComplete = !!base;
+    for (const change of changes) {
+      server = applyToServerCopy(courseId, server, change);
+      if (change.entity === 'progress' && !change.deleted) isComplete = true;
+    }
+    if (!server) return;
+
+    const merged = local ? mergeCourseProgress(base, local, server) : server;
+    // Only a complete copy can be the base of later merges: anything local that
+    // it lacks would count as removed on the server
+    if (isComplete) {
+      await offlineStorage.store(syncedProgressKey(courseId), server);
+    }
+    await progressStore.save(courseId, { ...merged, lastSyncedAt: local?.lastSyncedAt });
+  });
+}
+
+// Stand-in for a server copy we have never seen: only what the changes add to it
+function partialServerCopy(local: CourseProgress): CourseProgress {
+  return {
+    courseId: local.courseId,
+    currentLessonId: local.currentLessonId,
+    currentSectionId: local.currentSectionId,
+    lessons: {},
+    quizzes: {},
+    overallProgress: 0,
+    // Older than any edit, so local position and current lesson win the merge
+    lastAccessed: '',
+    bookmarks: [],
+    notes: {},
+  };
+}
+
+function applyToServerCopy(
+  courseId: string,
+  server: CourseProgress | null,
+  change: RemoteChange
+): CourseProgress | null {
+  if (change.entity === 'progress') {
+    return change.deleted ? server : { ...change.data, courseId, revision: change.revision };
+  }
+  if (!server) {
+    logger.warn(`Ignoring ${change.entity} change for course without progress: ${courseId}`);
+    return null;
+  }
+
+  if (change.entity === 'bookmark') {
+    const bookmarks = server.bookmarks.filter((lessonId) => lessonId !== change.id);
+    const bookmarkTombstones = { ...server.bookmarkTombstones };
+    if (change.deleted) {
+      bookmarkTombstones[change.id] = change.changedAt;
+    } else {
+      bookmarks.push(change.id);
+      delete bookmarkTombstones[change.id];
+    }
+    return { ...server, bookmarks, bookmarkTombstones };
+  }
+
+  const lessonId = change.lessonId ?? (change.data as Note | undefined)?.lessonId;
+  if (!lessonId) {
+    logger.warn(`Ignoring note change without a lesson: ${change.id}`);
+    return server;
+  }
+
+  const notes = (server.notes[lessonId] || []).filter((note) => note.id !== change.id);
+  const noteTombstones = { ...server.noteTombstones };
+  if (change.deleted) {
+    noteTombstones[change.id] = change.changedAt;
+  } else {
+    notes.push(change.data as Note);
+  }
+  return { ...server, notes: { ...server.notes, [lessonId]: notes }, noteTombstones };
+}
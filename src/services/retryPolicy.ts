@@ -0,0 +1,43 @@
+// 4xx replies that can still succeed later: timeouts, conflicts, rate limiting
+const RETRIABLE_CLIENT_STATUSES = [408, 409, 412, 425, 429];
+
+/**
+ * Whether a failed request is worth sending again. Network errors (no reply),
+ * server errors and the statuses above are; other 4xx replies, such as
+ * validation or auth failures, will fail the same way every time.
+ */
+export function isRetriableError(error: any): boolean {
+  const status = error?.response?.status;
+  if (typeof status !== 'number') return true;
+  return status >= 500 || RETRIABLE_CLIENT_STATUSES.includes(status);
+}
+
+/**
+ * Delay the server asked for in a Retry-After header, given either in seconds
+ * or as an HTTP date. Null when there is none or it can't be parsed.
+ */
+export function getRetryAfterMs(error: any, now: number = Date.now()): number | null {
+  const headers = error?.response?.headers;
+  const value = headers?.['retry-after'] ?? headers?.['Retry-After'];
+  if (value === undefined || value === null || value === '') return null;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(value));
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Full-jitter exponential backoff: a random delay between zero and the
+ * exponential ceiling, so clients that failed together don't retry together.
+ */
+export function getBackoffDelay(
+  retryCount: number,
+  baseDelay: number,
+  maxDelay: number,
+  random: () => number = Math.random
+): number {
+  return Math.floor(random() * Math.min(maxDelay, baseDelay * Math.pow(2, retryCount)));
+}
@@ -1,9 +1,18 @@
 import { io, Socket } from "socket.io-client";
+import { authSession, AuthEvent } from "../authSession";
 
 class SocketService {
   private socket: Socket | null = null;
+  // Whether the app wants a connection; a sign-out drops the socket but a
+  // later sign-in brings it back
+  private isWanted = false;
+
+  constructor() {
+    authSession.addEventListener(this.handleAuthEvent);
+  }
 
   connect() {
+    this.isWanted = true;
     if (!this.socket) {
       // Use Expo's native env vars or fallback
       const socketUrl =
@@ -12,6 +21,13 @@ class SocketService {
       this.socket = io(socketUrl, {
         transports: ["websocket"],
         autoConnect: true,
+        // Called on every (re)connect, so reconnects use the latest token
+        auth: (callback) => {
+          authSession
+            .getAccessToken()
+            .then((token) => callback(token ? { token } : {}))
+            .catch(() => callback({}));
+        },
       });
 
       this.socket.on("connect", () => {
@@ -29,7 +45,25 @@ class SocketService {
     return this.socket;
   }
 
+  // Reconnect with a renewed token; drop the connection once signed out
+  private handleAuthEvent = (event: AuthEvent) => {
+    if (event.type === "signedOut" || event.type === "expired") {
+      this.closeSocket();
+    } else if (!this.socket) {
+      if (this.isWanted) this.connect();
+    } else if (this.socket.connected) {
+      this.socket.disconnect().connect();
+    } else {
+      this.socket.connect();
+    }
+  };
+
   disconnect() {
+    this.isWanted = false;
+    this.closeSocket();
+  }
+
+  private closeSocket() {
     if (this.socket) {
       this.socket.disconnect();
       this.socket = null;
@@ -0,0 +1,70 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StorageAdapter, StorageEntry, StorageQuery, StorageWriteEntry } from './types';
+import { applyQuery, entryByteLength } from './utils';
+
+/**
+ * Adapter backed by AsyncStorage.
+ *
+ * AsyncStorage has no native range queries, so queries resolve the key list
+ * once and read every matching value in a single multiGet round trip.
+ */
+export class AsyncStorageAdapter implements StorageAdapter {
+  readonly name = 'async-storage';
+
+  async getItem(key: string): Promise<string | null> {
+    return AsyncStorage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await AsyncStorage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await AsyncStorage.removeItem(key);
+  }
+
+  async multiGet(keys: string[]): Promise<StorageEntry[]> {
+    if (keys.length === 0) return [];
+    const entries = await AsyncStorage.multiGet(keys);
+    return entries.map(([key, value]) => [key, value]);
+  }
+
+  async multiSet(entries: StorageWriteEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await AsyncStorage.multiSet(entries);
+  }
+
+  async multiRemove(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await AsyncStorage.multiRemove(keys);
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    const keys = await AsyncStorage.getAllKeys();
+    return [...keys];
+  }
+
+  async queryKeys(query?: StorageQuery): Promise<string[]> {
+    const keys = await AsyncStorage.getAllKeys();
+    return applyQuery(keys, query);
+  }
+
+  async query(query?: StorageQuery): Promise<StorageWriteEntry[]> {
+    const keys = await this.queryKeys(query);
+    const entries = await this.multiGet(keys);
+    return entries.filter((entry): entry is StorageWriteEntry => entry[1] !== null);
+  }
+
+  async getByteSize(query?: StorageQuery): Promise<number> {
+    const entries = await this.query(query);
+    return entries.reduce((total, [key, value]) => total + entryByteLength(key, value), 0);
+  }
+
+  async clear(): Promise<void> {
+    await AsyncStorage.clear();
+  }
+}
+
+export const asyncStorageAdapter = new AsyncStorageAdapter();
+
+export default asyncStorageAdapter;
@@ -0,0 +1,84 @@
+import { STORAGE_KEYS } from './keys';
+
+/**
+ * How long stored data stays usable.
+ *
+ * Data younger than `maxAge` is fresh. For `staleWhileRevalidate` more
+ * milliseconds it is stale: still shown, but should be refetched. After that
+ * it is expired.
+ */
+export interface CachePolicy {
+  maxAge: number;
+  staleWhileRevalidate: number;
+}
+
+export type Freshness = 'fresh' | 'stale' | 'expired';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+class CachePolicyRegistry {
+  private policies = new Map<string, CachePolicy>();
+
+  /**
+   * Apply a policy to every key under a prefix
+   */
+  register(prefix: string, policy: CachePolicy): void {
+    this.policies.set(prefix, policy);
+  }
+
+  /**
+   * Policy for a key (longest matching prefix wins)
+   */
+  getPolicy(key: string): CachePolicy | undefined {
+    let matchedPrefix: string | undefined;
+    this.policies.forEach((_, prefix) => {
+      if (key.startsWith(prefix) && (!matchedPrefix || prefix.length > matchedPrefix.length)) {
+        matchedPrefix = prefix;
+      }
+    });
+    return matchedPrefix !== undefined ? this.policies.get(matchedPrefix) : undefined;
+  }
+
+  /**
+   * Freshness of data written at `timestamp`. Data without a policy never goes stale.
+   */
+  evaluate(timestamp: number, policy?: CachePolicy, now: number = Date.now()): Freshness {
+    if (!policy) return 'fresh';
+
+    const age = now - timestamp;
+    if (age <= policy.maxAge) return 'fresh';
+    if (age <= policy.maxAge + policy.staleWhileRevalidate) return 'stale';
+    return 'expired';
+  }
+}
+
+// Export singleton instance
+export const cachePolicies = new CachePolicyRegistry();
+
+// Downloaded course content rarely changes once published
+cachePolicies.register(`${STORAGE_KEYS.COURSE_DATA}_`, {
+  maxAge: 6 * HOUR,
+  staleWhileRevalidate: 30 * DAY,
+});
+
+// Server resources cached by useCachedResource (course listings, profiles)
+cachePolicies.register(`${STORAGE_KEYS.RESOURCE_CACHE}_`, {
+  maxAge: 5 * MINUTE,
+  staleWhileRevalidate: 7 * DAY,
+});
+
+// GET responses cached by the API client are revalidated on every request;
+// a copy the server hasn't confirmed in a week is too old to fall back on
+cachePolicies.register(`${STORAGE_KEYS.HTTP_CACHE}_`, {
+  maxAge: 0,
+  staleWhileRevalidate: 7 * DAY,
+});
+
+cachePolicies.register(STORAGE_KEYS.USER_DATA, {
+  maxAge: 15 * MINUTE,
+  staleWhileRevalidate: 30 * DAY,
+});
+
+export default cachePolicies;
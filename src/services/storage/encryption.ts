@@ -0,0 +1,189 @@
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { utf8ToBytes, bytesToUtf8, bytesToHex, hexToBytes } from '@noble/ciphers/utils';
+import { STORAGE_KEYS } from './keys';
+
+// Shape written to the adapter in place of a protected plaintext value
+export interface EncryptedPayload {
+  alg: 'xchacha20poly1305';
+  kid: string;
+  nonce: string;
+  data: string;
+}
+
+// Device-held keys, stored in the platform keychain/keystore
+interface Keyring {
+  activeKid: string;
+  keys: Record<string, string>; // kid -> hex encoded 256-bit key
+}
+
+const KEYRING_STORE_KEY = 'teachlink_storage_keyring';
+const KEY_LENGTH = 32;
+const NONCE_LENGTH = 24;
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Authenticated encryption for storage key families that opt in.
+ *
+ * Values are sealed with XChaCha20-Poly1305 (pure JS, no native module) under
+ * a random key kept in SecureStore. Every payload records the id of the key
+ * that sealed it, so older keys stay usable for reads during rotation.
+ */
+class StorageEncryption {
+  private protectedPrefixes = new Set<string>();
+  private keyring: Promise<Keyring> | null = null;
+
+  /**
+   * Opt a key family into encryption at rest
+   */
+  protect(prefix: string): void {
+    this.protectedPrefixes.add(prefix);
+  }
+
+  isProtected(key: string): boolean {
+    return Array.from(this.protectedPrefixes).some((prefix) => key.startsWith(prefix));
+  }
+
+  getProtectedPrefixes(): string[] {
+    return Array.from(this.protectedPrefixes);
+  }
+
+  isEncryptedPayload(value: any): value is EncryptedPayload {
+    return (
+      value !== null &&
+      typeof value === 'object' &&
+      value.alg === 'xchacha20poly1305' &&
+      typeof value.kid === 'string' &&
+      typeof value.nonce === 'string' &&
+      typeof value.data === 'string'
+    );
+  }
+
+  async encrypt(plaintext: string): Promise<EncryptedPayload> {
+    const keyring = await this.loadKeyring();
+    const key = hexToBytes(keyring.keys[keyring.activeKid]);
+    const nonce = Crypto.getRandomBytes(NONCE_LENGTH);
+    const sealed = xchacha20poly1305(key, nonce).encrypt(utf8ToBytes(plaintext));
+
+    return {
+      alg: 'xchacha20poly1305',
+      kid: keyring.activeKid,
+      nonce: bytesToBase64(nonce),
+      data: bytesToBase64(sealed),
+    };
+  }
+
+  /**
+   * Decrypt a payload; throws if the key is unknown or the data was tampered with
+   */
+  async decrypt(payload: EncryptedPayload): Promise<string> {
+    const keyring = await this.loadKeyring();
+    const hexKey = keyring.keys[payload.kid];
+    if (!hexKey) {
+      throw new Error(`Unknown storage encryption key: ${payload.kid}`);
+    }
+
+    const opened = xchacha20poly1305(hexToBytes(hexKey), base64ToBytes(payload.nonce)).decrypt(
+      base64ToBytes(payload.data)
+    );
+    return bytesToUtf8(opened);
+  }
+
+  async isActiveKey(kid: string): Promise<boolean> {
+    const keyring = await this.loadKeyring();
+    return keyring.activeKid === kid;
+  }
+
+  /**
+   * Make a fresh key active. Previous keys remain available for decryption
+   * until retired. Returns the id of the key that was replaced.
+   */
+  async rotateKey(): Promise<string> {
+    const keyring = await this.loadKeyring();
+    const previousKid = keyring.activeKid;
+    const kid = this.generateKid();
+
+    const updated: Keyring = {
+      activeKid: kid,
+      keys: { ...keyring.keys, [kid]: bytesToHex(Crypto.getRandomBytes(KEY_LENGTH)) },
+    };
+    await this.saveKeyring(updated);
+    return previousKid;
+  }
+
+  /**
+   * Forget a key once nothing is sealed with it anymore
+   */
+  async retireKey(kid: string): Promise<void> {
+    const keyring = await this.loadKeyring();
+    if (kid === keyring.activeKid) {
+      throw new Error('Cannot retire the active storage encryption key');
+    }
+
+    const keys = { ...keyring.keys };
+    delete keys[kid];
+    await this.saveKeyring({ ...keyring, keys });
+  }
+
+  private loadKeyring(): Promise<Keyring> {
+    if (!this.keyring) {
+      this.keyring = SecureStore.getItemAsync(KEYRING_STORE_KEY).then(async (stored) => {
+        if (stored) {
+          return JSON.parse(stored) as Keyring;
+        }
+
+        const kid = this.generateKid();
+        const keyring: Keyring = {
+          activeKid: kid,
+          keys: { [kid]: bytesToHex(Crypto.getRandomBytes(KEY_LENGTH)) },
+        };
+        await SecureStore.setItemAsync(KEYRING_STORE_KEY, JSON.stringify(keyring));
+        return keyring;
+      });
+      // Allow a retry if the keychain was temporarily unavailable
+      this.keyring.catch(() => {
+        this.keyring = null;
+      });
+    }
+    return this.keyring;
+  }
+
+  private async saveKeyring(keyring: Keyring): Promise<void> {
+    await SecureStore.setItemAsync(KEYRING_STORE_KEY, JSON.stringify(keyring));
+    this.keyring = Promise.resolve(keyring);
+  }
+
+  private generateKid(): string {
+    return `k_${Date.now().toString(36)}_${bytesToHex(Crypto.getRandomBytes(4))}`;
+  }
+}
+
+// Export singleton instance
+export const storageEncryption = new StorageEncryption();
+
+// Profile data, personal notes and queued or failed request bodies are encrypted at rest
+storageEncryption.protect(STORAGE_KEYS.USER_DATA);
+storageEncryption.protect(STORAGE_KEYS.NOTES);
+storageEncryption.protect(`${STORAGE_KEYS.COURSE_PROGRESS}_`);
+storageEncryption.protect(`${STORAGE_KEYS.SYNCED_PROGRESS}_`);
+storageEncryption.protect(STORAGE_KEYS.SYNC_QUEUE);
+storageEncryption.protect(STORAGE_KEYS.DEAD_LETTER);
+
+export default storageEncryption;
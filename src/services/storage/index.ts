@@ -0,0 +1,12 @@
+export * from './types';
+export * from './utils';
+export * from './asyncStorageAdapter';
+export * from './memoryStorageAdapter';
+export * from './sqliteStorageAdapter';
+export * from './scopedStorageAdapter';
+export * from './keys';
+export * from './migrations';
+export * from './schemas';
+export * from './cachePolicies';
+export * from './encryption';
+export * from './mutex';
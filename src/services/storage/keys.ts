@@ -0,0 +1,38 @@
+// Storage keys
+export const STORAGE_KEYS = {
+  COURSE_DATA: '@teachlink_courses',
+  USER_DATA: '@teachlink_user',
+  SYNC_QUEUE: '@teachlink_sync_queue',
+  SETTINGS: '@teachlink_settings',
+  PROGRESS_DATA: '@teachlink_progress',
+  BOOKMARKS: '@teachlink_bookmarks',
+  NOTES: '@teachlink_notes',
+  COURSE_PROGRESS: '@teachlink_course_progress',
+  QUIZ_PROGRESS: '@teachlink_quiz_progress',
+  QUIZ_SESSION: '@teachlink_quiz_session',
+  NOTIFICATION_STORE: 'notification-storage',
+  MEDIA_CACHE: '@teachlink_media',
+  ACCESS_TIMES: '@teachlink_access_times',
+  CACHE_ENTRIES: '@teachlink_cache_entries',
+  RESOURCE_CACHE: '@teachlink_resource',
+  HTTP_CACHE: '@teachlink_http_cache',
+  HTTP_CACHE_INDEX: '@teachlink_http_index',
+  DEAD_LETTER: '@teachlink_dead_letter',
+  SYNCED_PROGRESS: '@teachlink_synced_progress',
+  SYNC_CURSOR: '@teachlink_sync_cursor',
+  SYNC_HISTORY: '@teachlink_sync_history',
+  SYNC_SETTINGS: '@teachlink_sync_settings',
+};
+
+// Families shared by every account on the device (downloaded course content).
+// Everything else is scoped to the signed-in user.
+export const SHARED_KEY_PREFIXES = [
+  STORAGE_KEYS.COURSE_DATA,
+  STORAGE_KEYS.MEDIA_CACHE,
+  STORAGE_KEYS.ACCESS_TIMES,
+  STORAGE_KEYS.CACHE_ENTRIES,
+];
+
+export function isUserScopedKey(key: string): boolean {
+  return !SHARED_KEY_PREFIXES.some((prefix) => key.startsWith(prefix));
+}
@@ -0,0 +1,67 @@
+import { StorageAdapter, StorageEntry, StorageQuery, StorageWriteEntry } from './types';
+import { applyQuery, entryByteLength } from './utils';
+
+/**
+ * Adapter that keeps everything in memory.
+ *
+ * Nothing survives an app restart, which makes it suitable for tests and for
+ * throwaway sessions (e.g. previewing content without persisting it).
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly name = 'memory';
+  private items = new Map<string, string>();
+
+  constructor(initial?: Record<string, string>) {
+    if (initial) {
+      Object.entries(initial).forEach(([key, value]) => this.items.set(key, value));
+    }
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  async multiGet(keys: string[]): Promise<StorageEntry[]> {
+    return keys.map((key) => [key, this.items.get(key) ?? null]);
+  }
+
+  async multiSet(entries: StorageWriteEntry[]): Promise<void> {
+    entries.forEach(([key, value]) => this.items.set(key, value));
+  }
+
+  async multiRemove(keys: string[]): Promise<void> {
+    keys.forEach((key) => this.items.delete(key));
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    return Array.from(this.items.keys());
+  }
+
+  async queryKeys(query?: StorageQuery): Promise<string[]> {
+    return applyQuery(Array.from(this.items.keys()), query);
+  }
+
+  async query(query?: StorageQuery): Promise<StorageWriteEntry[]> {
+    const keys = await this.queryKeys(query);
+    return keys.map((key) => [key, this.items.get(key) as string]);
+  }
+
+  async getByteSize(query?: StorageQuery): Promise<number> {
+    const entries = await this.query(query);
+    return entries.reduce((total, [key, value]) => total + entryByteLength(key, value), 0);
+  }
+
+  async clear(): Promise<void> {
+    this.items.clear();
+  }
+}
+
+export default MemoryStorageAdapter;
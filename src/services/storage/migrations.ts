@@ -0,0 +1,115 @@
+/**
+ * Upgrade step for one schema version.
+ * `migrate` receives data at `version - 1` and returns data at `version`.
+ */
+export interface MigrationStep {
+  version: number;
+  migrate: (data: any) => any;
+}
+
+/**
+ * A family of persisted keys sharing one data shape.
+ *
+ * Families with a `prefix` are migrated automatically by OfflineStorage when
+ * read and by `runMigrations()` at app start. Families without a prefix (e.g.
+ * zustand persisted stores) are migrated by their owner via `migrate()`.
+ */
+export interface MigrationFamily {
+  name: string;
+  prefix?: string;
+  version: number;
+  migrations: MigrationStep[];
+}
+
+export interface MigrationResult<T> {
+  data: T;
+  version: number;
+  migrated: boolean;
+}
+
+// Version assumed for families that never registered migrations
+const DEFAULT_VERSION = 1;
+
+class MigrationRegistry {
+  private families = new Map<string, MigrationFamily>();
+
+  /**
+   * Register a key family with its current version and ordered upgrade steps
+   */
+  register(family: MigrationFamily): void {
+    const versions = family.migrations.map((step) => step.version);
+    versions.forEach((version, index) => {
+      if (index > 0 && version <= versions[index - 1]) {
+        throw new Error(`Migrations for ${family.name} must be in ascending version order`);
+      }
+      if (version > family.version) {
+        throw new Error(
+          `Migration to v${version} for ${family.name} is newer than its current version v${family.version}`
+        );
+      }
+    });
+
+    this.families.set(family.name, family);
+  }
+
+  getFamily(name: string): MigrationFamily | undefined {
+    return this.families.get(name);
+  }
+
+  getFamilies(): MigrationFamily[] {
+    return Array.from(this.families.values());
+  }
+
+  /**
+   * Find the family a key belongs to (longest matching prefix wins)
+   */
+  getFamilyForKey(key: string): MigrationFamily | undefined {
+    let match: MigrationFamily | undefined;
+    this.families.forEach((family) => {
+      if (
+        family.prefix !== undefined &&
+        key.startsWith(family.prefix) &&
+        (!match || family.prefix.length > (match.prefix?.length ?? 0))
+      ) {
+        match = family;
+      }
+    });
+    return match;
+  }
+
+  /**
+   * Current schema version for a key
+   */
+  getVersionForKey(key: string): number {
+    return this.getFamilyForKey(key)?.version ?? DEFAULT_VERSION;
+  }
+
+  /**
+   * Upgrade data from `fromVersion` to the family's current version
+   */
+  migrate<T>(familyName: string, data: any, fromVersion: number): MigrationResult<T> {
+    const family = this.families.get(familyName);
+    if (family && fromVersion > family.version) {
+      throw new Error(
+        `Stored ${familyName} data is v${fromVersion}, newer than supported v${family.version}`
+      );
+    }
+    if (!family || fromVersion === family.version) {
+      return { data, version: fromVersion, migrated: false };
+    }
+
+    let current = data;
+    for (const step of family.migrations) {
+      if (step.version > fromVersion && step.version <= family.version) {
+        current = step.migrate(current);
+      }
+    }
+
+    return { data: current, version: family.version, migrated: true };
+  }
+}
+
+// Export singleton instance
+export const migrationRegistry = new MigrationRegistry();
+
+export default migrationRegistry;
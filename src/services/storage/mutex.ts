@@ -0,0 +1,17 @@
+/**
+ * Promise-based mutual exclusion for read-modify-write sequences on a stored
+ * value. Tasks run one at a time in the order they were submitted; a task
+ * that throws does not block the ones queued behind it.
+ */
+export class Mutex {
+  private tail: Promise<void> = Promise.resolve();
+
+  runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(task);
+    this.tail = result.then(
+      () => undefined,
+      () => undefined
+    );
+    return result;
+  }
+}
@@ -0,0 +1,77 @@
+import { migrationRegistry } from './migrations';
+import { STORAGE_KEYS } from './keys';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '../../types/notifications';
+
+/**
+ * Persisted key families and their schema history.
+ *
+ * Version 0 is data written before versioning existed: raw JSON without the
+ * OfflineStorage envelope. To change a persisted shape, bump `version` and
+ * append a step that upgrades the previous version.
+ */
+
+export const SCHEMA_FAMILIES = {
+  COURSE_PROGRESS: 'courseProgress',
+  QUIZ_PROGRESS: 'quizProgress',
+  NOTIFICATIONS: 'notifications',
+} as const;
+
+migrationRegistry.register({
+  name: SCHEMA_FAMILIES.COURSE_PROGRESS,
+  prefix: `${STORAGE_KEYS.COURSE_PROGRESS}_`,
+  version: 1,
+  migrations: [
+    {
+      // Legacy progress predates quiz tracking and may miss collections
+      version: 1,
+      migrate: (progress) => ({
+        ...progress,
+        lessons: progress.lessons ?? {},
+        quizzes: progress.quizzes ?? {},
+        bookmarks: progress.bookmarks ?? [],
+        notes: progress.notes ?? {},
+        overallProgress: progress.overallProgress ?? 0,
+      }),
+    },
+  ],
+});
+
+migrationRegistry.register({
+  name: SCHEMA_FAMILIES.QUIZ_PROGRESS,
+  prefix: `${STORAGE_KEYS.QUIZ_PROGRESS}_`,
+  version: 1,
+  migrations: [
+    {
+      // Legacy quiz results were saved without attempt counts on first completion
+      version: 1,
+      migrate: (quizProgress: Record<string, any>) =>
+        Object.entries(quizProgress ?? {}).reduce<Record<string, any>>((acc, [quizId, entry]) => {
+          acc[quizId] = {
+            ...entry,
+            answers: entry.answers ?? {},
+            attempts: entry.attempts ?? 1,
+          };
+          return acc;
+        }, {}),
+    },
+  ],
+});
+
+// Persisted through zustand, which keeps its own version next to the state
+migrationRegistry.register({
+  name: SCHEMA_FAMILIES.NOTIFICATIONS,
+  version: 1,
+  migrations: [
+    {
+      // Fill in preference flags added after the first release
+      version: 1,
+      migrate: (state) => ({
+        ...state,
+        preferences: {
+          ...DEFAULT_NOTIFICATION_PREFERENCES,
+          ...(state?.preferences ?? {}),
+        },
+      }),
+    },
+  ],
+});
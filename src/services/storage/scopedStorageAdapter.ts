@@ -0,0 +1,147 @@
+import { StorageAdapter, StorageEntry, StorageQuery, StorageWriteEntry } from './types';
+import { applyQuery, entryByteLength } from './utils';
+import { isUserScopedKey } from './keys';
+
+// Physical prefix of every account namespace: `<root><userId>/<key>`
+const SCOPE_ROOT = '@teachlink_account:';
+
+/**
+ * Adapter that gives each account its own copy of user-scoped keys.
+ *
+ * Callers keep using plain keys; while a scope is set, scoped keys are stored
+ * under that account's namespace and other accounts' data is invisible. Without
+ * a scope (signed out) keys are stored unprefixed, which is also the layout of
+ * data written before accounts were separated.
+ */
+export class ScopedStorageAdapter implements StorageAdapter {
+  readonly name: string;
+  private scope: string | null = null;
+
+  constructor(
+    private readonly base: StorageAdapter,
+    private readonly isScoped: (key: string) => boolean = isUserScopedKey
+  ) {
+    this.name = `scoped:${base.name}`;
+  }
+
+  setScope(scope: string | null): void {
+    this.scope = scope;
+  }
+
+  getScope(): string | null {
+    return this.scope;
+  }
+
+  getBaseAdapter(): StorageAdapter {
+    return this.base;
+  }
+
+  /**
+   * Key as seen by callers, for a key read straight from the base adapter
+   */
+  toLogicalKey(physicalKey: string): string {
+    if (!physicalKey.startsWith(SCOPE_ROOT)) return physicalKey;
+    const separator = physicalKey.indexOf('/', SCOPE_ROOT.length);
+    return separator > -1 ? physicalKey.slice(separator + 1) : physicalKey;
+  }
+
+  /**
+   * Move data written while signed out into the current account.
+   * Keys the account already has are kept and the signed-out copy is dropped.
+   */
+  async adoptUnscopedData(): Promise<number> {
+    if (!this.scope) return 0;
+
+    const unscopedKeys = (await this.base.getAllKeys()).filter(
+      (key) => !key.startsWith(SCOPE_ROOT) && this.isScoped(key)
+    );
+    if (unscopedKeys.length === 0) return 0;
+
+    const namespace = this.getNamespace(this.scope);
+    const existing = new Set(await this.base.queryKeys({ prefix: namespace }));
+    const entries = await this.base.multiGet(unscopedKeys);
+    const moves: StorageWriteEntry[] = [];
+    entries.forEach(([key, value]) => {
+      if (value !== null && !existing.has(namespace + key)) {
+        moves.push([namespace + key, value]);
+      }
+    });
+
+    await this.base.multiSet(moves);
+    await this.base.multiRemove(unscopedKeys);
+    return moves.length;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.base.getItem(this.toPhysicalKey(key));
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.base.setItem(this.toPhysicalKey(key), value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.base.removeItem(this.toPhysicalKey(key));
+  }
+
+  async multiGet(keys: string[]): Promise<StorageEntry[]> {
+    const entries = await this.base.multiGet(keys.map((key) => this.toPhysicalKey(key)));
+    return entries.map(([, value], index) => [keys[index], value]);
+  }
+
+  async multiSet(entries: StorageWriteEntry[]): Promise<void> {
+    await this.base.multiSet(entries.map(([key, value]) => [this.toPhysicalKey(key), value]));
+  }
+
+  async multiRemove(keys: string[]): Promise<void> {
+    await this.base.multiRemove(keys.map((key) => this.toPhysicalKey(key)));
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    return this.getVisibleKeys();
+  }
+
+  async queryKeys(query?: StorageQuery): Promise<string[]> {
+    return applyQuery(await this.getVisibleKeys(query?.prefix), query);
+  }
+
+  async query(query?: StorageQuery): Promise<StorageWriteEntry[]> {
+    const entries = await this.multiGet(await this.queryKeys(query));
+    return entries.filter((entry): entry is StorageWriteEntry => entry[1] !== null);
+  }
+
+  async getByteSize(query?: StorageQuery): Promise<number> {
+    const entries = await this.query(query);
+    return entries.reduce((total, [key, value]) => total + entryByteLength(key, value), 0);
+  }
+
+  /**
+   * Remove everything visible in the current scope; other accounts are untouched
+   */
+  async clear(): Promise<void> {
+    await this.multiRemove(await this.getVisibleKeys());
+  }
+
+  private getNamespace(scope: string): string {
+    return `${SCOPE_ROOT}${scope}/`;
+  }
+
+  private toPhysicalKey(key: string): string {
+    return this.scope && this.isScoped(key) ? this.getNamespace(this.scope) + key : key;
+  }
+
+  // Logical keys in the current scope: shared keys plus the account's own keys
+  private async getVisibleKeys(prefix?: string): Promise<string[]> {
+    const query = prefix !== undefined ? { prefix } : undefined;
+    const unprefixed = (await this.base.queryKeys(query)).filter(
+      (key) => !key.startsWith(SCOPE_ROOT) && !(this.scope && this.isScoped(key))
+    );
+    if (!this.scope) return unprefixed;
+
+    const namespace = this.getNamespace(this.scope);
+    const scoped = await this.base.queryKeys({ prefix: namespace + (prefix ?? '') });
+    return unprefixed.concat(scoped.map((key) => key.slice(namespace.length)));
+  }
+}
+
+export default ScopedStorageAdapter;
@@ -0,0 +1,177 @@
+import { StorageAdapter, StorageEntry, StorageQuery, StorageWriteEntry } from './types';
+import { byteLength, prefixUpperBound } from './utils';
+
+type SQLiteBindValue = string | number | null;
+
+/**
+ * Subset of the expo-sqlite async database API used by the adapter.
+ * Any database exposing the same methods (e.g. `openDatabaseAsync` result) works.
+ */
+export interface SQLiteDatabaseLike {
+  execAsync(source: string): Promise<void>;
+  runAsync(source: string, ...params: SQLiteBindValue[]): Promise<unknown>;
+  getFirstAsync<T>(source: string, ...params: SQLiteBindValue[]): Promise<T | null>;
+  getAllAsync<T>(source: string, ...params: SQLiteBindValue[]): Promise<T[]>;
+  withTransactionAsync(task: () => Promise<void>): Promise<void>;
+}
+
+const DEFAULT_TABLE = 'teachlink_kv';
+
+/**
+ * Adapter backed by a SQLite key/value table.
+ *
+ * Keys are the primary key, so prefix and range queries use the index, and the
+ * byte size of each row is stored alongside it so size reporting is a single
+ * SUM instead of reading every value.
+ */
+export class SQLiteStorageAdapter implements StorageAdapter {
+  readonly name = 'sqlite';
+  private ready: Promise<void> | null = null;
+
+  constructor(
+    private readonly db: SQLiteDatabaseLike,
+    private readonly table: string = DEFAULT_TABLE
+  ) {}
+
+  async getItem(key: string): Promise<string | null> {
+    await this.init();
+    const row = await this.db.getFirstAsync<{ value: string }>(
+      `SELECT value FROM ${this.table} WHERE key = ?`,
+      key
+    );
+    return row ? row.value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.init();
+    await this.upsert(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.init();
+    await this.db.runAsync(`DELETE FROM ${this.table} WHERE key = ?`, key);
+  }
+
+  async multiGet(keys: string[]): Promise<StorageEntry[]> {
+    if (keys.length === 0) return [];
+    await this.init();
+    const placeholders = keys.map(() => '?').join(', ');
+    const rows = await this.db.getAllAsync<{ key: string; value: string }>(
+      `SELECT key, value FROM ${this.table} WHERE key IN (${placeholders})`,
+      ...keys
+    );
+    const values = new Map(rows.map((row) => [row.key, row.value]));
+    return keys.map((key) => [key, values.get(key) ?? null]);
+  }
+
+  async multiSet(entries: StorageWriteEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await this.init();
+    await this.db.withTransactionAsync(async () => {
+      for (const [key, value] of entries) {
+        await this.upsert(key, value);
+      }
+    });
+  }
+
+  async multiRemove(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await this.init();
+    const placeholders = keys.map(() => '?').join(', ');
+    await this.db.runAsync(`DELETE FROM ${this.table} WHERE key IN (${placeholders})`, ...keys);
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    return this.queryKeys();
+  }
+
+  async queryKeys(query?: StorageQuery): Promise<string[]> {
+    await this.init();
+    const { where, params, limit } = this.buildQuery(query);
+    const rows = await this.db.getAllAsync<{ key: string }>(
+      `SELECT key FROM ${this.table}${where} ORDER BY key${limit}`,
+      ...params
+    );
+    return rows.map((row) => row.key);
+  }
+
+  async query(query?: StorageQuery): Promise<StorageWriteEntry[]> {
+    await this.init();
+    const { where, params, limit } = this.buildQuery(query);
+    const rows = await this.db.getAllAsync<{ key: string; value: string }>(
+      `SELECT key, value FROM ${this.table}${where} ORDER BY key${limit}`,
+      ...params
+    );
+    return rows.map((row) => [row.key, row.value]);
+  }
+
+  async getByteSize(query?: StorageQuery): Promise<number> {
+    await this.init();
+    const { where, params } = this.buildQuery(query);
+    const row = await this.db.getFirstAsync<{ total: number | null }>(
+      `SELECT SUM(bytes) AS total FROM ${this.table}${where}`,
+      ...params
+    );
+    return row?.total ?? 0;
+  }
+
+  async clear(): Promise<void> {
+    await this.init();
+    await this.db.runAsync(`DELETE FROM ${this.table}`);
+  }
+
+  /**
+   * Create the backing table once per adapter instance
+   */
+  private init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.db.execAsync(
+        `CREATE TABLE IF NOT EXISTS ${this.table} (
+          key TEXT PRIMARY KEY NOT NULL,
+          value TEXT NOT NULL,
+          bytes INTEGER NOT NULL
+        )`
+      );
+    }
+    return this.ready;
+  }
+
+  private async upsert(key: string, value: string): Promise<void> {
+    await this.db.runAsync(
+      `INSERT OR REPLACE INTO ${this.table} (key, value, bytes) VALUES (?, ?, ?)`,
+      key,
+      value,
+      byteLength(key) + byteLength(value)
+    );
+  }
+
+  private buildQuery(query: StorageQuery = {}): {
+    where: string;
+    params: SQLiteBindValue[];
+    limit: string;
+  } {
+    const clauses: string[] = [];
+    const params: SQLiteBindValue[] = [];
+
+    if (query.prefix !== undefined) {
+      clauses.push('key >= ? AND key < ?');
+      params.push(query.prefix, prefixUpperBound(query.prefix));
+    }
+    if (query.gte !== undefined) {
+      clauses.push('key >= ?');
+      params.push(query.gte);
+    }
+    if (query.lt !== undefined) {
+      clauses.push('key < ?');
+      params.push(query.lt);
+    }
+
+    return {
+      where: clauses.length > 0 ? ` WHERE ${clauses.join(' AND ')}` : '',
+      params,
+      limit: query.limit !== undefined ? ` LIMIT ${Math.max(0, Math.floor(query.limit))}` : '',
+    };
+  }
+}
+
+export default SQLiteStorageAdapter;
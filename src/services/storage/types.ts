@@ -0,0 +1,53 @@
+// Key/value pair returned by adapter reads (value is null when the key is missing)
+export type StorageEntry = [string, string | null];
+
+// Key/value pair accepted by adapter writes
+export type StorageWriteEntry = [string, string];
+
+/**
+ * Key query shared by every adapter.
+ *
+ * `prefix` matches keys starting with the given string. `gte`/`lt` bound the
+ * key range lexicographically (inclusive start, exclusive end). Results are
+ * always returned in ascending key order.
+ */
+export interface StorageQuery {
+  prefix?: string;
+  gte?: string;
+  lt?: string;
+  limit?: number;
+}
+
+/**
+ * Backend used by OfflineStorage to persist serialized items
+ */
+export interface StorageAdapter {
+  readonly name: string;
+
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+
+  multiGet(keys: string[]): Promise<StorageEntry[]>;
+  multiSet(entries: StorageWriteEntry[]): Promise<void>;
+  multiRemove(keys: string[]): Promise<void>;
+
+  getAllKeys(): Promise<string[]>;
+
+  /**
+   * Keys matching the query, without reading their values
+   */
+  queryKeys(query?: StorageQuery): Promise<string[]>;
+
+  /**
+   * Entries matching the query
+   */
+  query(query?: StorageQuery): Promise<StorageWriteEntry[]>;
+
+  /**
+   * UTF-8 byte size of the keys and values matching the query
+   */
+  getByteSize(query?: StorageQuery): Promise<number>;
+
+  clear(): Promise<void>;
+}
@@ -0,0 +1,56 @@
+import { StorageQuery } from './types';
+
+/**
+ * UTF-8 encoded length of a string, without relying on TextEncoder
+ * (not available on every Hermes build)
+ */
+export function byteLength(value: string): number {
+  let bytes = 0;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    if (code < 0x80) {
+      bytes += 1;
+    } else if (code < 0x800) {
+      bytes += 2;
+    } else if (code >= 0xd800 && code <= 0xdbff && i + 1 < value.length) {
+      // Surrogate pair encodes a single 4-byte code point
+      bytes += 4;
+      i++;
+    } else {
+      bytes += 3;
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Size of a stored entry as counted by the adapters
+ */
+export function entryByteLength(key: string, value: string): number {
+  return byteLength(key) + byteLength(value);
+}
+
+/**
+ * Exclusive upper bound for a key range covering everything under `prefix`
+ */
+export function prefixUpperBound(prefix: string): string {
+  return prefix + '\uffff';
+}
+
+/**
+ * Check whether a key satisfies a storage query
+ */
+export function matchesQuery(key: string, query: StorageQuery = {}): boolean {
+  if (query.prefix !== undefined && !key.startsWith(query.prefix)) return false;
+  if (query.gte !== undefined && key < query.gte) return false;
+  if (query.lt !== undefined && key >= query.lt) return false;
+  return true;
+}
+
+/**
+ * Filter, sort and limit a list of keys according to a storage query
+ */
+export function applyQuery(keys: readonly string[], query: StorageQuery = {}): string[] {
+  const matched = keys.filter((key) => matchesQuery(key, query)).sort();
+  return query.limit !== undefined ? matched.slice(0, query.limit) : matched;
+}
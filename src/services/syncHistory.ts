@@ -0,0 +1,71 @@
+import { offlineStorage, STORAGE_KEYS } from './offlineStorage';
+import logger from '../utils/logger';
+
+// One sync pass, as kept in the history
+export interface SyncRun {
+  startedAt: number;
+  endedAt: number;
+  durationMs: number;
+  // Queued operations sent, successfully or not
+  processed: number;
+  failed: number;
+  // Remote changes applied by the pull phase
+  pulled: number;
+  // Approximate payload bytes sent and received
+  bytes: number;
+  outcome: 'success' | 'failed';
+  error?: string;
+}
+
+// Runs kept; older ones are dropped
+const MAX_RUNS = 50;
+
+/**
+ * Rolling, persisted history of sync runs, so the app (and support) can tell
+ * when the device last synced and how healthy syncing has been.
+ */
+class SyncHistory {
+  async getRuns(): Promise<SyncRun[]> {
+    const runs = await offlineStorage.retrieve<SyncRun[]>(STORAGE_KEYS.SYNC_HISTORY);
+    return runs || [];
+  }
+
+  async getLastRun(): Promise<SyncRun | null> {
+    const runs = await this.getRuns();
+    return runs[runs.length - 1] || null;
+  }
+
+  async getLastSuccessfulRun(): Promise<SyncRun | null> {
+    const runs = await this.getRuns();
+    return runs.filter((run) => run.outcome === 'success').pop() || null;
+  }
+
+  async record(run: SyncRun): Promise<void> {
+    try {
+      const runs = await this.getRuns();
+      await offlineStorage.store(STORAGE_KEYS.SYNC_HISTORY, [...runs, run].slice(-MAX_RUNS));
+    } catch (error) {
+      // History is diagnostic only; never fail a sync over it
+      logger.error('Error recording sync run:', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await offlineStorage.store(STORAGE_KEYS.SYNC_HISTORY, []);
+  }
+}
+
+// Rough size of a payload on the wire
+export function estimateBytes(value: unknown): number {
+  if (value === undefined || value === null) return 0;
+  try {
+    return JSON.stringify(value).length;
+  } catch {
+    return 0;
+  }
+}
+
+// Export singleton instance
+export const syncHistory = new SyncHistory();
+
+export default syncHistory;
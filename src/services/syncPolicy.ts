@@ -0,0 +1,54 @@
+import type { SyncOperation } from './offlineStorage';
+import { NetworkType } from './videoQuality';
+import { estimateBytes } from './syncHistory';
+
+/**
+ * When a queued operation may be sent:
+ * - `any`: on any connection
+ * - `unmetered`: only on Wi-Fi/Ethernet
+ * - `never-background`: only while the app is in the foreground
+ */
+export type TransportPolicy = 'any' | 'unmetered' | 'never-background';
+
+// Learner-controlled sync settings
+export interface SyncSettings {
+  // Hold large uploads until the device is on an unmetered network
+  dataSaver: boolean;
+}
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  dataSaver: false,
+};
+
+// Payloads above this count as large for data saver
+export const LARGE_PAYLOAD_BYTES = 100 * 1024;
+
+// What the device can currently offer
+export interface TransportConditions {
+  networkType: NetworkType;
+  isBackground: boolean;
+  dataSaver: boolean;
+}
+
+/**
+ * Why an operation has to wait for better conditions, or null if it may be
+ * sent now. Unknown network types count as metered.
+ */
+export function getHoldReason(
+  operation: SyncOperation,
+  conditions: TransportConditions
+): string | null {
+  const policy = operation.transportPolicy ?? 'any';
+  const isMetered = conditions.networkType !== 'wifi';
+
+  if (policy === 'never-background' && conditions.isBackground) {
+    return 'Waiting for the app to be in the foreground';
+  }
+  if (policy === 'unmetered' && isMetered) {
+    return 'Waiting for Wi-Fi';
+  }
+  if (conditions.dataSaver && isMetered && estimateBytes(operation.data) > LARGE_PAYLOAD_BYTES) {
+    return 'Waiting for Wi-Fi (data saver)';
+  }
+  return null;
+}
@@ -0,0 +1,87 @@
+import { SyncOperation, getResourceKey } from './offlineStorage';
+
+// Operation id -> ids of operations that must succeed first
+export type DependencyGraph = Map<string, string[]>;
+
+/**
+ * Dependencies between queued operations.
+ *
+ * Every operation depends on the operation queued before it on the same
+ * resource, plus anything it declared in `dependsOn`. Operations that already
+ * failed permanently (`failed`) count as coming first on their resource.
+ * Declared dependencies that are neither queued nor failed have already been
+ * applied and are dropped.
+ */
+export function buildDependencyGraph(
+  queue: SyncOperation[],
+  failed: SyncOperation[] = []
+): DependencyGraph {
+  const knownIds = new Set([...failed, ...queue].map((op) => op.id));
+  const lastByResource = new Map<string, string>();
+  const graph: DependencyGraph = new Map();
+
+  failed.forEach((op) => lastByResource.set(getResourceKey(op), op.id));
+
+  queue.forEach((op) => {
+    const resourceKey = getResourceKey(op);
+    const dependencies = new Set<string>();
+
+    const previous = lastByResource.get(resourceKey);
+    if (previous) dependencies.add(previous);
+    (op.dependsOn || []).forEach((id) => {
+      if (id !== op.id && knownIds.has(id)) dependencies.add(id);
+    });
+
+    graph.set(op.id, Array.from(dependencies));
+    lastByResource.set(resourceKey, op.id);
+  });
+
+  return graph;
+}
+
+export function isPermanentlyFailed(operation: SyncOperation): boolean {
+  return operation.retries >= operation.maxRetries;
+}
+
+/**
+ * Queued operations that can never run because something they depend on,
+ * directly or transitively, failed permanently. Maps each one to the failed
+ * operation.
+ */
+export function findBlockedOperations(
+  queue: SyncOperation[],
+  failed: SyncOperation[] = [],
+  graph: DependencyGraph = buildDependencyGraph(queue, failed)
+): Map<string, string> {
+  const byId = new Map(queue.map((op) => [op.id, op]));
+  const failedIds = new Set(failed.map((op) => op.id));
+  const blocked = new Map<string, string>();
+  const visiting = new Set<string>();
+
+  const hasFailed = (id: string): boolean => {
+    const op = byId.get(id);
+    return failedIds.has(id) || (!!op && isPermanentlyFailed(op));
+  };
+
+  const findCause = (id: string): string | undefined => {
+    if (blocked.has(id)) return blocked.get(id);
+    // Dependency cycles are not blocked by themselves; the scheduler skips them
+    if (visiting.has(id)) return undefined;
+    visiting.add(id);
+
+    let cause: string | undefined;
+    for (const dependency of graph.get(id) || []) {
+      cause = hasFailed(dependency) ? dependency : findCause(dependency);
+      if (cause) break;
+    }
+
+    visiting.delete(id);
+    if (cause) blocked.set(id, cause);
+    return cause;
+  };
+
+  queue.forEach((op) => {
+    if (!hasFailed(op.id)) findCause(op.id);
+  });
+  return blocked;
+}
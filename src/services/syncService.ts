@@ -1,6 +1,21 @@
 import * as Network from 'expo-network';
+import { AppState } from 'react-native';
 import apiService from './api';
-import { offlineStorage, SyncOperation, SyncOperationInput } from './offlineStorage';
+import { api } from './api/client';
+import { offlineStorage, STORAGE_KEYS, SyncAttempt, SyncOperation, SyncOperationInput } from './offlineStorage';
+import { buildDependencyGraph, findBlockedOperations, isPermanentlyFailed } from './syncScheduler';
+import { deadLetterQueue, DeadLetterFailure } from './deadLetterQueue';
+import { isCourseProgress, mergeCourseProgress } from './progressMerge';
+import { progressStore } from './progressStore';
+import { applyRemoteChanges } from './remoteChanges';
+import { syncHistory, estimateBytes, SyncRun } from './syncHistory';
+import { DEFAULT_SYNC_SETTINGS, getHoldReason, SyncSettings, TransportConditions } from './syncPolicy';
+import { getBackoffDelay, getRetryAfterMs, isRetriableError } from './retryPolicy';
+import { deriveNetworkType, NetworkType } from './videoQuality';
+import { scheduleLocalNotification } from './pushNotifications';
+import { authSession, AuthEvent } from './authSession';
+import { CourseProgress } from '../types/course';
+import { NotificationType } from '../types/notifications';
 import logger from '../utils/logger';
 
 // Sync service configuration
@@ -8,17 +23,80 @@ interface SyncConfig {
   maxConcurrentSyncs: number;
   retryDelay: number;
   syncInterval: number;
-  batchSize: number;
+  // Send ready operations together through the batch endpoint when the server has one
+  useBatchTransport: boolean;
+  maxBatchSize: number;
+  // Ceiling for the backoff between attempts of one operation
+  maxRetryDelay: number;
 }
 
 // Conflict resolution strategies
 type ConflictResolutionStrategy = 'serverWins' | 'clientWins' | 'merge' | 'manual';
 
+// Error codes the server uses for a request it has already applied
+const ALREADY_APPLIED_CODES = ['ALREADY_APPLIED', 'DUPLICATE_REQUEST', 'IDEMPOTENCY_KEY_REPLAYED'];
+
+// Replies to a conditional write whose revision is out of date
+const REVISION_CONFLICT_STATUSES = [409, 412];
+
+// How often a conditional write is merged and resent before giving up
+const MAX_REVISION_CONFLICTS = 3;
+
+// Upper bound on change pages pulled in one sync, so a huge backlog can't stall it
+const MAX_PULL_PAGES = 20;
+
+const BATCH_ENDPOINT = '/sync/batch';
+
+// Replies meaning the server has no such endpoint (batch or change feed)
+const UNSUPPORTED_ENDPOINT_STATUSES = [404, 405, 501];
+
+const BATCH_METHODS: Record<SyncOperation['type'], string> = {
+  CREATE: 'POST',
+  UPDATE: 'PUT',
+  DELETE: 'DELETE',
+  READ: 'GET',
+};
+
+// Outcome of one operation in a batch response
+interface BatchResult {
+  id: string;
+  status: number;
+  data?: any;
+  headers?: Record<string, string>;
+  error?: { code?: string; message?: string };
+}
+
+// Result of a conditional write
+export interface RevisionedWrite<T> {
+  data: T;
+  revision?: string;
+}
+
 // Sync event types
-type SyncEventType = 'syncStarted' | 'syncCompleted' | 'syncFailed' | 'operationProcessed' | 'conflictDetected';
+type SyncEventType =
+  | 'syncStarted'
+  | 'syncCompleted'
+  | 'syncFailed'
+  | 'operationProcessed'
+  | 'operationBlocked'
+  | 'operationHeld'
+  | 'conflictDetected'
+  | 'changesPulled'
+  | 'progressSynced';
 
 // Sync event interface
-interface SyncEvent {
+export interface SyncStats {
+  pendingCount: number;
+  failedCount: number;
+  blockedCount: number;
+  isSyncing: boolean;
+  lastSyncTime?: number;
+}
+
+// Counters for the sync pass in progress
+type RunMetrics = Pick<SyncRun, 'startedAt' | 'processed' | 'failed' | 'pulled' | 'bytes'>;
+
+export interface SyncEvent {
   type: SyncEventType;
   operationId?: string;
   data?: any;
@@ -28,7 +106,18 @@ interface SyncEvent {
 
 class SyncService {
   private isSyncing: boolean = false;
+  private currentSync: Promise<void> | null = null;
+  // The part of currentSync past waiting for a paused sync
+  private activeRun: Promise<void> | null = null;
+  private pause: Promise<void> | null = null;
+  private newlyFailedCount = 0;
+  private currentRun: RunMetrics | null = null;
+  private networkType: NetworkType = 'unknown';
+  private networkSubscription: { remove: () => void } | null = null;
+  // Unknown until the first batch request
+  private batchSupported: boolean | null = null;
   private syncIntervalId: any = null;
+  private retryTimerId: any = null;
   private eventListeners: ((event: SyncEvent) => void)[] = [];
   private config: SyncConfig;
 
@@ -37,7 +126,9 @@ class SyncService {
       maxConcurrentSyncs: 3,
       retryDelay: 5000, // 5 seconds
       syncInterval: 30000, // 30 seconds
-      batchSize: 10,
+      useBatchTransport: true,
+      maxBatchSize: 25,
+      maxRetryDelay: 5 * 60 * 1000, // 5 minutes
       ...config,
     };
   }
@@ -55,6 +146,16 @@ class SyncService {
       this.syncPendingOperations();
     }, this.config.syncInterval);
 
+    // Operations held for Wi-Fi go out as soon as it's available
+    this.networkSubscription = Network.addNetworkStateListener((state) => {
+      const networkType = deriveNetworkType(state);
+      if (networkType === 'wifi' && this.networkType !== 'wifi') {
+        this.syncPendingOperations();
+      }
+      this.networkType = networkType;
+    });
+    authSession.addEventListener(this.handleAuthEvent);
+
     logger.info('Auto sync started');
     this.emitEvent({ type: 'syncStarted', timestamp: Date.now() });
   }
@@ -66,27 +167,105 @@ class SyncService {
     if (this.syncIntervalId) {
       clearInterval(this.syncIntervalId);
       this.syncIntervalId = null;
+      this.networkSubscription?.remove();
+      this.networkSubscription = null;
+      authSession.removeEventListener(this.handleAuthEvent);
       logger.info('Auto sync stopped');
     }
   }
 
+  // Operations that failed on an expired session can go out with the new token
+  private handleAuthEvent = (event: AuthEvent): void => {
+    if (event.type === 'signedIn' || event.type === 'refreshed') {
+      this.requestSync();
+    }
+  };
+
   /**
    * Manual sync trigger
    */
   async manualSync(): Promise<void> {
     logger.info('Manual sync triggered');
-    await this.syncPendingOperations();
+    await this.syncPendingOperations(true);
+  }
+
+  /**
+   * Ask for a sync soon, e.g. after queueing a change. Unlike manualSync it
+   * leaves operations backing off from a failed attempt alone.
+   */
+  requestSync(): void {
+    this.syncPendingOperations().catch((error) => {
+      logger.error('Error running requested sync:', error);
+    });
   }
 
   /**
-   * Main sync process
+   * Wait for any sync in progress, then try once more to send everything queued.
+   * Returns the number of operations still pending afterwards.
    */
-  private async syncPendingOperations(): Promise<void> {
-    if (this.isSyncing) {
+  async flush(): Promise<number> {
+    if (this.currentSync) {
+      await this.currentSync;
+    }
+    await this.syncPendingOperations(true);
+    return offlineStorage.getPendingOperationsCount();
+  }
+
+  /**
+   * Main sync process. An explicit sync (`force`) also sends operations still
+   * backing off from a failed attempt.
+   */
+  private syncPendingOperations(force = false): Promise<void> {
+    if (this.currentSync) {
       logger.debug('Sync already in progress, skipping');
-      return;
+      return this.currentSync;
+    }
+
+    this.currentSync = this.startRun(force).finally(() => {
+      this.currentSync = null;
+    });
+    return this.currentSync;
+  }
+
+  /**
+   * Run `task` while no sync runs: wait for the one in progress to finish and
+   * hold new ones until the task is done. An account switch uses this to swap
+   * the queue and storage a sync works on.
+   */
+  async runPaused<T>(task: () => Promise<T>): Promise<T> {
+    while (this.pause) {
+      await this.pause;
+    }
+    let resume!: () => void;
+    this.pause = new Promise(resolve => {
+      resume = resolve;
+    });
+
+    try {
+      if (this.activeRun) {
+        // How it went is for whoever asked for it
+        await this.activeRun.catch(() => undefined);
+      }
+      return await task();
+    } finally {
+      this.pause = null;
+      resume();
+    }
+  }
+
+  private async startRun(force: boolean): Promise<void> {
+    while (this.pause) {
+      await this.pause;
+    }
+    this.activeRun = this.runSync(force);
+    try {
+      await this.activeRun;
+    } finally {
+      this.activeRun = null;
     }
+  }
 
+  private async runSync(force: boolean): Promise<void> {
     // Check network connectivity
     const isConnected = await this.checkConnectivity();
     if (!isConnected) {
@@ -95,27 +274,32 @@ class SyncService {
     }
 
     this.isSyncing = true;
+    this.newlyFailedCount = 0;
+    this.currentRun = { startedAt: Date.now(), processed: 0, failed: 0, pulled: 0, bytes: 0 };
 
     try {
       const queue = await offlineStorage.getSyncQueue();
       if (queue.length === 0) {
         logger.debug('No pending operations to sync');
-        return;
-      }
-
-      logger.info(`Starting sync for ${queue.length} operations`);
+      } else {
+        logger.info(`Starting sync for ${queue.length} operations`);
 
-      // Process operations in batches
-      const batches = this.createBatches(queue, this.config.batchSize);
-      
-      for (const batch of batches) {
-        await this.processBatch(batch);
+        await this.processQueue(queue, force);
+        if (this.newlyFailedCount > 0) {
+          await this.notifyPermanentFailures(this.newlyFailedCount);
+        }
+        await this.scheduleNextRetry();
       }
 
+      // Push first, so the pulled changes already account for ours
+      await this.pullChanges();
+
       logger.info('Sync completed successfully');
+      await this.recordRun('success');
       this.emitEvent({ type: 'syncCompleted', timestamp: Date.now() });
-    } catch (error) {
+    } catch (error: any) {
       logger.error('Sync failed:', error);
+      await this.recordRun('failed', error);
       this.emitEvent({ 
         type: 'syncFailed', 
         error, 
@@ -126,35 +310,215 @@ class SyncService {
     }
   }
 
+  private async recordRun(outcome: SyncRun['outcome'], error?: any): Promise<void> {
+    if (!this.currentRun) return;
+
+    const endedAt = Date.now();
+    await syncHistory.record({
+      ...this.currentRun,
+      endedAt,
+      durationMs: endedAt - this.currentRun.startedAt,
+      outcome,
+      error: error ? error.message || String(error) : undefined,
+    });
+    this.currentRun = null;
+  }
+
   /**
-   * Process a batch of operations
+   * Fetch and apply everything that changed on the server since the persisted
+   * cursor. The cursor only advances once a page has been applied, so an
+   * interrupted pull resumes where it stopped.
    */
-  private async processBatch(operations: SyncOperation[]): Promise<void> {
-    const promises = operations.slice(0, this.config.maxConcurrentSyncs).map(op => 
-      this.processOperation(op)
-    );
+  private async pullChanges(): Promise<void> {
+    let cursor = await offlineStorage.retrieve<string>(STORAGE_KEYS.SYNC_CURSOR);
+    const courseIds = new Set<string>();
+    let changeCount = 0;
+
+    for (let page = 0; page < MAX_PULL_PAGES; page++) {
+      let response;
+      try {
+        response = await api.getSyncChanges({ params: { since: cursor } });
+      } catch (error: any) {
+        // A server without a change feed only takes uploads; that sync still succeeded
+        if (UNSUPPORTED_ENDPOINT_STATUSES.includes(error?.response?.status)) {
+          logger.info('Server has no change feed, skipping pull');
+          break;
+        }
+        throw error;
+      }
+      const { changes, cursor: nextCursor, hasMore } = response.data;
+
+      (await applyRemoteChanges(changes)).forEach(courseId => courseIds.add(courseId));
+      changeCount += changes.length;
+      if (this.currentRun) {
+        this.currentRun.pulled += changes.length;
+        this.currentRun.bytes += estimateBytes(response.data);
+      }
+
+      cursor = nextCursor;
+      await offlineStorage.store(STORAGE_KEYS.SYNC_CURSOR, cursor);
+      if (!hasMore) break;
+    }
+
+    if (changeCount > 0) {
+      logger.info(`Pulled ${changeCount} remote changes`);
+      this.emitEvent({
+        type: 'changesPulled',
+        data: { changeCount, courseIds: Array.from(courseIds) },
+        timestamp: Date.now()
+      });
+    }
+  }
+
+  /**
+   * Run queued operations as a dependency graph: independent resources in
+   * parallel (up to maxConcurrentSyncs), operations on one resource strictly in
+   * queue order. An operation whose dependency fails waits for the next sync;
+   * one whose dependency failed permanently is blocked and moved to the
+   * dead-letter queue with it, never sent. Unless forced, operations backing
+   * off from a failed attempt (and their dependents) wait as well.
+   */
+  private async processQueue(queue: SyncOperation[], force: boolean): Promise<void> {
+    const failed = (await deadLetterQueue.getEntries()).map(entry => entry.operation);
+    const graph = buildDependencyGraph(queue, failed);
+    const blocked = findBlockedOperations(queue, failed, graph);
+
+    // Left in the queue by app versions without a dead-letter queue
+    for (const op of queue.filter(isPermanentlyFailed)) {
+      const lastAttempt = op.attemptHistory?.[op.attemptHistory.length - 1];
+      await this.handlePermanentFailure(op, {
+        message: lastAttempt?.message || 'Retries exhausted',
+        status: lastAttempt?.status,
+      });
+    }
+
+    for (const [operationId, failedId] of Array.from(blocked.entries())) {
+      const op = queue.find(item => item.id === operationId) as SyncOperation;
+      logger.warn(`Operation ${operationId} is blocked by failed operation ${failedId}`);
+      this.emitEvent({
+        type: 'operationBlocked',
+        operationId,
+        data: { blockedBy: failedId },
+        timestamp: Date.now()
+      });
+      await this.handlePermanentFailure(op, {
+        message: 'Waiting on a change that failed to sync',
+        blockedBy: failedId,
+      });
+    }
+
+    let pending = queue.filter(op => !blocked.has(op.id) && !isPermanentlyFailed(op));
+    const succeeded = new Set<string>();
+    const notApplied = new Set(queue.filter(isPermanentlyFailed).map(op => op.id));
+
+    const now = Date.now();
+    pending = pending.filter(op => {
+      const waiting = !force && (op.nextAttemptAt ?? 0) > now;
+      if (waiting) notApplied.add(op.id);
+      return !waiting;
+    });
+
+    // Held operations (and whatever depends on them) wait for better conditions
+    const conditions = await this.getTransportConditions();
+    pending = pending.filter(op => {
+      const reason = getHoldReason(op, conditions);
+      if (reason) {
+        notApplied.add(op.id);
+        this.emitEvent({
+          type: 'operationHeld',
+          operationId: op.id,
+          data: { reason },
+          timestamp: Date.now()
+        });
+      }
+      return !reason;
+    });
+    const running = new Map<string, Promise<void>>();
+    // Turned off for the rest of the run once the batch request itself is refused
+    let useBatch = this.canBatch();
+
+    while (pending.length > 0 || running.size > 0) {
+      // Anything depending on an operation that didn't go through waits for the next sync
+      let skippedAny = true;
+      while (skippedAny) {
+        skippedAny = false;
+        pending = pending.filter(op => {
+          const skip = (graph.get(op.id) || []).some(id => notApplied.has(id));
+          if (skip) {
+            notApplied.add(op.id);
+            skippedAny = true;
+          }
+          return !skip;
+        });
+      }
+
+      const ready = pending.filter(op =>
+        (graph.get(op.id) || []).every(id => succeeded.has(id))
+      );
+
+      // One round trip for everything that is ready, if the server supports it.
+      // Progress uploads are conditional, so they always go on their own.
+      const batchable = ready.filter(op => op.entity !== 'progress');
+      if (useBatch && running.size === 0 && batchable.length > 1) {
+        const results = await this.processBatch(batchable.slice(0, this.config.maxBatchSize));
+        if (results) {
+          pending = pending.filter(op => !results.has(op.id));
+          results.forEach((success, id) => (success ? succeeded : notApplied).add(id));
+          continue;
+        }
+        useBatch = false;
+      }
 
-    await Promise.all(promises);
+      for (const op of ready.slice(0, this.config.maxConcurrentSyncs - running.size)) {
+        pending = pending.filter(other => other.id !== op.id);
+        running.set(
+          op.id,
+          this.processOperation(op).then(success => {
+            running.delete(op.id);
+            (success ? succeeded : notApplied).add(op.id);
+          })
+        );
+      }
+
+      if (running.size === 0) {
+        // Only operations in a dependency cycle are left
+        if (pending.length > 0) {
+          logger.error(`Skipping ${pending.length} operations with circular dependencies`);
+        }
+        break;
+      }
+      await Promise.race(running.values());
+    }
+  }
+
+  private canBatch(): boolean {
+    return this.config.useBatchTransport && this.batchSupported !== false;
   }
 
   /**
-   * Process individual operation
+   * Process individual operation. Resolves to whether it succeeded.
    */
-  private async processOperation(operation: SyncOperation): Promise<void> {
+  private async processOperation(operation: SyncOperation): Promise<boolean> {
+    offlineStorage.markOperationInFlight(operation.id, true);
+    this.countAttempt(operation);
     try {
       logger.debug(`Processing operation: ${operation.type} ${operation.endpoint}`);
 
       // Execute API call based on operation type
+      // Retries reuse the key, so the server can recognize a replay
+      const options = { idempotencyKey: operation.idempotencyKey ?? operation.id };
       let result;
       switch (operation.type) {
         case 'CREATE':
-          result = await apiService.post(operation.endpoint, operation.data);
+          result = await apiService.post(operation.endpoint, operation.data, options);
           break;
         case 'UPDATE':
-          result = await apiService.put(operation.endpoint, operation.data);
+          result = operation.entity === 'progress'
+            ? await this.uploadProgress(operation)
+            : await apiService.put(operation.endpoint, operation.data, options);
           break;
         case 'DELETE':
-          result = await apiService.delete(operation.endpoint);
+          result = await apiService.delete(operation.endpoint, options);
           break;
         case 'READ':
           result = await apiService.get(operation.endpoint);
@@ -163,68 +527,293 @@ class SyncService {
           throw new Error(`Unsupported operation type: ${operation.type}`);
       }
 
-      // Remove successful operation from queue
-      await offlineStorage.removeFromSyncQueue(operation.id);
-      
-      logger.info(`Operation completed: ${operation.id}`);
-      this.emitEvent({
-        type: 'operationProcessed',
-        operationId: operation.id,
-        data: result,
-        timestamp: Date.now()
-      });
-
+      await this.completeOperation(operation, result);
+      return true;
     } catch (error: any) {
-      logger.error(`Operation failed: ${operation.id}`, error);
-
-      // Handle retry logic
-      if (operation.retries < operation.maxRetries) {
-        await offlineStorage.incrementRetryCount(operation.id);
-        
-        // Schedule retry with exponential backoff
-        setTimeout(() => {
-          this.retryOperation(operation.id);
-        }, this.calculateRetryDelay(operation.retries));
-      } else {
-        logger.error(`Operation failed permanently after ${operation.maxRetries} retries: ${operation.id}`);
-        // Move to failed operations for manual handling
-        this.handlePermanentFailure(operation, error);
+      return this.handleOperationError(operation, error);
+    } finally {
+      offlineStorage.markOperationInFlight(operation.id, false);
+    }
+  }
+
+  /**
+   * Send several ready operations as one request to the batch endpoint and
+   * settle each from its own result. Resolves to whether each operation
+   * succeeded, or null when the operations should be sent individually: the
+   * server has no batch endpoint, or it refused the batch as a whole.
+   */
+  private async processBatch(operations: SyncOperation[]): Promise<Map<string, boolean> | null> {
+    operations.forEach(op => offlineStorage.markOperationInFlight(op.id, true));
+    const results = new Map<string, boolean>();
+    try {
+      logger.debug(`Processing batch of ${operations.length} operations`);
+
+      let response;
+      try {
+        response = await apiService.post(BATCH_ENDPOINT, {
+          operations: operations.map(op => ({
+            id: op.id,
+            method: BATCH_METHODS[op.type],
+            endpoint: op.endpoint,
+            data: op.data,
+            idempotencyKey: op.idempotencyKey ?? op.id,
+          })),
+        });
+      } catch (error: any) {
+        if (UNSUPPORTED_ENDPOINT_STATUSES.includes(error?.response?.status)) {
+          logger.info('Server has no batch endpoint, sending operations individually');
+          this.batchSupported = false;
+          return null;
+        }
+
+        // Something about the batch (its size, say) was refused, which says
+        // nothing about the operations in it
+        if (this.isBatchRejected(error)) {
+          logger.warn(`Batch request rejected with status ${error.response.status}, sending operations individually`);
+          return null;
+        }
+
+        // The whole request failed, so every operation in it did
+        operations.forEach(op => this.countAttempt(op));
+        for (const op of operations) {
+          results.set(op.id, await this.handleOperationError(op, error));
+        }
+        return results;
       }
 
+      this.batchSupported = true;
+      const byId = new Map<string, BatchResult>(
+        ((response.data?.results || []) as BatchResult[]).map(result => [result.id, result])
+      );
+      for (const op of operations) {
+        this.countAttempt(op);
+        const result = byId.get(op.id);
+        if (result && result.status >= 200 && result.status < 300) {
+          await this.completeOperation(op, result);
+          results.set(op.id, true);
+        } else {
+          results.set(op.id, await this.handleOperationError(op, this.toBatchError(result)));
+        }
+      }
+      return results;
+    } finally {
+      operations.forEach(op => offlineStorage.markOperationInFlight(op.id, false));
+    }
+  }
+
+  // A client error for the batch request as a whole, other than an expired session
+  private isBatchRejected(error: any): boolean {
+    const status = error?.response?.status;
+    return typeof status === 'number' && status >= 400 && status < 500 && status !== 401
+      && !isRetriableError(error);
+  }
+
+  // Shape a per-operation batch result like the error of an individual request
+  private toBatchError(result?: BatchResult): Error {
+    if (!result) {
+      return new Error('No result for operation in batch response');
+    }
+    return Object.assign(
+      new Error(result.error?.message || `Request failed with status code ${result.status}`),
+      { response: { status: result.status, data: result.data ?? result.error, headers: result.headers || {} } }
+    );
+  }
+
+  private countAttempt(operation: SyncOperation): void {
+    if (this.currentRun) {
+      this.currentRun.processed++;
+      this.currentRun.bytes += estimateBytes(operation.data);
+    }
+  }
+
+  /**
+   * Settle an operation whose attempt failed: count the retry or, once they
+   * are used up, dead-letter it. Resolves to whether it ended up applied.
+   */
+  private async handleOperationError(operation: SyncOperation, error: any): Promise<boolean> {
+    if (this.isAlreadyApplied(operation, error)) {
+      // An earlier attempt reached the server even though we never saw the reply
+      logger.info(`Operation already applied on server: ${operation.id}`);
+      await this.completeOperation(operation, error.response);
+      return true;
+    }
+
+    if (error?.response?.status === 401) {
+      // The session could not be renewed; the change goes out once the learner signs in again
+      logger.warn(`Operation waiting for sign-in: ${operation.id}`);
       this.emitEvent({
         type: 'syncFailed',
         operationId: operation.id,
         error,
         timestamp: Date.now()
       });
+      return false;
+    }
+
+    logger.error(`Operation failed: ${operation.id}`, error);
+    if (this.currentRun) this.currentRun.failed++;
+
+    const attempt: SyncAttempt = {
+      attemptedAt: Date.now(),
+      status: error?.response?.status,
+      message: error?.message || 'Unknown error',
+    };
+    const retriable = isRetriableError(error);
+
+    // Handle retry logic; retries counts the attempts that failed before this one
+    if (retriable && operation.retries + 1 < operation.maxRetries) {
+      // Persisted, so the wait survives an app restart
+      const nextAttemptAt = attempt.attemptedAt + this.calculateRetryDelay(operation.retries, error);
+      await offlineStorage.incrementRetryCount(operation.id, attempt, nextAttemptAt);
+    } else {
+      logger.error(
+        retriable
+          ? `Operation failed permanently after ${operation.maxRetries} attempts: ${operation.id}`
+          : `Operation rejected by server: ${operation.id}`
+      );
+      // Move to the dead-letter queue for the learner to review
+      await this.handlePermanentFailure(
+        { ...operation, attemptHistory: [...(operation.attemptHistory || []), attempt] },
+        { message: attempt.message, status: attempt.status }
+      );
     }
+
+    this.emitEvent({
+      type: 'syncFailed',
+      operationId: operation.id,
+      error,
+      timestamp: Date.now()
+    });
+    return false;
   }
 
   /**
-   * Retry a failed operation
+   * Upload a course's progress with If-Match, merging with the server copy on
+   * conflict, and keep the result as the new base for merges. The stored
+   * progress is what gets sent, since it already includes anything merged in
+   * since the change was queued; the queued snapshot only stands in for it.
    */
-  private async retryOperation(operationId: string): Promise<void> {
-    const queue = await offlineStorage.getSyncQueue();
-    const operation = queue.find(op => op.id === operationId);
-    
-    if (operation) {
-      await this.processOperation(operation);
-    }
+  private async uploadProgress(operation: SyncOperation): Promise<{ data: CourseProgress }> {
+    const courseId = operation.data.courseId;
+    const syncedKey = `${STORAGE_KEYS.SYNCED_PROGRESS}_${courseId}`;
+
+    const local = (await progressStore.get(courseId)) ?? operation.data;
+    const base = await offlineStorage.retrieve<CourseProgress>(syncedKey);
+    const { data: merged, revision } = await this.putWithRevision(operation.endpoint, local, base, base?.revision);
+
+    const synced: CourseProgress = { ...merged, revision, lastSyncedAt: new Date().toISOString() };
+    // Not held during the request, so the learner can keep editing
+    await progressStore.runExclusive(courseId, async () => {
+      await offlineStorage.store(syncedKey, synced);
+
+      // Keep edits the learner made while the upload was in flight
+      const current = await progressStore.get(courseId);
+      const unchanged = !current || JSON.stringify(current) === JSON.stringify(local);
+      await progressStore.save(courseId, unchanged ? synced : mergeCourseProgress(local, current, synced));
+    });
+
+    this.emitEvent({
+      type: 'progressSynced',
+      data: { courseId },
+      timestamp: Date.now()
+    });
+    return { data: synced };
   }
 
   /**
-   * Handle permanent failure
+   * Remove a successful operation from the queue and report it
    */
-  private async handlePermanentFailure(operation: SyncOperation, error: any): Promise<void> {
-    // Log failed operation for manual review
-    logger.error('Permanent sync failure:', {
-      operation,
-      error: error.message,
+  private async completeOperation(operation: SyncOperation, result: any): Promise<void> {
+    await offlineStorage.removeFromSyncQueue(operation.id);
+
+    logger.info(`Operation completed: ${operation.id}`);
+    this.emitEvent({
+      type: 'operationProcessed',
+      operationId: operation.id,
+      data: result,
       timestamp: Date.now()
     });
+  }
+
+  /**
+   * Whether a failed request means the server had already applied the operation
+   */
+  private isAlreadyApplied(operation: SyncOperation, error: any): boolean {
+    const response = error?.response;
+    if (!response) return false;
 
-    // Could implement notification system here
-    // For now, we keep it in the queue for manual intervention
+    // Deleting something that is already gone
+    if (operation.type === 'DELETE' && (response.status === 404 || response.status === 410)) {
+      return true;
+    }
+
+    return (
+      response.status === 409 &&
+      (ALREADY_APPLIED_CODES.includes(response.data?.code) ||
+        response.headers?.['idempotent-replayed'] === 'true')
+    );
+  }
+
+  /**
+   * Wake up for the earliest operation backing off from a failed attempt.
+   * Retries go through a full sync so they still run in dependency order.
+   * Operations whose wait is already over were left out for another reason
+   * (held, waiting on a dependency or for sign-in); the next regular sync
+   * picks them up, so they don't schedule anything.
+   */
+  private async scheduleNextRetry(): Promise<void> {
+    if (this.retryTimerId) {
+      clearTimeout(this.retryTimerId);
+      this.retryTimerId = null;
+    }
+
+    const now = Date.now();
+    const queue = await offlineStorage.getSyncQueue();
+    const retryTimes = queue
+      .map(op => op.nextAttemptAt)
+      .filter((time): time is number => time !== undefined && time > now);
+    if (retryTimes.length === 0) return;
+
+    this.retryTimerId = setTimeout(async () => {
+      this.retryTimerId = null;
+      // A sync that is just finishing would not pick the operation up again
+      await this.currentSync;
+      this.syncPendingOperations();
+    }, Math.min(...retryTimes) - now);
+  }
+
+  /**
+   * Handle permanent failure: move the operation out of the queue into the
+   * dead-letter queue, where it waits for the learner to retry or discard it
+   */
+  private async handlePermanentFailure(
+    operation: SyncOperation,
+    failure: DeadLetterFailure
+  ): Promise<void> {
+    try {
+      await deadLetterQueue.add(operation, failure);
+      await offlineStorage.removeFromSyncQueue(operation.id);
+      this.newlyFailedCount++;
+    } catch (error) {
+      logger.error(`Error moving operation ${operation.id} to dead-letter queue:`, error);
+    }
+  }
+
+  /**
+   * Let the learner know some changes need their attention
+   */
+  private async notifyPermanentFailures(count: number): Promise<void> {
+    try {
+      await scheduleLocalNotification(
+        'Some changes could not be synced',
+        count === 1
+          ? '1 change could not be saved to your account. Tap to review it.'
+          : `${count} changes could not be saved to your account. Tap to review them.`,
+        { type: NotificationType.SYNC_FAILURE }
+      );
+    } catch (error) {
+      logger.error('Error sending sync failure notification:', error);
+    }
   }
 
   /**
@@ -233,6 +822,7 @@ class SyncService {
   private async checkConnectivity(): Promise<boolean> {
     try {
       const networkState = await Network.getNetworkStateAsync();
+      this.networkType = deriveNetworkType(networkState);
       return (networkState.isConnected ?? false) && (networkState.isInternetReachable ?? false);
     } catch (error) {
       logger.error('Error checking connectivity:', error);
@@ -240,22 +830,38 @@ class SyncService {
     }
   }
 
-  /**
-   * Create batches from operations array
-   */
-  private createBatches<T>(array: T[], batchSize: number): T[][] {
-    const batches: T[][] = [];
-    for (let i = 0; i < array.length; i += batchSize) {
-      batches.push(array.slice(i, i + batchSize));
+  private async getTransportConditions(): Promise<TransportConditions> {
+    const { dataSaver } = await this.getSyncSettings();
+    return {
+      networkType: this.networkType,
+      isBackground: AppState.currentState !== 'active',
+      dataSaver,
+    };
+  }
+
+  async getSyncSettings(): Promise<SyncSettings> {
+    const settings = await offlineStorage.retrieve<Partial<SyncSettings>>(STORAGE_KEYS.SYNC_SETTINGS);
+    return { ...DEFAULT_SYNC_SETTINGS, ...settings };
+  }
+
+  async updateSyncSettings(updates: Partial<SyncSettings>): Promise<SyncSettings> {
+    const settings = { ...(await this.getSyncSettings()), ...updates };
+    await offlineStorage.store(STORAGE_KEYS.SYNC_SETTINGS, settings);
+
+    // Turning data saver off may release held operations
+    if (updates.dataSaver === false) {
+      this.syncPendingOperations();
     }
-    return batches;
+    return settings;
   }
 
   /**
-   * Calculate retry delay with exponential backoff
+   * Calculate retry delay: what the server asked for in Retry-After, otherwise
+   * exponential backoff with full jitter
    */
-  private calculateRetryDelay(retryCount: number): number {
-    return this.config.retryDelay * Math.pow(2, retryCount);
+  private calculateRetryDelay(retryCount: number, error: any): number {
+    return getRetryAfterMs(error)
+      ?? getBackoffDelay(retryCount, this.config.retryDelay, this.config.maxRetryDelay);
   }
 
   /**
@@ -291,34 +897,83 @@ class SyncService {
   /**
    * Get sync statistics
    */
-  async getSyncStats(): Promise<{
-    pendingCount: number;
-    failedCount: number;
-    isSyncing: boolean;
-    lastSyncTime?: number;
-  }> {
-    const pendingCount = await offlineStorage.getPendingOperationsCount();
-    const failedOperations = await offlineStorage.getFailedOperations();
+  async getSyncStats(): Promise<SyncStats> {
+    const queue = await offlineStorage.getSyncQueue();
+    const failed = (await deadLetterQueue.getEntries()).map(entry => entry.operation);
+    const lastRun = await syncHistory.getLastSuccessfulRun();
     
     return {
-      pendingCount,
-      failedCount: failedOperations.length,
+      pendingCount: queue.length,
+      failedCount: failed.length + queue.filter(isPermanentlyFailed).length,
+      blockedCount: findBlockedOperations(queue, failed).size,
       isSyncing: this.isSyncing,
-      // Could store last sync time in AsyncStorage if needed
+      lastSyncTime: lastRun?.endedAt,
     };
   }
 
   /**
-   * Resolve conflicts using specified strategy
+   * Recent sync runs, oldest first
+   */
+  async getSyncHistory(): Promise<SyncRun[]> {
+    return syncHistory.getRuns();
+  }
+
+  /**
+   * Write a document only if the server copy is still at `revision`.
+   *
+   * When another device wrote first (409/412), the current server copy is
+   * fetched, merged with ours through resolveConflicts and sent again against
+   * the new revision. Without a revision the write only succeeds if the
+   * server has no copy yet.
+   */
+  async putWithRevision<T>(
+    endpoint: string,
+    localData: T,
+    baseData: T | null,
+    revision?: string
+  ): Promise<RevisionedWrite<T>> {
+    let data = localData;
+    let expected = revision;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await apiService.put(
+          endpoint,
+          data,
+          expected ? { ifMatch: expected } : { ifNoneMatch: true }
+        );
+        return { data, revision: this.getRevision(response) ?? expected };
+      } catch (error: any) {
+        const status = error?.response?.status;
+        if (!REVISION_CONFLICT_STATUSES.includes(status) || attempt + 1 >= MAX_REVISION_CONFLICTS) {
+          throw error;
+        }
+
+        logger.warn(`Revision conflict writing ${endpoint}, merging with server copy`);
+        const current = await apiService.get(endpoint);
+        data = await this.resolveConflicts(data, current.data, 'merge', baseData);
+        expected = this.getRevision(current);
+      }
+    }
+  }
+
+  private getRevision(response: any): string | undefined {
+    return response?.headers?.etag ?? response?.data?.revision;
+  }
+
+  /**
+   * Resolve conflicts using specified strategy. `baseData` is the version both
+   * sides last agreed on, used by the merge strategy where available.
    */
   async resolveConflicts(
     localData: any,
     serverData: any,
-    strategy: ConflictResolutionStrategy = 'serverWins'
+    strategy: ConflictResolutionStrategy = 'serverWins',
+    baseData: any = null
   ): Promise<any> {
     this.emitEvent({
       type: 'conflictDetected',
-      data: { localData, serverData },
+      data: { localData, serverData, baseData },
       timestamp: Date.now()
     });
 
@@ -328,7 +983,7 @@ class SyncService {
       case 'clientWins':
         return localData;
       case 'merge':
-        return this.mergeData(localData, serverData);
+        return this.mergeData(localData, serverData, baseData);
       case 'manual':
         // Return both versions for manual resolution
         return { local: localData, server: serverData };
@@ -340,7 +995,11 @@ class SyncService {
   /**
    * Merge conflicting data
    */
-  private mergeData(localData: any, serverData: any): any {
+  private mergeData(localData: any, serverData: any, baseData: any = null): any {
+    if (isCourseProgress(localData) && isCourseProgress(serverData)) {
+      return mergeCourseProgress(isCourseProgress(baseData) ? baseData : null, localData, serverData);
+    }
+
     // Simple merge strategy - could be enhanced based on data structure
     if (Array.isArray(localData) && Array.isArray(serverData)) {
       // Merge arrays, removing duplicates
@@ -356,14 +1015,12 @@ class SyncService {
   }
 
   /**
-   * Clear failed operations
+   * Discard every failed operation. The changes they carried are lost, so
+   * only call this after the learner confirmed it.
    */
   async clearFailedOperations(): Promise<void> {
-    const failedOps = await offlineStorage.getFailedOperations();
-    for (const op of failedOps) {
-      await offlineStorage.removeFromSyncQueue(op.id);
-    }
-    logger.info(`Cleared ${failedOps.length} failed operations`);
+    const count = await deadLetterQueue.discardAll();
+    logger.info(`Cleared ${count} failed operations`);
   }
 }
 
@@ -1,27 +1,89 @@
 import { create } from "zustand";
-
-interface User {
-  id: string;
-  name: string;
-  email: string;
-}
+import { accountManager } from "../services/accountManager";
+import { authSession } from "../services/authSession";
+import { api } from "../services/api/client";
+import { AuthResponse, User } from "../types/user";
+import logger from "../utils/logger";
 
 interface AppState {
   user: User | null;
   isAuthenticated: boolean;
+  // False until the stored session has been looked at on launch
+  isSessionRestored: boolean;
   theme: "light" | "dark";
-  setUser: (user: User | null) => void;
+  setUser: (user: User | null) => Promise<void>;
   setTheme: (theme: "light" | "dark") => void;
-  logout: () => void;
+  signIn: (email: string, password: string) => Promise<void>;
+  signUp: (name: string, email: string, password: string) => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  restoreSession: () => Promise<void>;
+  logout: () => Promise<void>;
 }
 
-export const useAppStore = create<AppState>((set) => ({
-  user: null,
-  isAuthenticated: false,
-  theme: "light",
-  setUser: (user) => set({ user, isAuthenticated: !!user }),
-  setTheme: (theme) => set({ theme }),
-  logout: () => set({ user: null, isAuthenticated: false }),
-}));
+export const useAppStore = create<AppState>((set, get) => {
+  // Keep the tokens, then switch to the account's data. The sign-in is only
+  // announced after that, so a sync it starts works on the new account.
+  const startSession = async ({ user, accessToken, refreshToken, expiresIn }: AuthResponse) => {
+    await authSession.start(
+      {
+        accessToken,
+        refreshToken,
+        expiresAt: expiresIn !== undefined ? Date.now() + expiresIn * 1000 : undefined,
+      },
+      user,
+      () => get().setUser(user)
+    );
+  };
+
+  return {
+    user: null,
+    isAuthenticated: false,
+    isSessionRestored: false,
+    theme: "light",
+    // Swap to the account's local data before screens see the new user
+    setUser: async (user) => {
+      await accountManager.switchAccount(user?.id ?? null);
+      set({ user, isAuthenticated: !!user });
+    },
+    setTheme: (theme) => set({ theme }),
+    signIn: async (email, password) => {
+      const { data } = await api.signIn({ body: { email: email.trim(), password } });
+      await startSession(data);
+    },
+    signUp: async (name, email, password) => {
+      const { data } = await api.signUp({ body: { name: name.trim(), email: email.trim(), password } });
+      await startSession(data);
+    },
+    requestPasswordReset: async (email) => {
+      await api.requestPasswordReset({ body: { email: email.trim() } });
+    },
+    // Sign back in as whoever was signed in when the app was closed
+    restoreSession: async () => {
+      try {
+        const user = await authSession.getUser();
+        if (user) {
+          await get().setUser(user);
+        }
+      } catch (error) {
+        logger.error("Error restoring session:", error);
+      } finally {
+        set({ isSessionRestored: true });
+      }
+    },
+    // Switching flushes the sync queue, so the tokens have to outlive it
+    logout: async () => {
+      await accountManager.switchAccount(null);
+      await authSession.clear();
+      set({ user: null, isAuthenticated: false });
+    },
+  };
+});
+
+// A session the server no longer accepts signs the learner out
+authSession.addEventListener((event) => {
+  if (event.type === "expired" && useAppStore.getState().isAuthenticated) {
+    useAppStore.getState().logout();
+  }
+});
 
 export * from './notificationStore';
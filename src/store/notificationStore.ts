@@ -1,12 +1,17 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import {
   NotificationPreferences,
   StoredNotification,
   DEFAULT_NOTIFICATION_PREFERENCES,
   NotificationType,
 } from '../types/notifications';
+import { migrationRegistry } from '../services/storage/migrations';
+import { STORAGE_KEYS } from '../services/storage/keys';
+import { SCHEMA_FAMILIES } from '../services/storage/schemas';
+import { offlineStorage } from '../services/offlineStorage';
+
+const notificationSchema = migrationRegistry.getFamily(SCHEMA_FAMILIES.NOTIFICATIONS);
 
 interface NotificationState {
   // Push token state
@@ -50,18 +55,34 @@ interface NotificationState {
   isNotificationTypeEnabled: (type: NotificationType) => boolean;
 }
 
+type PersistedNotificationState = Pick<
+  NotificationState,
+  | 'pushToken'
+  | 'isTokenRegistered'
+  | 'tokenLastUpdated'
+  | 'hasPromptedForPermission'
+  | 'permissionDeniedAt'
+  | 'preferences'
+  | 'notifications'
+  | 'unreadCount'
+>;
+
+const initialPersistedState: PersistedNotificationState = {
+  pushToken: null,
+  isTokenRegistered: false,
+  tokenLastUpdated: null,
+  hasPromptedForPermission: false,
+  permissionDeniedAt: null,
+  preferences: DEFAULT_NOTIFICATION_PREFERENCES,
+  notifications: [],
+  unreadCount: 0,
+};
+
 export const useNotificationStore = create<NotificationState>()(
   persist(
     (set, get) => ({
       // Initial state
-      pushToken: null,
-      isTokenRegistered: false,
-      tokenLastUpdated: null,
-      hasPromptedForPermission: false,
-      permissionDeniedAt: null,
-      preferences: DEFAULT_NOTIFICATION_PREFERENCES,
-      notifications: [],
-      unreadCount: 0,
+      ...initialPersistedState,
 
       // Push token actions
       setPushToken: (token) =>
@@ -174,9 +195,23 @@ export const useNotificationStore = create<NotificationState>()(
       },
     }),
     {
-      name: 'notification-storage',
-      storage: createJSONStorage(() => AsyncStorage),
-      partialize: (state) => ({
+      name: STORAGE_KEYS.NOTIFICATION_STORE,
+      // Scoped to the signed-in account; rehydrated when the account changes
+      storage: createJSONStorage(() => offlineStorage.getAdapter()),
+      version: notificationSchema?.version ?? 0,
+      migrate: (persistedState, version) =>
+        migrationRegistry.migrate<NotificationState>(
+          SCHEMA_FAMILIES.NOTIFICATIONS,
+          persistedState,
+          version
+        ).data,
+      // Start from defaults so an account without saved state doesn't keep the previous one's
+      merge: (persistedState, currentState) => ({
+        ...currentState,
+        ...initialPersistedState,
+        ...(persistedState as Partial<PersistedNotificationState>),
+      }),
+      partialize: (state): PersistedNotificationState => ({
         // Only persist these fields
         pushToken: state.pushToken,
         isTokenRegistered: state.isTokenRegistered,
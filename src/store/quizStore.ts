@@ -1,10 +1,11 @@
 import { create } from 'zustand';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Quiz, Question, QuizProgress } from '../types/course';
+import { offlineStorage, STORAGE_KEYS } from '../services/offlineStorage';
+import { learnerSync } from '../services/learnerSync';
 import logger from '../utils/logger';
 
-const QUIZ_SESSION_KEY = '@teachlink_quiz_session';
-const QUIZ_PROGRESS_KEY = '@teachlink_quiz_progress';
+const QUIZ_SESSION_KEY = STORAGE_KEYS.QUIZ_SESSION;
+const QUIZ_PROGRESS_KEY = STORAGE_KEYS.QUIZ_PROGRESS;
 
 interface QuizSession {
   quizId: string | null;
@@ -19,7 +20,7 @@ interface QuizState {
   // Session state (temporary, for active quiz)
   session: QuizSession;
   
-  // Progress state (persistent, synced with AsyncStorage)
+  // Progress state (persistent, synced with offline storage)
   quizProgress: Record<string, QuizProgress>; // quizId -> QuizProgress
   
   // Actions
@@ -31,6 +32,7 @@ interface QuizState {
   loadQuizProgress: (courseId: string) => Promise<void>;
   getQuizProgress: (quizId: string) => QuizProgress | null;
   hasCompletedQuiz: (quizId: string) => boolean;
+  clearLocalState: () => void;
 }
 
 const initialSession: QuizSession = {
@@ -59,8 +61,8 @@ export const useQuizStore = create<QuizState>((set, get) => ({
 
       set({ session: newSession });
 
-      // Save session to AsyncStorage
-      await AsyncStorage.setItem(QUIZ_SESSION_KEY, JSON.stringify(newSession));
+      // Save session to offline storage
+      await offlineStorage.store(QUIZ_SESSION_KEY, newSession);
       
       logger.info('Quiz started:', { quizId, sectionId, courseId });
     } catch (error) {
@@ -95,7 +97,7 @@ export const useQuizStore = create<QuizState>((set, get) => ({
             selectedAnswers: rest,
           };
           set({ session: updatedSession });
-          AsyncStorage.setItem(QUIZ_SESSION_KEY, JSON.stringify(updatedSession)).catch(
+          offlineStorage.store(QUIZ_SESSION_KEY, updatedSession).catch(
             (error) => logger.error('Error saving quiz session:', error)
           );
           return;
@@ -122,7 +124,7 @@ export const useQuizStore = create<QuizState>((set, get) => ({
     set({ session: updatedSession });
 
     // Auto-save session
-    AsyncStorage.setItem(QUIZ_SESSION_KEY, JSON.stringify(updatedSession)).catch(
+    offlineStorage.store(QUIZ_SESSION_KEY, updatedSession).catch(
       (error) => logger.error('Error saving quiz session:', error)
     );
   },
@@ -136,7 +138,7 @@ export const useQuizStore = create<QuizState>((set, get) => ({
       };
       set({ session: updatedSession });
       
-      AsyncStorage.setItem(QUIZ_SESSION_KEY, JSON.stringify(updatedSession)).catch(
+      offlineStorage.store(QUIZ_SESSION_KEY, updatedSession).catch(
         (error) => logger.error('Error saving quiz session:', error)
       );
     }
@@ -219,12 +221,19 @@ export const useQuizStore = create<QuizState>((set, get) => ({
 
       set({ quizProgress: updatedProgress });
 
-      // Save to AsyncStorage
+      // Save to offline storage
       const storageKey = `${QUIZ_PROGRESS_KEY}_${session.courseId}`;
-      await AsyncStorage.setItem(storageKey, JSON.stringify(updatedProgress));
+      await offlineStorage.store(storageKey, updatedProgress);
+
+      // Send the result to the server through the sync queue
+      try {
+        await learnerSync.recordQuizAttempt(session.courseId, newProgress);
+      } catch (error) {
+        logger.error('Error queueing quiz result for sync:', error);
+      }
 
       // Clear session
-      await AsyncStorage.removeItem(QUIZ_SESSION_KEY);
+      await offlineStorage.remove(QUIZ_SESSION_KEY);
       set({ session: initialSession });
 
       logger.info('Quiz completed:', { quizId: session.quizId, score, passed });
@@ -238,7 +247,7 @@ export const useQuizStore = create<QuizState>((set, get) => ({
 
   resetSession: async () => {
     try {
-      await AsyncStorage.removeItem(QUIZ_SESSION_KEY);
+      await offlineStorage.remove(QUIZ_SESSION_KEY);
       set({ session: initialSession });
     } catch (error) {
       logger.error('Error resetting quiz session:', error);
@@ -248,25 +257,23 @@ export const useQuizStore = create<QuizState>((set, get) => ({
   loadQuizProgress: async (courseId: string) => {
     try {
       const storageKey = `${QUIZ_PROGRESS_KEY}_${courseId}`;
-      const stored = await AsyncStorage.getItem(storageKey);
+      const stored = await offlineStorage.retrieve<Record<string, QuizProgress>>(storageKey);
       
       if (stored) {
-        const parsed = JSON.parse(stored) as Record<string, QuizProgress>;
-        set({ quizProgress: parsed });
+        set({ quizProgress: stored });
       } else {
         set({ quizProgress: {} });
       }
 
       // Also try to restore active session if exists
-      const sessionData = await AsyncStorage.getItem(QUIZ_SESSION_KEY);
-      if (sessionData) {
-        const session = JSON.parse(sessionData) as QuizSession;
+      const session = await offlineStorage.retrieve<QuizSession>(QUIZ_SESSION_KEY);
+      if (session) {
         // Only restore if it's for the current course
         if (session.courseId === courseId) {
           set({ session });
         } else {
           // Clear stale session
-          await AsyncStorage.removeItem(QUIZ_SESSION_KEY);
+          await offlineStorage.remove(QUIZ_SESSION_KEY);
         }
       }
     } catch (error) {
@@ -284,4 +291,9 @@ export const useQuizStore = create<QuizState>((set, get) => ({
     const { quizProgress } = get();
     return quizProgress[quizId]?.completed || false;
   },
+
+  // Drop in-memory state without touching storage (e.g. when switching accounts)
+  clearLocalState: () => {
+    set({ session: initialSession, quizProgress: {} });
+  },
 }));
@@ -88,6 +88,10 @@ export interface CourseProgress {
   lastAccessed: string;
   bookmarks: string[]; // lesson IDs
   notes: Record<string, Note[]>; // lessonId -> notes
+  lastSyncedAt?: string; // last successful upload to the server
+  revision?: string; // server revision (ETag) the last sync was based on
+  bookmarkTombstones?: Record<string, string>; // lessonId -> removedAt
+  noteTombstones?: Record<string, string>; // noteId -> deletedAt
 }
 
 export interface Note {
@@ -4,6 +4,7 @@ export enum NotificationType {
   LEARNING_REMINDER = 'learning_reminder',
   ACHIEVEMENT_UNLOCK = 'achievement_unlock',
   COMMUNITY_ACTIVITY = 'community_activity',
+  SYNC_FAILURE = 'sync_failure',
 }
 
 export interface NotificationPreferences {
@@ -0,0 +1,14 @@
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  avatar?: string;
+}
+
+// Reply to a sign-in or sign-up
+export interface AuthResponse {
+  user: User;
+  accessToken: string;
+  refreshToken: string;
+  expiresIn?: number; // seconds the access token is valid for
+}
@@ -0,0 +1,114 @@
+import { isApiValidationError } from '../services/api/schema';
+
+export type AuthField = 'name' | 'email' | 'password' | 'confirmPassword';
+
+export type FieldErrors = Partial<Record<AuthField, string>>;
+
+// A failed auth request, worded for the form that made it
+export interface AuthFormError {
+  message: string;
+  fieldErrors: FieldErrors;
+}
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function validateEmail(email: string): string | undefined {
+  if (!email.trim()) return 'Enter your email address';
+  if (!EMAIL_PATTERN.test(email.trim())) return 'Enter a valid email address';
+  return undefined;
+}
+
+function validateNewPassword(password: string): string | undefined {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Use at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  if (!/[A-Za-z]/.test(password) || !/[0-9]/.test(password)) {
+    return 'Use both letters and numbers';
+  }
+  return undefined;
+}
+
+// Drop fields without an error, so an empty object means the form is valid
+const compact = (errors: FieldErrors): FieldErrors =>
+  Object.fromEntries(Object.entries(errors).filter(([, message]) => message)) as FieldErrors;
+
+export function validateSignIn(values: { email: string; password: string }): FieldErrors {
+  return compact({
+    email: validateEmail(values.email),
+    password: values.password ? undefined : 'Enter your password',
+  });
+}
+
+export function validateSignUp(values: {
+  name: string;
+  email: string;
+  password: string;
+  confirmPassword: string;
+}): FieldErrors {
+  return compact({
+    name: values.name.trim() ? undefined : 'Enter your name',
+    email: validateEmail(values.email),
+    password: validateNewPassword(values.password),
+    confirmPassword:
+      values.confirmPassword === values.password ? undefined : 'Passwords do not match',
+  });
+}
+
+const AUTH_FIELDS: AuthField[] = ['name', 'email', 'password', 'confirmPassword'];
+
+/**
+ * Turn a failed sign-in, sign-up or reset request into a message for the
+ * form, with field errors when the server named the fields it rejected
+ * (`{ errors: { email: '...' } }` or `{ errors: [{ field, message }] }`).
+ */
+export function getAuthErrorMessage(error: any): AuthFormError {
+  if (isApiValidationError(error)) {
+    return { message: 'Something went wrong on our side. Please try again later.', fieldErrors: {} };
+  }
+
+  const response = error?.response;
+  if (!response) {
+    return { message: "Can't reach TeachLink. Check your connection and try again.", fieldErrors: {} };
+  }
+
+  const fieldErrors: FieldErrors = {};
+  const errors = response.data?.errors;
+  if (Array.isArray(errors)) {
+    errors.forEach((entry: any) => {
+      if (AUTH_FIELDS.includes(entry?.field) && typeof entry.message === 'string') {
+        fieldErrors[entry.field as AuthField] = entry.message;
+      }
+    });
+  } else if (errors && typeof errors === 'object') {
+    AUTH_FIELDS.forEach((field) => {
+      const message = Array.isArray(errors[field]) ? errors[field][0] : errors[field];
+      if (typeof message === 'string') fieldErrors[field] = message;
+    });
+  }
+
+  const serverMessage = typeof response.data?.message === 'string' ? response.data.message : null;
+  switch (response.status) {
+    case 401:
+      return { message: 'Incorrect email or password', fieldErrors };
+    case 409:
+      return {
+        message: 'An account with this email already exists',
+        fieldErrors: { email: 'Already registered', ...fieldErrors },
+      };
+    case 429:
+      return { message: 'Too many attempts. Please wait a moment and try again.', fieldErrors };
+    case 400:
+    case 422:
+      return { message: serverMessage ?? 'Please check the highlighted fields', fieldErrors };
+    default:
+      return {
+        message:
+          response.status >= 500
+            ? 'Something went wrong on our side. Please try again later.'
+            : serverMessage ?? 'Something went wrong. Please try again.',
+        fieldErrors,
+      };
+  }
+}
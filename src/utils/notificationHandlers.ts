@@ -53,6 +53,9 @@ export function handleNotificationResponse(
     case NotificationType.COMMUNITY_ACTIVITY:
       handleCommunityActivity(data);
       break;
+    case NotificationType.SYNC_FAILURE:
+      handleSyncFailure(data);
+      break;
     default:
       console.warn('Unknown notification type:', data.type);
   }
@@ -144,6 +147,19 @@ export function handleCommunityActivity(data: NotificationData): void {
   }
 }
 
+/**
+ * Handle sync failure notifications
+ * Deep links to: teachlink://sync/failed
+ */
+export function handleSyncFailure(data: NotificationData): void {
+  if (!navigationRef?.isReady()) {
+    console.warn('Navigation not ready for sync failure');
+    return;
+  }
+
+  navigationRef.navigate('FailedSync');
+}
+
 /**
  * Handle notification received while app is in foreground
  * Stores the notification and optionally shows in-app UI
@@ -193,6 +209,8 @@ export function buildDeepLink(data: NotificationData): string {
         : `${baseUrl}achievements`;
     case NotificationType.COMMUNITY_ACTIVITY:
       return data.postId ? `${baseUrl}community/${data.postId}` : `${baseUrl}community`;
+    case NotificationType.SYNC_FAILURE:
+      return `${baseUrl}sync/failed`;
     default:
       return baseUrl;
   }
@@ -221,6 +239,8 @@ export function parseDeepLink(url: string): NotificationData | null {
         return { type: NotificationType.ACHIEVEMENT_UNLOCK, achievementId: id };
       case 'community':
         return { type: NotificationType.COMMUNITY_ACTIVITY, postId: id };
+      case 'sync':
+        return { type: NotificationType.SYNC_FAILURE };
       default:
         return null;
     }